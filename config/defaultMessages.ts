@@ -60,6 +60,9 @@ export interface DefaultMessages {
 	// Pagination
 	previousPage: string
 	nextPage: string
+	previousPost: string
+	nextPost: string
+	postNavigation: string
 	page: NumberMessageFn
 	pageOf: TwoNumberMessageFn
 	noMorePosts: string
@@ -110,6 +113,26 @@ export interface DefaultMessages {
 	archive: string
 	archiveByMonth: string
 	archiveByYear: string
+	archivePostsFrom: StringMessageFn
+	archivePageTitle: TwoStringMessageFn
+	archivePageDescription: TwoStringMessageFn
+
+	// Series
+	series: string
+	seriesPart: TwoNumberMessageFn
+	seriesPreviousPart: string
+	seriesNextPart: string
+	seriesPostsIn: StringMessageFn
+	seriesPageTitle: TwoStringMessageFn
+	seriesPageDescription: TwoStringMessageFn
+
+	// Authors
+	aboutAuthor: string
+	authorWebsite: string
+	authorPostsBy: StringMessageFn
+	authorLinks: StringMessageFn
+	authorPageTitle: TwoStringMessageFn
+	authorPageDescription: TwoStringMessageFn
 
 	// Comments (if used)
 	comments: string
@@ -177,6 +200,9 @@ export const defaultMessages: DefaultMessages = {
 	// Pagination
 	previousPage: 'Previous',
 	nextPage: 'Next',
+	previousPost: 'Previous post',
+	nextPost: 'Next post',
+	postNavigation: 'More posts',
 	page: (pageNumber: number): string => `Page ${ pageNumber }`,
 	pageOf: (current: number, total: number): string => `Page ${ current } of ${ total }`,
 	noMorePosts: 'No more posts to load',
@@ -227,6 +253,26 @@ export const defaultMessages: DefaultMessages = {
 	archive: 'Archive',
 	archiveByMonth: 'Posts by Month',
 	archiveByYear: 'Posts by Year',
+	archivePostsFrom: (period: string): string => `Posts published in ${ period }`,
+	archivePageTitle: (period: string, blogName: string): string => `${ period } - ${ blogName }`,
+	archivePageDescription: (period: string, blogName: string): string => `All posts published on ${ blogName } in ${ period }.`,
+
+	// Series
+	series: 'Series',
+	seriesPart: (position: number, total: number): string => `Part ${ position } of ${ total }`,
+	seriesPreviousPart: 'Previous part',
+	seriesNextPart: 'Next part',
+	seriesPostsIn: (series: string): string => `All parts of the ${ series } series, in reading order`,
+	seriesPageTitle: (series: string, blogName: string): string => `${ series } - ${ blogName }`,
+	seriesPageDescription: (series: string, blogName: string): string => `Read every part of the ${ series } series on ${ blogName }.`,
+
+	// Authors
+	aboutAuthor: 'About the author',
+	authorWebsite: 'Website',
+	authorPostsBy: (author: string): string => `Posts written by ${ author }`,
+	authorLinks: (author: string): string => `${ author } elsewhere`,
+	authorPageTitle: (author: string, blogName: string): string => `${ author } - ${ blogName }`,
+	authorPageDescription: (author: string, blogName: string): string => `All posts by ${ author } on ${ blogName }.`,
 
 	// Comments (if used)
 	comments: 'Comments',
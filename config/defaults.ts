@@ -21,15 +21,21 @@ export interface ReadTimeConfig {
 	headingsWeight: number
 }
 
+/** How frontmatter validation problems are surfaced: throw, warn or skip */
+export type FrontmatterValidationMode = 'strict' | 'lenient' | 'off'
+
 /** Posts configuration */
 export interface PostsConfig {
 	contentBasePath: string
 	urlBasePath: string
 	excerptLength: number
 	relatedPostsCount: number
+	/** Limit previous/next post links to the post's primary category */
+	adjacentPostsInCategory: boolean
 	recentPostsCount: number
 	popularTagsCount: number
 	popularCategoriesCount: number
+	validation: FrontmatterValidationMode
 	readTime: ReadTimeConfig
 }
 
@@ -108,6 +114,7 @@ export interface PaginationConfig {
 	enableCategories: boolean
 	enableTags: boolean
 	enableTimelines: boolean
+	includeSubcategories: boolean
 	loadingDelay: number
 	observerRootMargin: string
 	observerThreshold: number
@@ -168,6 +175,17 @@ export interface ThemeConfig {
 	card: ThemeCard
 }
 
+/** Content cache configuration */
+export interface CacheConfig {
+	enabled: boolean
+	/** Time to live of cached post lists in milliseconds (0 keeps them until invalidated) */
+	ttl: number
+	/** Maximum number of cached post lists (one per language and load options) */
+	maxEntries: number
+	/** Maximum number of processed post files kept for incremental reloads */
+	maxPosts: number
+}
+
 /** i18n configuration */
 export interface I18nConfig {
 	enabled: boolean
@@ -179,6 +197,33 @@ export interface I18nConfig {
 	persistLanguageKey: string
 }
 
+/** Feeds advertised by feed discovery links; an empty path leaves a format out */
+export interface SeoFeedsConfig {
+	rss: string
+	atom: string
+	json: string
+}
+
+/** Generated OpenGraph images for posts without an image of their own */
+export interface SeoOgImagesConfig {
+	/** Path createOgImageHandler is served from; an empty path turns generated images off */
+	path: string
+	/** Format og:image points at; 'png' needs a rasterizer in createOgImageHandler */
+	format: 'svg' | 'png'
+}
+
+/** SEO configuration */
+export interface SeoConfig {
+	/** Absolute site origin for canonical and OpenGraph URLs, e.g. https://example.com */
+	siteUrl: string
+	/** Twitter/X account of the site, e.g. @goobits */
+	twitterSite: string
+	/** Image shared when a page has no image of its own */
+	defaultImage: string
+	feeds: SeoFeedsConfig
+	ogImages: SeoOgImagesConfig
+}
+
 /** Complete blog configuration type */
 export interface BlogConfig {
 	name: string
@@ -192,7 +237,9 @@ export interface BlogConfig {
 	pagination: PaginationConfig
 	social: SocialConfig
 	theme: ThemeConfig
+	cache: CacheConfig
 	i18n: I18nConfig
+	seo: SeoConfig
 	debug: boolean
 }
 
@@ -226,9 +273,11 @@ export const defaultBlogConfig: BlogConfig = {
 		urlBasePath: '/blog',
 		excerptLength: 160,
 		relatedPostsCount: 3,
+		adjacentPostsInCategory: false,
 		recentPostsCount: 5,
 		popularTagsCount: 10,
 		popularCategoriesCount: 5,
+		validation: 'lenient',
 		readTime: {
 			wordsPerMinute: 225,
 			defaultTime: 3,
@@ -305,6 +354,7 @@ export const defaultBlogConfig: BlogConfig = {
 		enableCategories: true,
 		enableTags: true,
 		enableTimelines: true,
+		includeSubcategories: true,
 		loadingDelay: 500,
 		observerRootMargin: '100px',
 		observerThreshold: 0.1
@@ -350,6 +400,14 @@ export const defaultBlogConfig: BlogConfig = {
 		}
 	},
 
+	// --- Caching ---
+	cache: {
+		enabled: true,
+		ttl: 1000 * 60 * 5,
+		maxEntries: 20,
+		maxPosts: 2000
+	},
+
 	// --- i18n ---
 	i18n: {
 		enabled: false,
@@ -357,10 +415,26 @@ export const defaultBlogConfig: BlogConfig = {
 		defaultLanguage: 'en',
 		includeLanguageInURL: false,
 		autoDetectLanguage: false,
-		languageDetectionOrder: [ 'url', 'sessionStorage', 'browser' ],
+		languageDetectionOrder: [ 'url', 'cookie', 'browser' ],
 		persistLanguageKey: 'blog-lang'
 	},
 
+	// --- SEO ---
+	seo: {
+		siteUrl: '',
+		twitterSite: '',
+		defaultImage: '',
+		feeds: {
+			rss: '/blog/rss.xml',
+			atom: '',
+			json: ''
+		},
+		ogImages: {
+			path: '/blog/og',
+			format: 'svg'
+		}
+	},
+
 	// --- Debug ---
 	debug: false
 }
\ No newline at end of file
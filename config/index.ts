@@ -8,8 +8,9 @@ import { defaultBlogConfig, getDefaultBlogPostFiles } from './defaults.js'
 import type { BlogConfig, GlobImportRecord } from './defaults.js'
 import { secureDeepMerge } from './secureDeepMerge.js'
 import { createLogger } from '../utils/logger.js'
+import type { ContentSource } from '../utils/contentSource.js'
 export { defaultMessages } from './defaultMessages.js'
-export type { BlogConfig, GlobImportRecord } from './defaults.js'
+export type { BlogConfig, CacheConfig, FrontmatterValidationMode, GlobImportRecord, SeoConfig } from './defaults.js'
 
 const logger = createLogger('Config')
 
@@ -19,11 +20,14 @@ export type GetBlogPostFilesFn = () => GlobImportRecord
 /** Options for initializing blog config */
 export interface InitBlogConfigOptions {
 	getBlogPostFiles?: GetBlogPostFilesFn
+	/** Where posts are loaded from (defaults to a glob source over getBlogPostFiles) */
+	contentSource?: ContentSource
 }
 
 /** Custom functions store type */
 interface CustomFunctions {
 	getBlogPostFiles: GetBlogPostFilesFn | null
+	contentSource: ContentSource | null
 }
 
 // Store for the current configuration
@@ -31,7 +35,8 @@ let currentConfig: BlogConfig | null = null
 
 // Store for custom functions that can't be serialized
 const customFunctions: CustomFunctions = {
-	getBlogPostFiles: null
+	getBlogPostFiles: null,
+	contentSource: null
 }
 
 /**
@@ -50,6 +55,9 @@ export function initBlogConfig(
 	if (options.getBlogPostFiles) {
 		customFunctions.getBlogPostFiles = options.getBlogPostFiles
 	}
+	if (options.contentSource) {
+		customFunctions.contentSource = options.contentSource
+	}
 
 	// Merge configuration securely (excluding functions)
 	currentConfig = secureDeepMerge(
@@ -107,6 +115,14 @@ export function getBlogPostFiles(): GlobImportRecord {
 	return getDefaultBlogPostFiles()
 }
 
+/**
+ * Get the content source registered with initBlogConfig
+ * @returns Registered content source, or null to use the default glob source
+ */
+export function getContentSource(): ContentSource | null {
+	return customFunctions.contentSource
+}
+
 // Export a proxy to the current config for backward compatibility
 export const blogConfig: BlogConfig = new Proxy({} as BlogConfig, {
 	get(_target: BlogConfig, prop: string | symbol): unknown {
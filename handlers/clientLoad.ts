@@ -32,7 +32,7 @@ export interface PostData {
  * Data passed from the server load function
  */
 export interface ServerLoadData {
-	pageType: 'index' | 'category' | 'tag' | 'post'
+	pageType: 'index' | 'category' | 'tag' | 'archive' | 'series' | 'author' | 'post'
 	post?: PostData
 	[key: string]: unknown
 }
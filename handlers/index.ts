@@ -5,12 +5,48 @@
  * to quickly set up a blog on any website.
  */
 
-import { getAllPosts, generateRssFeed } from '../utils/index.js'
+import {
+	getAllPosts,
+	findPost,
+	generateRssFeed,
+	generateAtomFeed,
+	generateJsonFeed,
+	generateSitemap,
+	filterPostsByCategory,
+	filterPostsByTag,
+	filterPostsByAuthor,
+	loadCategoryDescriptions,
+	loadTagRegistry,
+	resolveTagSlug,
+	getOriginalTaxonomyName,
+	getPostCategories,
+	getPostTags,
+	getCategoryUrl,
+	getTagUrl,
+	getAuthorUrl,
+	getPostAuthors,
+	slugify,
+	createErrorResponse,
+	getSearchIndex,
+	searchBlog,
+	renderOgImageSvg,
+	hashContent,
+	LruCache,
+	type ProcessedPost,
+	type SearchResult,
+	type RssFeedOptions,
+	type FeedContentRenderer,
+	type SitemapLocalizer
+} from '../utils/index.js'
+import { blogConfig } from '../config/index.js'
 import {
 	loadBlogIndex,
 	loadCategory,
 	loadTag,
 	loadPost,
+	loadArchive,
+	loadSeries,
+	loadAuthor,
 	generateBlogEntries
 } from './routeUtils.js'
 import type {
@@ -19,6 +55,9 @@ import type {
 	BlogIndexData,
 	CategoryData,
 	TagData,
+	ArchiveData,
+	SeriesData,
+	AuthorData,
 	PostPageData,
 	HttpError
 } from './routeUtils.js'
@@ -52,6 +91,9 @@ export interface ServerLoadEvent {
  */
 export interface RequestEvent {
 	url: URL
+	params?: RouteParams
+	/** Incoming request, read for conditional request headers */
+	request?: Request
 }
 
 /**
@@ -60,7 +102,7 @@ export interface RequestEvent {
 export type GetLanguageFunction = (locals: Locals) => string
 
 /**
- * Error handler function for RSS feed
+ * Error handler function for feed and API handlers
  */
 export type ErrorHandler = (error: unknown) => Response
 
@@ -107,19 +149,164 @@ export interface BlogSlugHandler {
 	prerender: boolean
 	trailingSlash: 'always' | 'never' | 'ignore'
 	entries: () => Promise<BlogEntry[]>
-	load: (event: ServerLoadEvent) => Promise<BlogIndexData | CategoryData | TagData | PostPageData>
+	load: (event: ServerLoadEvent) => Promise<BlogIndexData | CategoryData | TagData | ArchiveData | SeriesData | AuthorData | PostPageData>
 }
 
 /**
- * Options for createRSSFeedHandler
+ * Options for the feed handler factories
  */
-export interface RSSFeedHandlerOptions {
-	/** Path to the RSS feed */
+export interface FeedHandlerOptions {
+	/** Path to the feed (defaults to the request path for filtered feeds) */
 	feedPath?: string
+	/** Only include posts in this category (falls back to the `category` route param) */
+	category?: string
+	/** Only include posts with this tag (falls back to the `tag` route param) */
+	tag?: string
+	/** Only include posts by this author id (falls back to the `author` route param) */
+	author?: string
+	/** Language of the feed (falls back to the `lang` route param) */
+	lang?: string
+	/** Embed full post bodies instead of excerpts (loads post content) */
+	fullContent?: boolean
+	/** Custom renderer for full post bodies */
+	renderContent?: FeedContentRenderer
 	/** Custom error handler */
 	errorHandler?: ErrorHandler | null
 }
 
+/**
+ * Options for createRSSFeedHandler
+ */
+export type RSSFeedHandlerOptions = FeedHandlerOptions
+
+/**
+ * Options for createAtomFeedHandler
+ */
+export type AtomFeedHandlerOptions = FeedHandlerOptions
+
+/**
+ * Options for createJsonFeedHandler
+ */
+export type JsonFeedHandlerOptions = FeedHandlerOptions
+
+/**
+ * Feed generator function signature shared by RSS, Atom and JSON Feed
+ */
+type FeedGenerator = (posts: ProcessedPost[], options: RssFeedOptions) => string
+
+/**
+ * Format-specific settings for a feed handler
+ */
+interface FeedFormat {
+	generate: FeedGenerator
+	defaultFeedPath: string
+	contentType: string
+	errorBody: string
+	errorContentType: string
+}
+
+/**
+ * Options for createSitemapHandler
+ */
+export interface SitemapHandlerOptions {
+	/** Path the sitemap is served from (used for split sitemap links) */
+	sitemapPath?: string
+	/** Include category and tag pages */
+	includeTaxonomies?: boolean
+	/** Builds the localized path of a page for hreflang alternates */
+	localizePath?: SitemapLocalizer
+	/** Maximum URLs per sitemap before splitting into a sitemap index */
+	maxUrlsPerSitemap?: number
+	/** Custom error handler */
+	errorHandler?: ErrorHandler | null
+}
+
+/**
+ * Options for createBlogPostsApiHandler
+ */
+export interface BlogPostsApiHandlerOptions {
+	/** Page size used when the request has no limit param (defaults to pagination.postsPerBatch) */
+	defaultLimit?: number
+	/** Largest page size a client may request */
+	maxLimit?: number
+	/** Custom error handler */
+	errorHandler?: ErrorHandler | null
+}
+
+/**
+ * Pagination metadata returned by the posts API
+ */
+export interface PostsPaginationMeta {
+	page: number
+	limit: number
+	total: number
+	pageCount: number
+	hasNextPage: boolean
+	hasPreviousPage: boolean
+}
+
+/**
+ * Response body of the posts API
+ */
+export interface BlogPostsApiResponse {
+	posts: ProcessedPost[]
+	pagination: PostsPaginationMeta
+}
+
+/**
+ * Options for createSearchHandler
+ */
+export interface SearchHandlerOptions {
+	/** Page size used when the request has no limit param */
+	defaultLimit?: number
+	/** Largest page size a client may request */
+	maxLimit?: number
+	/** Longest accepted query in characters */
+	maxQueryLength?: number
+	/** Maximum snippet length in characters */
+	snippetLength?: number
+	/** Custom error handler */
+	errorHandler?: ErrorHandler | null
+}
+
+/**
+ * Options for createSearchIndexHandler
+ */
+export interface SearchIndexHandlerOptions {
+	/** Language of the index when the request has no lang param (default: en) */
+	lang?: string
+	/** Include post bodies for snippets; makes the index much larger (default: false) */
+	includeText?: boolean
+	/** Custom error handler */
+	errorHandler?: ErrorHandler | null
+}
+
+/**
+ * Converts a generated SVG OpenGraph image to PNG
+ */
+export type OgImageRasterizer = (svg: string) => Uint8Array | Promise<Uint8Array>
+
+/**
+ * Options for createOgImageHandler
+ */
+export interface OgImageHandlerOptions {
+	/** Converts images to PNG (e.g. with @resvg/resvg-wasm); without one, PNG requests return 404 */
+	rasterize?: OgImageRasterizer
+	/** Number of rendered images kept in memory (default: 100) */
+	maxCachedImages?: number
+	/** Custom error handler */
+	errorHandler?: ErrorHandler | null
+}
+
+/**
+ * Response body of the search API
+ */
+export interface BlogSearchApiResponse {
+	query: string
+	results: SearchResult[]
+	pagination: PostsPaginationMeta
+}
+
 /**
  * Custom error with HTTP status code
  */
@@ -129,6 +316,29 @@ function createHttpError(message: string, status: number): HttpError {
 	return error
 }
 
+/**
+ * Type guard to check if an error has a status property
+ */
+function isHttpError(error: unknown): error is HttpError {
+	return (
+		error instanceof Error &&
+		'status' in error &&
+		typeof (error as HttpError).status === 'number'
+	)
+}
+
+/** Accepted shape of language codes in query and route params (e.g. en, pt-BR) */
+const LANG_PATTERN = /^[a-z]{2,3}(-[a-zA-Z0-9]{2,8})?$/
+
+/**
+ * Checks whether a language is the default or one of i18n.supportedLanguages
+ * Handlers that build per-language data check this so arbitrary codes can't fill their caches
+ */
+function isSupportedLanguage(lang: string): boolean {
+	const { i18n } = blogConfig
+	return lang === (i18n?.defaultLanguage ?? 'en') || (i18n?.supportedLanguages ?? []).includes(lang)
+}
+
 /**
  * Creates a blog index handler for +page.server.js
  *
@@ -158,7 +368,7 @@ export function createBlogIndexHandler(options: BlogIndexHandlerOptions = {}): B
 
 /**
  * Creates a blog slug handler for +page.server.js
- * Handles individual posts, categories, and tags
+ * Handles individual posts, categories, tags, series, authors and year/month archives
  *
  * @example
  * // In your routes/blog/[...slug]/+page.server.js
@@ -181,7 +391,7 @@ export function createBlogSlugHandler(options: BlogSlugHandlerOptions = {}): Blo
 		prerender,
 		trailingSlash,
 		entries: async (): Promise<BlogEntry[]> => await generateBlogEntries(languages, config),
-		load: async ({ params, locals }: ServerLoadEvent): Promise<BlogIndexData | CategoryData | TagData | PostPageData> => {
+		load: async ({ params, locals }: ServerLoadEvent): Promise<BlogIndexData | CategoryData | TagData | ArchiveData | SeriesData | AuthorData | PostPageData> => {
 			const { slug } = params
 			const lang = getLanguage(locals)
 
@@ -208,6 +418,23 @@ export function createBlogSlugHandler(options: BlogSlugHandlerOptions = {}): Blo
 				return await loadTag(tagSlug, lang, config)
 			}
 
+			if (normalizedSlug.startsWith('series/')) {
+				const seriesSlug = normalizedSlug.replace('series/', '')
+				return await loadSeries(seriesSlug, lang, config)
+			}
+
+			if (normalizedSlug.startsWith('author/')) {
+				const authorId = normalizedSlug.replace('author/', '')
+				return await loadAuthor(authorId, lang, config)
+			}
+
+			if (/^\d{4}(\/\d{2})?$/.test(normalizedSlug)) {
+				const [ year, month ] = routeParts
+				if (year) {
+					return await loadArchive(year, month ?? null, lang, config)
+				}
+			}
+
 			if (normalizedSlug.match(/^\d{4}\/\d{2}\/.+/)) {
 				const [ year, month, postSlug ] = routeParts
 				// The regex match ensures these values exist, but we need to satisfy TypeScript
@@ -222,6 +449,110 @@ export function createBlogSlugHandler(options: BlogSlugHandlerOptions = {}): Blo
 	}
 }
 
+/**
+ * Filters posts to a category, including its subcategories unless disabled in the config
+ */
+async function filterCategoryPosts(posts: ProcessedPost[], categorySlug: string, lang?: string): Promise<ProcessedPost[]> {
+	return filterPostsByCategory(posts, categorySlug, slugify, {
+		includeDescendants: blogConfig.pagination.includeSubcategories,
+		categories: await loadCategoryDescriptions(lang)
+	})
+}
+
+/**
+ * Resolves a tag param to its canonical slug, following aliases in the tag registry
+ * (loaded posts already carry canonical tags)
+ */
+async function resolveTagParam(tag: string, lang?: string): Promise<string> {
+	return resolveTagSlug(slugify(tag), await loadTagRegistry(lang))
+}
+
+/**
+ * Creates a GET handler that renders posts with the given feed format
+ * Posts can be narrowed to one category, tag, author or language via options or route params
+ */
+function createFeedHandler(format: FeedFormat, options: FeedHandlerOptions): (event: RequestEvent) => Promise<Response> {
+	const { errorHandler = null, fullContent = false, renderContent } = options
+
+	return async ({ url, params = {} }: RequestEvent): Promise<Response> => {
+		try {
+			const category = options.category ?? params['category']
+			const tag = options.tag ?? params['tag']
+			const author = options.author ?? params['author']
+			const lang = options.lang ?? params['lang']
+
+			if (lang !== undefined && !LANG_PATTERN.test(lang)) {
+				throw createHttpError(`Invalid feed language "${ lang }"`, 400)
+			}
+
+			let posts = await getAllPosts({
+				...(lang ? { lang } : {}),
+				...(fullContent ? { includeContent: true } : {})
+			})
+			const subsetNames: string[] = []
+			let homePath: string | undefined
+
+			if (category) {
+				const categorySlug = slugify(category)
+				const categoryName = getOriginalTaxonomyName(posts, getPostCategories, categorySlug, slugify)
+				posts = await filterCategoryPosts(posts, categorySlug, lang)
+				subsetNames.push(categoryName)
+				// Nested categories link to their full path, the canonical category URL
+				homePath = getCategoryUrl(categoryName, false, await loadCategoryDescriptions(lang))
+			}
+
+			if (tag) {
+				const tagSlug = await resolveTagParam(tag, lang)
+				const tagName = getOriginalTaxonomyName(posts, getPostTags, tagSlug, slugify)
+				posts = filterPostsByTag(posts, tagSlug, slugify)
+				subsetNames.push(tagName)
+				homePath = homePath ?? getTagUrl(tagName)
+			}
+
+			if (author) {
+				const authorId = slugify(author)
+				posts = filterPostsByAuthor(posts, authorId)
+				const authorName = posts
+					.flatMap(post => getPostAuthors(post))
+					.find(({ id }) => id === authorId)?.name ?? author
+				subsetNames.push(authorName)
+				homePath = homePath ?? getAuthorUrl(authorId)
+			}
+
+			if (subsetNames.length > 0 && posts.length === 0) {
+				throw createHttpError(`No posts found for feed "${ subsetNames.join(' / ') }"`, 404)
+			}
+
+			const isFiltered = Boolean(category || tag || author || lang)
+			const feed = format.generate(posts, {
+				siteUrl: url.origin,
+				feedPath: options.feedPath ?? (isFiltered ? url.pathname : format.defaultFeedPath),
+				...(subsetNames.length > 0 ? { feedTitle: `${ subsetNames.join(' / ') } - ${ blogConfig.name }` } : {}),
+				...(homePath ? { homePath } : {}),
+				...(lang ? { language: lang } : {}),
+				...(fullContent ? { fullContent } : {}),
+				...(renderContent ? { renderContent } : {})
+			})
+
+			return new Response(feed, {
+				headers: {
+					'Content-Type': format.contentType,
+					'Cache-Control': 'max-age=600, s-maxage=600'
+				}
+			})
+		} catch (error: unknown) {
+			if (errorHandler) {
+				return errorHandler(error)
+			}
+
+			return new Response(format.errorBody, {
+				status: isHttpError(error) ? error.status : 500,
+				headers: { 'Content-Type': format.errorContentType }
+			})
+		}
+	}
+}
+
 /**
  * Creates an RSS feed handler for +server.js
  *
@@ -230,28 +561,123 @@ export function createBlogSlugHandler(options: BlogSlugHandlerOptions = {}): Blo
  * import { createRSSFeedHandler } from '@goobits/blog/handlers'
  * export const GET = createRSSFeedHandler()
  *
+ * @example
+ * // Per-category feed in routes/blog/category/[category]/rss.xml/+server.js
+ * export const GET = createRSSFeedHandler()
+ *
+ * @example
+ * // Spanish-only feed
+ * export const GET = createRSSFeedHandler({ lang: 'es', feedPath: '/blog/es/rss.xml' })
+ *
  * @param options - Configuration options
  * @returns GET handler function
  */
 export function createRSSFeedHandler(options: RSSFeedHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	return createFeedHandler({
+		generate: generateRssFeed,
+		defaultFeedPath: '/blog/rss.xml',
+		contentType: 'application/xml',
+		errorBody: '<rss version="2.0"><channel><title>Error</title><description>Failed to generate RSS feed</description></channel></rss>',
+		errorContentType: 'application/xml'
+	}, options)
+}
+
+/**
+ * Creates an Atom 1.0 feed handler for +server.js
+ *
+ * @example
+ * // In your routes/blog/atom.xml/+server.js
+ * import { createAtomFeedHandler } from '@goobits/blog/handlers'
+ * export const GET = createAtomFeedHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createAtomFeedHandler(options: AtomFeedHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	return createFeedHandler({
+		generate: generateAtomFeed,
+		defaultFeedPath: '/blog/atom.xml',
+		contentType: 'application/atom+xml',
+		errorBody: '<feed xmlns="http://www.w3.org/2005/Atom"><title>Error</title><subtitle>Failed to generate Atom feed</subtitle></feed>',
+		errorContentType: 'application/atom+xml'
+	}, options)
+}
+
+/**
+ * Creates a JSON Feed 1.1 handler for +server.js
+ *
+ * @example
+ * // In your routes/blog/feed.json/+server.js
+ * import { createJsonFeedHandler } from '@goobits/blog/handlers'
+ * export const GET = createJsonFeedHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createJsonFeedHandler(options: JsonFeedHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	return createFeedHandler({
+		generate: generateJsonFeed,
+		defaultFeedPath: '/blog/feed.json',
+		contentType: 'application/feed+json',
+		errorBody: JSON.stringify(createErrorResponse('Failed to generate JSON feed', 'RSS_GENERATION')),
+		errorContentType: 'application/json'
+	}, options)
+}
+
+/**
+ * Creates an XML sitemap handler for +server.js
+ * Large blogs are split into a sitemap index with `?page=N` child sitemaps
+ *
+ * @example
+ * // In your routes/blog/sitemap.xml/+server.js
+ * import { createSitemapHandler } from '@goobits/blog/handlers'
+ * export const GET = createSitemapHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createSitemapHandler(options: SitemapHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
 	const {
-		feedPath = '/blog/rss.xml',
+		sitemapPath = '/blog/sitemap.xml',
+		includeTaxonomies,
+		localizePath,
+		maxUrlsPerSitemap,
 		errorHandler = null
 	} = options
 
 	return async ({ url }: RequestEvent): Promise<Response> => {
 		try {
+			const pageParam = url.searchParams.get('page')
+			const page = pageParam === null ? undefined : parsePositiveInt(pageParam, 1)
+			if (page === null) {
+				throw createHttpError('Invalid sitemap page', 400)
+			}
+
 			const posts = await getAllPosts()
+			const categories = await loadCategoryDescriptions()
 
-			const feed = generateRssFeed(posts, {
-				siteUrl: url.origin,
-				feedPath
-			})
+			let sitemap: string
+			try {
+				sitemap = generateSitemap(posts, {
+					siteUrl: url.origin,
+					sitemapPath,
+					categories,
+					...(includeTaxonomies !== undefined ? { includeTaxonomies } : {}),
+					...(localizePath ? { localizePath } : {}),
+					...(maxUrlsPerSitemap !== undefined ? { maxUrlsPerSitemap } : {}),
+					...(page !== undefined ? { page } : {})
+				})
+			} catch (error: unknown) {
+				if (page !== undefined) {
+					throw createHttpError(error instanceof Error ? error.message : 'Sitemap page not found', 404)
+				}
+				throw error
+			}
 
-			return new Response(feed, {
+			return new Response(sitemap, {
 				headers: {
 					'Content-Type': 'application/xml',
-					'Cache-Control': 'max-age=600, s-maxage=600'
+					'Cache-Control': 'max-age=3600, s-maxage=3600'
 				}
 			})
 		} catch (error: unknown) {
@@ -260,9 +686,9 @@ export function createRSSFeedHandler(options: RSSFeedHandlerOptions = {}): (even
 			}
 
 			return new Response(
-				'<rss version="2.0"><channel><title>Error</title><description>Failed to generate RSS feed</description></channel></rss>',
+				'<?xml version="1.0" encoding="UTF-8" ?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"></urlset>',
 				{
-					status: 500,
+					status: isHttpError(error) ? error.status : 500,
 					headers: { 'Content-Type': 'application/xml' }
 				}
 			)
@@ -270,5 +696,328 @@ export function createRSSFeedHandler(options: RSSFeedHandlerOptions = {}): (even
 	}
 }
 
+/**
+ * Creates a JSON response with the given status
+ */
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {
+			'Content-Type': 'application/json',
+			...headers
+		}
+	})
+}
+
+/**
+ * Parses a positive integer query param, returning null when it is invalid
+ */
+function parsePositiveInt(value: string | null, fallback: number): number | null {
+	if (value === null || value === '') {
+		return fallback
+	}
+	if (!/^\d+$/.test(value)) {
+		return null
+	}
+	const parsed = parseInt(value, 10)
+	return parsed > 0 ? parsed : null
+}
+
+/**
+ * Removes fields that are not needed to render a post card
+ * (body content and the full i18n map) to keep API responses small
+ */
+function toPostSummary(post: ProcessedPost): ProcessedPost {
+	const { content: _content, ...rest } = post
+	const { i18n: _i18n, ...fm } = post.metadata.fm
+	return {
+		...rest,
+		metadata: { fm }
+	}
+}
+
+/**
+ * Creates a paginated posts API handler for +server.js
+ * This is the endpoint BlogListPage uses for infinite scroll
+ *
+ * Query params: page, limit, lang, category, tag
+ *
+ * @example
+ * // In your routes/api/blog/posts/+server.js
+ * import { createBlogPostsApiHandler } from '@goobits/blog/handlers'
+ * export const GET = createBlogPostsApiHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createBlogPostsApiHandler(options: BlogPostsApiHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	const {
+		defaultLimit = blogConfig.pagination?.postsPerBatch || 6,
+		maxLimit = 50,
+		errorHandler = null
+	} = options
+
+	return async ({ url }: RequestEvent): Promise<Response> => {
+		const { searchParams } = url
+		const page = parsePositiveInt(searchParams.get('page'), 1)
+		// A postsPerBatch above maxLimit must not turn every request without ?limit into a 400
+		const limit = parsePositiveInt(searchParams.get('limit'), Math.min(defaultLimit, maxLimit))
+		const lang = searchParams.get('lang') || 'en'
+		const category = searchParams.get('category')
+		const tag = searchParams.get('tag')
+
+		if (page === null) {
+			return jsonResponse(createErrorResponse('Invalid page parameter', 'VALIDATION', { page: searchParams.get('page') }), 400)
+		}
+		if (limit === null || limit > maxLimit) {
+			return jsonResponse(createErrorResponse(`Invalid limit parameter (must be between 1 and ${ maxLimit })`, 'VALIDATION', { limit: searchParams.get('limit') }), 400)
+		}
+		if (!LANG_PATTERN.test(lang)) {
+			return jsonResponse(createErrorResponse('Invalid lang parameter', 'VALIDATION', { lang }), 400)
+		}
+
+		try {
+			let posts = await getAllPosts({ lang })
+
+			if (category) {
+				posts = await filterCategoryPosts(posts, slugify(category), lang)
+			}
+			if (tag) {
+				posts = filterPostsByTag(posts, await resolveTagParam(tag, lang), slugify)
+			}
+
+			const total = posts.length
+			const pageCount = Math.ceil(total / limit)
+			const start = (page - 1) * limit
+
+			const body: BlogPostsApiResponse = {
+				posts: posts.slice(start, start + limit).map(toPostSummary),
+				pagination: {
+					page,
+					limit,
+					total,
+					pageCount,
+					hasNextPage: page < pageCount,
+					hasPreviousPage: page > 1
+				}
+			}
+
+			return jsonResponse(body, 200, { 'Cache-Control': 'max-age=60, s-maxage=60' })
+		} catch (error: unknown) {
+			if (errorHandler) {
+				return errorHandler(error)
+			}
+
+			return jsonResponse(createErrorResponse('Failed to load posts', 'SERVER'), 500)
+		}
+	}
+}
+
+/**
+ * Creates a full-text search API handler for +server.js
+ *
+ * Query params: q, page, limit, lang, category, tag. Results are ranked,
+ * and each has an HTML snippet with matches wrapped in `<mark>`.
+ *
+ * @example
+ * // In your routes/api/blog/search/+server.js
+ * import { createSearchHandler } from '@goobits/blog/handlers'
+ * export const GET = createSearchHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createSearchHandler(options: SearchHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	const {
+		defaultLimit = 10,
+		maxLimit = 50,
+		maxQueryLength = 200,
+		snippetLength,
+		errorHandler = null
+	} = options
+
+	return async ({ url }: RequestEvent): Promise<Response> => {
+		const { searchParams } = url
+		const query = (searchParams.get('q') ?? '').trim()
+		const page = parsePositiveInt(searchParams.get('page'), 1)
+		const limit = parsePositiveInt(searchParams.get('limit'), defaultLimit)
+		const lang = searchParams.get('lang') || 'en'
+		const category = searchParams.get('category')
+		const tag = searchParams.get('tag')
+
+		if (query.length > maxQueryLength) {
+			return jsonResponse(createErrorResponse(`Query too long (max ${ maxQueryLength } characters)`, 'VALIDATION'), 400)
+		}
+		if (page === null) {
+			return jsonResponse(createErrorResponse('Invalid page parameter', 'VALIDATION', { page: searchParams.get('page') }), 400)
+		}
+		if (limit === null || limit > maxLimit) {
+			return jsonResponse(createErrorResponse(`Invalid limit parameter (must be between 1 and ${ maxLimit })`, 'VALIDATION', { limit: searchParams.get('limit') }), 400)
+		}
+		if (!LANG_PATTERN.test(lang)) {
+			return jsonResponse(createErrorResponse('Invalid lang parameter', 'VALIDATION', { lang }), 400)
+		}
+		if (!isSupportedLanguage(lang)) {
+			return jsonResponse(createErrorResponse('Unsupported lang parameter', 'VALIDATION', { lang }), 400)
+		}
+
+		try {
+			const results = query
+				? searchBlog(await getSearchIndex(lang), query, {
+					...(category ? { category } : {}),
+					...(tag ? { tag: await resolveTagParam(tag, lang) } : {}),
+					...(snippetLength !== undefined ? { snippetLength } : {})
+				})
+				: []
+
+			const total = results.length
+			const pageCount = Math.ceil(total / limit)
+			const start = (page - 1) * limit
+
+			const body: BlogSearchApiResponse = {
+				query,
+				results: results.slice(start, start + limit),
+				pagination: {
+					page,
+					limit,
+					total,
+					pageCount,
+					hasNextPage: page < pageCount,
+					hasPreviousPage: page > 1
+				}
+			}
+
+			return jsonResponse(body, 200, { 'Cache-Control': 'max-age=60, s-maxage=60' })
+		} catch (error: unknown) {
+			if (errorHandler) {
+				return errorHandler(error)
+			}
+
+			return jsonResponse(createErrorResponse('Search failed', 'SERVER'), 500)
+		}
+	}
+}
+
+/**
+ * Creates a handler serving the prebuilt search index as JSON
+ * This is the index BlogSearch loads for client-side search, and can be
+ * prerendered for static sites
+ *
+ * Query params: lang
+ *
+ * @example
+ * // In your routes/blog/search-index.json/+server.js
+ * import { createSearchIndexHandler } from '@goobits/blog/handlers'
+ * export const prerender = true
+ * export const GET = createSearchIndexHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createSearchIndexHandler(options: SearchIndexHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	const { lang: defaultLang = 'en', includeText = false, errorHandler = null } = options
+
+	return async ({ url }: RequestEvent): Promise<Response> => {
+		const lang = url.searchParams.get('lang') || defaultLang
+		if (!LANG_PATTERN.test(lang)) {
+			return jsonResponse(createErrorResponse('Invalid lang parameter', 'VALIDATION', { lang }), 400)
+		}
+		if (!isSupportedLanguage(lang)) {
+			return jsonResponse(createErrorResponse('Unsupported lang parameter', 'VALIDATION', { lang }), 400)
+		}
+
+		try {
+			const index = await getSearchIndex(lang)
+			const body = includeText
+				? index
+				: { ...index, documents: index.documents.map(({ post }) => ({ post })) }
+
+			return jsonResponse(body, 200, { 'Cache-Control': 'max-age=300, s-maxage=300' })
+		} catch (error: unknown) {
+			if (errorHandler) {
+				return errorHandler(error)
+			}
+
+			return jsonResponse(createErrorResponse('Failed to build search index', 'SERVER'), 500)
+		}
+	}
+}
+
+/**
+ * Creates a handler serving generated OpenGraph images for posts
+ * BlogSEO points og:image at it for posts without an image of their own
+ *
+ * The `path` route param is the post URL path with an `.svg` or `.png`
+ * extension. Query params: lang
+ *
+ * Rendered images are cached by the hash of their SVG, which also serves as
+ * the ETag, so a post is only rasterized again after its title, category,
+ * authors or the theme change.
+ *
+ * @example
+ * // In your routes/blog/og/[...path]/+server.js
+ * import { createOgImageHandler } from '@goobits/blog/handlers'
+ * export const GET = createOgImageHandler()
+ *
+ * @param options - Configuration options
+ * @returns GET handler function
+ */
+export function createOgImageHandler(options: OgImageHandlerOptions = {}): (event: RequestEvent) => Promise<Response> {
+	const { rasterize, maxCachedImages = 100, errorHandler = null } = options
+	const images = new LruCache<string | Uint8Array<ArrayBuffer>>({ maxEntries: maxCachedImages, ttl: 0 })
+
+	return async ({ url, params = {}, request }: RequestEvent): Promise<Response> => {
+		try {
+			const match = /^\/?(\d{4})\/(\d{2})\/([^/]+)\.(svg|png)$/.exec(params['path'] ?? '')
+			const [ , year, month, slug, format ] = match ?? []
+			if (year === undefined || month === undefined || slug === undefined || (format === 'png' && !rasterize)) {
+				throw createHttpError('Image not found', 404)
+			}
+
+			const lang = url.searchParams.get('lang') ?? undefined
+			if (lang !== undefined && !LANG_PATTERN.test(lang)) {
+				throw createHttpError(`Invalid image language "${ lang }"`, 400)
+			}
+
+			// Indexed lookup that also finds unlisted posts
+			const found = await findPost(slug, { year, month, includeContent: false, ...(lang ? { lang } : {}) })
+			if (!found) {
+				throw createHttpError('Image not found', 404)
+			}
+			const { post } = found
+
+			const svg = renderOgImageSvg(post)
+			const etag = `"${ hashContent(svg) }"`
+			const headers = {
+				'Content-Type': format === 'png' ? 'image/png' : 'image/svg+xml',
+				'Cache-Control': 'max-age=86400, s-maxage=86400',
+				'ETag': etag
+			}
+
+			if (request?.headers.get('If-None-Match') === etag) {
+				return new Response(null, { status: 304, headers })
+			}
+
+			const cacheKey = `${ etag }.${ format ?? 'svg' }`
+			let image = images.get(cacheKey)
+			if (image === undefined) {
+				image = format === 'png' && rasterize ? new Uint8Array(await rasterize(svg)) : svg
+				images.set(cacheKey, image)
+			}
+
+			return new Response(image, { headers })
+		} catch (error: unknown) {
+			if (errorHandler) {
+				return errorHandler(error)
+			}
+
+			return new Response(isHttpError(error) ? error.message : 'Failed to render image', {
+				status: isHttpError(error) ? error.status : 500,
+				headers: { 'Content-Type': 'text/plain' }
+			})
+		}
+	}
+}
+
 export * from './routeUtils.js'
 export * from './clientLoad.js'
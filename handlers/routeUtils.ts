@@ -13,18 +13,42 @@ import {
 	getPostTags,
 	getOriginalTaxonomyName,
 	loadCategoryDescriptions,
+	loadTagRegistry,
+	resolveTagSlug,
+	getTagUrl,
+	findPost,
+	filterPostsByDate,
+	getArchiveSummary,
+	getCategoryPath,
+	buildCategoryTree,
+	getSeries,
+	getSeriesNavigation,
+	getSimilarPosts,
+	filterPostsByAuthor,
+	getPostAuthors,
+	type ArchiveYear,
+	type PostSummary,
+	type CategoryTreeNode,
+	type PostAuthor,
+	type SeriesNavigation,
 	type ProcessedPost,
 	type PostMetadata,
 	type GetAllPostsOptions
 } from '../utils/blogUtils.js'
+import { redirect } from '@sveltejs/kit'
 import { getBlogConfig } from '../config/index.js'
 
 /**
  * Blog configuration type
  */
 export interface BlogConfig {
+	posts?: {
+		adjacentPostsInCategory?: boolean
+	}
 	pagination?: {
 		postsPerBatch?: number
+		enableTimelines?: boolean
+		includeSubcategories?: boolean
 	}
 	[key: string]: unknown
 }
@@ -49,6 +73,8 @@ export interface BlogIndexData {
 	allPosts: ProcessedPost[]
 	totalPosts: number
 	hasMorePosts: boolean
+	/** Categories nested under their declared parents */
+	categoryTree: CategoryTreeNode[]
 	lang: string
 }
 
@@ -64,9 +90,20 @@ export interface CategoryData {
 	categoryDescription: string | null
 	categoryImage: string | null
 	categoryImageAlt: string | null
+	/** The category and its ancestors, root first */
+	categoryPath: CategoryPathItem[]
+	categoryTree: CategoryTreeNode[]
 	lang: string
 }
 
+/**
+ * A category in the path from the root category, with its URL path
+ */
+export interface CategoryPathItem {
+	name: string
+	path: string
+}
+
 /**
  * Tag page data
  */
@@ -76,6 +113,61 @@ export interface TagData {
 	allPosts: ProcessedPost[]
 	tag: string
 	currentTag: string
+	tagDescription: string | null
+	tagImage: string | null
+	tagImageAlt: string | null
+	categoryTree: CategoryTreeNode[]
+	lang: string
+}
+
+/**
+ * Year or month archive page data
+ */
+export interface ArchiveData {
+	pageType: 'archive'
+	posts: ProcessedPost[]
+	allPosts: ProcessedPost[]
+	year: string
+	/** Two-digit month, or null for a whole-year archive */
+	month: string | null
+	/** Post counts per year and month, newest first */
+	archive: ArchiveYear[]
+	totalPosts: number
+	hasMorePosts: false
+	categoryTree: CategoryTreeNode[]
+	lang: string
+}
+
+/**
+ * Series page data
+ */
+export interface SeriesData {
+	pageType: 'series'
+	/** Parts of the series in reading order */
+	posts: ProcessedPost[]
+	allPosts: ProcessedPost[]
+	series: string
+	seriesSlug: string
+	totalPosts: number
+	hasMorePosts: false
+	categoryTree: CategoryTreeNode[]
+	lang: string
+}
+
+/**
+ * Author page data
+ */
+export interface AuthorData {
+	pageType: 'author'
+	/** Posts credited to the author, newest first */
+	posts: ProcessedPost[]
+	allPosts: ProcessedPost[]
+	/** The author's profile, from the author registry when listed there */
+	author: PostAuthor
+	authorId: string
+	totalPosts: number
+	hasMorePosts: false
+	categoryTree: CategoryTreeNode[]
 	lang: string
 }
 
@@ -85,7 +177,14 @@ export interface TagData {
 export interface PostPageData {
 	pageType: 'post'
 	post: ProcessedPost
-	allPosts: ProcessedPost[]
+	/** Posts sharing the post's category or tags, most similar first */
+	relatedPosts: ProcessedPost[]
+	/** Position in the post's series, or null when it is not part of one */
+	series: SeriesNavigation | null
+	/** The next older post in the same language */
+	previousPost: PostSummary | null
+	/** The next newer post in the same language */
+	nextPost: PostSummary | null
 	lang: string
 }
 
@@ -128,9 +227,21 @@ export interface BlogEntry {
  * Category description data
  */
 interface CategoryInfo {
+	title?: string
 	description?: string
 	image?: string
 	alt?: string
+	parent?: string
+}
+
+/**
+ * Builds the sidebar category tree for a language
+ * @param posts - Posts of the language
+ * @param lang - The language code
+ * @returns Root categories with nested children
+ */
+async function loadCategoryTree(posts: ProcessedPost[], lang: string): Promise<CategoryTreeNode[]> {
+	return buildCategoryTree(posts, await loadCategoryDescriptions(lang))
 }
 
 /**
@@ -169,6 +280,7 @@ export async function loadBlogIndex(
 		allPosts, // Always send allPosts for sidebar categories/tags calculation
 		totalPosts,
 		hasMorePosts,
+		categoryTree: await loadCategoryTree(allPosts, lang),
 		lang
 		// Don't include config in returned data to avoid serialization issues
 	}
@@ -185,22 +297,38 @@ export async function loadBlogIndex(
 export async function loadCategory(
 	categorySlugParam: string,
 	lang: string,
-	_config: BlogConfig | null = null
+	config: BlogConfig | null = null
 ): Promise<CategoryData> {
 	if (!categorySlugParam) {
 		throw createHttpError('Category not specified', 404)
 	}
 
+	const finalConfig = config || getBlogConfig()
 	const slug = categorySlugParam.replace(/\/$/, '')
 	const allPosts: ProcessedPost[] = await getAllPosts({ lang })
 	const categoryDescriptions: Record<string, CategoryInfo> = await loadCategoryDescriptions(lang)
 	const slugLowerCase = slug.toLowerCase()
-	const categoryInfo: CategoryInfo = categoryDescriptions[slugLowerCase] || {}
-	const posts = filterPostsByCategory(allPosts, slugLowerCase, slugify)
+
+	// Nested categories are addressed by their full path; the bare slug also works
+	const segments = slugLowerCase.split('/')
+	const categorySlug = segments[segments.length - 1] ?? slugLowerCase
+	const path = getCategoryPath(categorySlug, categoryDescriptions)
+	if (segments.length > 1 && path.join('/') !== slugLowerCase) {
+		throw createHttpError(`Category "${ slug }" not found or has no posts`, 404)
+	}
+
+	const categoryInfo: CategoryInfo = Object.hasOwn(categoryDescriptions, categorySlug)
+		? categoryDescriptions[categorySlug] ?? {}
+		: {}
+	const posts = filterPostsByCategory(allPosts, categorySlug, slugify, {
+		includeDescendants: finalConfig.pagination?.includeSubcategories !== false,
+		categories: categoryDescriptions
+	})
+
 	const originalCategory = getOriginalTaxonomyName(
 		allPosts,
 		getPostCategories,
-		slugLowerCase,
+		categorySlug,
 		slugify
 	)
 
@@ -208,15 +336,31 @@ export async function loadCategory(
 		throw createHttpError(`Category "${ slug }" not found or has no posts`, 404)
 	}
 
+	const getCategoryName = (pathSlug: string): string => {
+		const name = pathSlug === categorySlug
+			? originalCategory
+			: getOriginalTaxonomyName(allPosts, getPostCategories, pathSlug, slugify)
+		// Parent categories without posts of their own fall back to their declared title
+		return name === pathSlug && Object.hasOwn(categoryDescriptions, pathSlug)
+			? categoryDescriptions[pathSlug]?.title ?? name
+			: name
+	}
+	const categoryName = getCategoryName(categorySlug)
+
 	return {
 		pageType: 'category',
 		posts,
 		allPosts,
-		category: originalCategory || slug,
-		currentCategory: originalCategory || slug,
+		category: categoryName,
+		currentCategory: categoryName,
 		categoryDescription: categoryInfo.description || null,
 		categoryImage: categoryInfo.image || null,
 		categoryImageAlt: categoryInfo.alt || null,
+		categoryPath: path.map((pathSlug, index) => ({
+			name: getCategoryName(pathSlug),
+			path: path.slice(0, index + 1).join('/')
+		})),
+		categoryTree: buildCategoryTree(allPosts, categoryDescriptions),
 		lang
 	}
 }
@@ -239,9 +383,18 @@ export async function loadTag(
 	}
 
 	const slug = tagSlugParam.replace(/\/$/, '')
-	const allPosts: ProcessedPost[] = await getAllPosts({ lang })
 	const slugLowerCase = slug.toLowerCase()
-	const posts = filterPostsByTag(allPosts, slugLowerCase, slugify)
+
+	// Aliases from the tag registry redirect to the canonical tag page
+	const registry = await loadTagRegistry(lang)
+	const canonicalSlug = resolveTagSlug(slugLowerCase, registry)
+	if (canonicalSlug !== slugLowerCase) {
+		redirect(301, getTagUrl(canonicalSlug, true))
+	}
+
+	const allPosts: ProcessedPost[] = await getAllPosts({ lang })
+	const tagInfo = Object.hasOwn(registry, canonicalSlug) ? registry[canonicalSlug] ?? {} : {}
+	const posts = filterPostsByTag(allPosts, slugLowerCase, slugify, registry)
 	const originalTag = getOriginalTaxonomyName(
 		allPosts,
 		getPostTags,
@@ -259,6 +412,136 @@ export async function loadTag(
 		allPosts,
 		tag: originalTag || slug,
 		currentTag: originalTag || slug,
+		tagDescription: tagInfo.description || null,
+		tagImage: tagInfo.image || null,
+		tagImageAlt: tagInfo.alt || null,
+		categoryTree: await loadCategoryTree(allPosts, lang),
+		lang
+	}
+}
+
+/**
+ * Loads data for a year or month archive page
+ * @param year - Four-digit year
+ * @param month - Two-digit month, or null for the whole year
+ * @param lang - The language code
+ * @param config - Blog configuration
+ * @returns An object containing page data for the archive
+ * @throws If timelines are disabled, the date is invalid or the period has no posts
+ */
+export async function loadArchive(
+	year: string,
+	month: string | null,
+	lang: string,
+	config: BlogConfig | null = null
+): Promise<ArchiveData> {
+	const finalConfig = config || getBlogConfig()
+	if (finalConfig.pagination?.enableTimelines === false) {
+		throw createHttpError('Blog page not found', 404)
+	}
+
+	const monthNumber = Number(month)
+	if (!/^\d{4}$/.test(year) || (month !== null && (!/^\d{2}$/.test(month) || monthNumber < 1 || monthNumber > 12))) {
+		throw createHttpError(`Invalid archive date: ${ month ? `${ year }/${ month }` : year }`, 404)
+	}
+
+	const allPosts: ProcessedPost[] = await getAllPosts({ lang, includeContent: false })
+	const posts = filterPostsByDate(allPosts, year, month)
+
+	if (posts.length === 0) {
+		throw createHttpError(`No posts in ${ month ? `${ year }/${ month }` : year }`, 404)
+	}
+
+	return {
+		pageType: 'archive',
+		posts,
+		allPosts,
+		year,
+		month,
+		archive: getArchiveSummary(allPosts),
+		totalPosts: posts.length,
+		// Archives are sent whole, so the list page must not page through the posts API
+		hasMorePosts: false,
+		categoryTree: await loadCategoryTree(allPosts, lang),
+		lang
+	}
+}
+
+/**
+ * Loads data for a series page
+ * @param seriesSlugParam - The slug of the series
+ * @param lang - The language code
+ * @param config - Blog configuration
+ * @returns An object containing page data for the series
+ * @throws If the series slug is not specified or has no posts
+ */
+export async function loadSeries(
+	seriesSlugParam: string,
+	lang: string,
+	_config: BlogConfig | null = null
+): Promise<SeriesData> {
+	if (!seriesSlugParam) {
+		throw createHttpError('Series not specified', 404)
+	}
+
+	const slug = seriesSlugParam.replace(/\/$/, '').toLowerCase()
+	const allPosts: ProcessedPost[] = await getAllPosts({ lang, includeContent: false })
+	const posts = getSeries(allPosts, slug)
+
+	if (posts.length === 0) {
+		throw createHttpError(`Series "${ slug }" not found or has no posts`, 404)
+	}
+
+	return {
+		pageType: 'series',
+		posts,
+		allPosts,
+		series: posts[0]?.metadata.fm.series ?? slug,
+		seriesSlug: slug,
+		totalPosts: posts.length,
+		// Series are sent whole and in reading order, so the list page must not page through the posts API
+		hasMorePosts: false,
+		categoryTree: await loadCategoryTree(allPosts, lang),
+		lang
+	}
+}
+
+/**
+ * Loads data for an author page
+ * @param authorIdParam - The id of the author
+ * @param lang - The language code
+ * @param config - Blog configuration
+ * @returns An object containing page data for the author
+ * @throws If the author id is not specified or the author has no posts
+ */
+export async function loadAuthor(
+	authorIdParam: string,
+	lang: string,
+	_config: BlogConfig | null = null
+): Promise<AuthorData> {
+	if (!authorIdParam) {
+		throw createHttpError('Author not specified', 404)
+	}
+
+	const authorId = slugify(authorIdParam.replace(/\/$/, ''))
+	const allPosts: ProcessedPost[] = await getAllPosts({ lang, includeContent: false })
+	const posts = filterPostsByAuthor(allPosts, authorId)
+	const author = getPostAuthors(posts[0]).find(({ id }) => id === authorId)
+
+	if (!author) {
+		throw createHttpError(`Author "${ authorId }" not found or has no posts`, 404)
+	}
+
+	return {
+		pageType: 'author',
+		posts,
+		allPosts,
+		author,
+		authorId,
+		totalPosts: posts.length,
+		// Author pages are sent whole, so the list page must not page through the posts API
+		hasMorePosts: false,
+		categoryTree: await loadCategoryTree(allPosts, lang),
 		lang
 	}
 }
@@ -278,40 +561,39 @@ export async function loadPost(
 	month: string,
 	postSlug: string,
 	lang: string,
-	_config: BlogConfig | null = null
+	config: BlogConfig | null = null
 ): Promise<PostPageData> {
+	const finalConfig = config || getBlogConfig()
+
 	try {
-		const allPosts: ProcessedPost[] = await getAllPosts({
+		// Indexed lookup; only the matched post's body is loaded
+		const found = await findPost(postSlug, {
+			year,
+			month,
 			lang,
-			includeContent: true
-		})
-
-		const foundPost = allPosts.find((p: ProcessedPost) => {
-			if (!p.urlPath) {
-				return false
-			}
-
-			const urlParts = p.urlPath.split('/').filter((part: string) => part)
-			if (urlParts.length !== 3) {
-				return false
-			}
-
-			const [ postYear, postMonth, postSlugPart ] = urlParts as [string, string, string]
-			return (
-				postYear === year &&
-				postMonth === month &&
-				(postSlugPart === postSlug || slugify(postSlugPart) === slugify(postSlug))
-			)
+			sameCategory: finalConfig.posts?.adjacentPostsInCategory === true
 		})
-
-		if (!foundPost) {
+		if (!found) {
 			throw createHttpError(`Article not found: ${ year }/${ month }/${ postSlug }`, 404)
 		}
 
+		// The cached list is used for series and related posts but not sent to the page
+		const { post } = found
+		const allPosts: ProcessedPost[] = await getAllPosts({ lang })
+		const [ primaryCategory ] = getPostCategories(post)
+
 		return {
 			pageType: 'post',
-			post: foundPost,
-			allPosts,
+			post,
+			relatedPosts: getSimilarPosts(
+				allPosts.filter(candidate => candidate.urlPath !== post.urlPath),
+				post.path ?? '',
+				primaryCategory ?? null,
+				post.metadata.fm.tags ?? []
+			),
+			series: getSeriesNavigation(allPosts, post),
+			previousPost: found.previousPost,
+			nextPost: found.nextPost,
 			lang
 		}
 	} catch (err: unknown) {
@@ -332,8 +614,9 @@ export async function loadPost(
  */
 export async function generateBlogEntries(
 	languages: string[] = [ 'en' ],
-	_config: BlogConfig | null = null
+	config: BlogConfig | null = null
 ): Promise<BlogEntry[]> {
+	const finalConfig = config || getBlogConfig()
 	const allPostsData: ProcessedPost[] = await getAllPosts({
 		includeLocalizedVersions: true
 	})
@@ -377,14 +660,22 @@ export async function generateBlogEntries(
 		categories.forEach((cat: string) => allCategories.add(slugify(cat)))
 	})
 
-	allCategories.forEach((categorySlug: string) => {
-		languages.forEach((lang: string) => {
+	for (const lang of languages) {
+		// Nested categories are prerendered at their full path, along with parents that have no posts of their own
+		const categoryDescriptions: Record<string, CategoryInfo> = await loadCategoryDescriptions(lang)
+		const categoryPaths = new Set<string>()
+		allCategories.forEach((categorySlug: string) => {
+			const path = getCategoryPath(categorySlug, categoryDescriptions)
+			path.forEach((_, index) => categoryPaths.add(path.slice(0, index + 1).join('/')))
+		})
+
+		categoryPaths.forEach((categoryPath: string) => {
 			generatedEntries.push({
-				slug: `category/${ categorySlug }`,
+				slug: `category/${ categoryPath }`,
 				lang
 			})
 		})
-	})
+	}
 
 	// Generate tag entries
 	const allTags = new Set<string>()
@@ -402,5 +693,51 @@ export async function generateBlogEntries(
 		})
 	})
 
+	// Generate series entries
+	const allSeries = new Set<string>()
+	allPostsData.forEach((post: ProcessedPost) => {
+		if (post.metadata.fm.series) {
+			allSeries.add(slugify(post.metadata.fm.series))
+		}
+	})
+
+	allSeries.forEach((seriesSlug: string) => {
+		languages.forEach((lang: string) => {
+			generatedEntries.push({
+				slug: `series/${ seriesSlug }`,
+				lang
+			})
+		})
+	})
+
+	// Generate author entries
+	const allAuthors = new Set<string>()
+	allPostsData.forEach((post: ProcessedPost) => {
+		getPostAuthors(post).forEach(({ id }) => {
+			if (id) { allAuthors.add(id) }
+		})
+	})
+
+	allAuthors.forEach((authorId: string) => {
+		languages.forEach((lang: string) => {
+			generatedEntries.push({
+				slug: `author/${ authorId }`,
+				lang
+			})
+		})
+	})
+
+	// Generate year and month archive entries
+	if (finalConfig.pagination?.enableTimelines !== false) {
+		getArchiveSummary(allPostsData).forEach(({ year, months }) => {
+			const slugs = [ year, ...months.map(({ month }) => `${ year }/${ month }`) ]
+			slugs.forEach((slug: string) => {
+				languages.forEach((lang: string) => {
+					generatedEntries.push({ slug, lang })
+				})
+			})
+		})
+	}
+
 	return generatedEntries
 }
@@ -4,8 +4,9 @@
  * Utilities for integrating blog with your i18n solution
  */
 
-import type { RequestEvent, ServerLoadEvent } from '@sveltejs/kit'
+import { redirect, type RequestEvent, type ServerLoadEvent } from '@sveltejs/kit'
 import { blogConfig } from '../config.js'
+import type { I18nConfig } from '../config/defaults.js'
 
 /**
  * Handler function type for custom i18n processing
@@ -34,12 +35,134 @@ interface LocalsWithI18n {
 	lang?: string
 }
 
+/**
+ * Where the language of a request came from
+ */
+export type LanguageSource = 'url' | 'cookie' | 'header' | 'default'
+
+/**
+ * Language negotiated for a request
+ */
+export interface LanguageDetection {
+	lang: string
+	source: LanguageSource
+	/** Language prefix of the URL, or null when the path has none */
+	urlLang: string | null
+	/** Path with the language prefix removed */
+	pathname: string
+}
+
+/**
+ * Options for handleBlogI18n
+ */
+export interface BlogI18nOptions {
+	/** Redirect to the prefixed URL when includeLanguageInURL is set and the language was detected (default: true) */
+	redirect?: boolean
+}
+
+/**
+ * Parses an Accept-Language header into language tags, most preferred first
+ *
+ * Tags with q=0 and the `*` wildcard are left out; tags with equal q-values
+ * keep their header order.
+ *
+ * @param header - Accept-Language header value
+ * @returns Language tags ordered by q-value
+ *
+ * @example
+ * parseAcceptLanguage('fr;q=0.5, es-MX, en;q=0.8') // ['es-MX', 'en', 'fr']
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+	if (!header) { return [] }
+
+	return header.split(',')
+		.map((part, index) => {
+			const [ tag = '', ...params ] = part.trim().split(';')
+			const qParam = params.map(param => param.trim()).find(param => param.startsWith('q='))
+			const q = qParam === undefined ? 1 : Number(qParam.slice(2))
+			return { tag: tag.trim(), q: isNaN(q) ? 0 : q, index }
+		})
+		.filter(({ tag, q }) => tag !== '' && tag !== '*' && q > 0)
+		.sort((a, b) => b.q - a.q || a.index - b.index)
+		.map(({ tag }) => tag)
+}
+
+/**
+ * Finds the supported language for a language tag, falling back from a
+ * regional tag to its base language (es-MX → es)
+ */
+function matchSupportedLanguage(tag: string, supportedLanguages: string[]): string | undefined {
+	const wanted = tag.toLowerCase()
+	const base = wanted.split('-')[0]
+	return supportedLanguages.find(lang => lang.toLowerCase() === wanted) ??
+		supportedLanguages.find(lang => lang.toLowerCase().split('-')[0] === base)
+}
+
+/**
+ * Negotiates the language of a request
+ *
+ * Sources are tried in `languageDetectionOrder`: `url` (language prefix),
+ * `cookie` (the `persistLanguageKey` cookie) and `browser` or `header`
+ * (Accept-Language). Cookies and headers are only read when
+ * `autoDetectLanguage` is on. Falls back to the default language.
+ *
+ * @param event - SvelteKit request event
+ * @param config - i18n configuration
+ * @returns The language, where it came from, the URL prefix and the path without it
+ */
+export function detectBlogLanguage(event: RequestEvent, config: I18nConfig = blogConfig.i18n): LanguageDetection {
+	const { supportedLanguages, defaultLanguage, autoDetectLanguage, languageDetectionOrder, persistLanguageKey } = config
+	const { pathname } = event.url
+
+	const [ , prefix = '' ] = pathname.split('/')
+	const urlLang = supportedLanguages.find(lang => lang.toLowerCase() === prefix.toLowerCase()) ?? null
+	const unprefixedPath = urlLang ? pathname.slice(prefix.length + 1) || '/' : pathname
+	const result = (lang: string, source: LanguageSource): LanguageDetection => ({ lang, source, urlLang, pathname: unprefixedPath })
+
+	for (const source of languageDetectionOrder) {
+		switch (source) {
+		case 'url':
+			if (urlLang) { return result(urlLang, 'url') }
+			break
+		case 'cookie': {
+			const cookie = autoDetectLanguage ? event.cookies.get(persistLanguageKey) : undefined
+			const lang = cookie ? matchSupportedLanguage(cookie, supportedLanguages) : undefined
+			if (lang) { return result(lang, 'cookie') }
+			break
+		}
+		case 'browser':
+		case 'header': {
+			const tags = autoDetectLanguage ? parseAcceptLanguage(event.request.headers.get('Accept-Language')) : []
+			const lang = tags.map(tag => matchSupportedLanguage(tag, supportedLanguages)).find(match => match !== undefined)
+			if (lang) { return result(lang, 'header') }
+			break
+		}
+		default:
+			// Client-side sources such as sessionStorage don't apply on the server
+			break
+		}
+	}
+
+	return result(defaultLanguage, 'default')
+}
+
+// Requests whose language handleBlogI18n negotiated
+const negotiatedEvents = new WeakSet<RequestEvent>()
+
 /**
  * Server hook for handling i18n in incoming requests
  * This should be called from your main hooks.server.js handle function
  *
+ * Negotiates the language of blog requests with detectBlogLanguage and
+ * stores it in `event.locals.lang`. With `includeLanguageInURL`, a language
+ * other than the default detected for a path without a language prefix
+ * redirects to the prefixed URL. The custom handler runs last and may
+ * override `locals.lang`. Pass the resolved response to
+ * applyBlogI18nHeaders to add the `Content-Language` and `Vary` headers.
+ *
  * @param event - SvelteKit handle event
  * @param handler - Optional custom i18n handler
+ * @param options - Redirect behaviour
  * @returns Promise that resolves when i18n handling is complete
  *
  * @example
@@ -53,33 +176,79 @@ interface LocalsWithI18n {
  *   // Your other handlers...
  *
  *   // Resolve the request
- *   return await resolve(event)
+ *   return applyBlogI18nHeaders(event, await resolve(event))
  * }
  */
-export async function handleBlogI18n(event: RequestEvent, handler?: I18nHandler): Promise<void> {
+export async function handleBlogI18n(event: RequestEvent, handler?: I18nHandler, options: BlogI18nOptions = {}): Promise<void> {
 	const config = blogConfig
+	const { redirect: redirectToPrefix = true } = options
+
+	if (!config.i18n?.enabled) { return }
 
-	// Only run if i18n is enabled and the URL is related to the blog
+	const detection = detectBlogLanguage(event, config.i18n)
+
+	// Only run if the URL is related to the blog, with or without a language prefix
 	// Using startsWith for path-based check instead of includes for better security
-	if (config.i18n?.enabled &&
-		event.url.pathname &&
-		(event.url.pathname === config.uri ||
-		 event.url.pathname.startsWith(`${config.uri}/`))) {
-
-		// Only call handler if it's actually a function
-		if (typeof handler === 'function') {
-			try {
-				await handler(event)
-			} catch (error: unknown) {
-				// Import logger inline to avoid circular dependencies
-				const { createLogger } = await import('../utils/logger.js')
-				const logger = createLogger('BlogI18n')
-				const errorMessage = error instanceof Error ? error.message : String(error)
-				logger.error('Error in blog i18n handler:', errorMessage)
-				// Don't rethrow to avoid breaking the request flow
-			}
+	if (detection.pathname !== config.uri && !detection.pathname.startsWith(`${config.uri}/`)) { return }
+
+	const { lang, source, urlLang } = detection
+	const { includeLanguageInURL, defaultLanguage } = config.i18n
+
+	// Prefixed paths never redirect, so a cookie or header can't bounce between prefixes
+	if (redirectToPrefix && includeLanguageInURL && urlLang === null && (source === 'cookie' || source === 'header') && lang !== defaultLanguage) {
+		redirect(307, `/${lang}${detection.pathname}${event.url.search}`)
+	}
+
+	const locals = event.locals as LocalsWithI18n
+	locals.lang = lang
+	negotiatedEvents.add(event)
+
+	// Only call handler if it's actually a function
+	if (typeof handler === 'function') {
+		try {
+			await handler(event)
+		} catch (error: unknown) {
+			// Import logger inline to avoid circular dependencies
+			const { createLogger } = await import('../utils/logger.js')
+			const logger = createLogger('BlogI18n')
+			const errorMessage = error instanceof Error ? error.message : String(error)
+			logger.error('Error in blog i18n handler:', errorMessage)
+			// Don't rethrow to avoid breaking the request flow
+		}
+	}
+}
+
+/**
+ * Adds the language headers of a blog request to its response
+ *
+ * Sets `Content-Language` to `event.locals.lang` unless the response already
+ * has one and, when `autoDetectLanguage` is on, appends `Accept-Language`
+ * and `Cookie` to `Vary`. Runs on the resolved response so pages and
+ * endpoints can still set these headers themselves. Responses to requests
+ * handleBlogI18n didn't negotiate are returned unchanged.
+ *
+ * @param event - SvelteKit handle event passed to handleBlogI18n
+ * @param response - Response from `resolve(event)`
+ * @returns The same response
+ */
+export function applyBlogI18nHeaders(event: RequestEvent, response: Response): Response {
+	const { lang } = event.locals as LocalsWithI18n
+	if (!negotiatedEvents.has(event) || !lang) { return response }
+
+	if (!response.headers.has('Content-Language')) {
+		response.headers.set('Content-Language', lang)
+	}
+
+	if (blogConfig.i18n.autoDetectLanguage) {
+		const vary = (response.headers.get('Vary') ?? '').split(',').map(value => value.trim()).filter(Boolean)
+		const varyKeys = vary.map(value => value.toLowerCase())
+		if (!varyKeys.includes('*')) {
+			const missing = [ 'Accept-Language', 'Cookie' ].filter(header => !varyKeys.includes(header.toLowerCase()))
+			if (missing.length > 0) { response.headers.set('Vary', [ ...vary, ...missing ].join(', ')) }
 		}
 	}
+
+	return response
 }
 
 /**
@@ -139,6 +308,9 @@ export const layoutLoadWithBlogI18n = loadWithBlogI18n
 
 export default {
 	handleBlogI18n,
+	applyBlogI18nHeaders,
+	detectBlogLanguage,
+	parseAcceptLanguage,
 	loadWithBlogI18n,
 	layoutLoadWithBlogI18n
 }
@@ -5,6 +5,9 @@
 import { createMessageGetter, getMergedMessages } from '../utils/messages.js'
 import {
 	handleBlogI18n,
+	applyBlogI18nHeaders,
+	detectBlogLanguage,
+	parseAcceptLanguage,
 	loadWithBlogI18n,
 	layoutLoadWithBlogI18n
 } from './hooks.js'
@@ -13,7 +16,10 @@ import {
 export type {
 	I18nHandler,
 	LoadFunction,
-	I18nLoadResult
+	I18nLoadResult,
+	LanguageSource,
+	LanguageDetection,
+	BlogI18nOptions
 } from './hooks.js'
 
 // Re-export i18n config type from the config module
@@ -23,6 +29,9 @@ export {
 	createMessageGetter,
 	getMergedMessages,
 	handleBlogI18n,
+	applyBlogI18nHeaders,
+	detectBlogLanguage,
+	parseAcceptLanguage,
 	loadWithBlogI18n,
 	layoutLoadWithBlogI18n
 }
@@ -15,6 +15,15 @@ export { default as BlogRouter } from './ui/BlogRouter.svelte'
 
 // Export utilities (canonical source for PostMetadata, ProcessedPost, CategoryData)
 export * from './utils/blogUtils.js'
+export * from './utils/feedContent.js'
+export * from './utils/frontmatter.js'
+export * from './utils/contentSource.js'
+export * from './utils/cache.js'
+export * from './utils/contentWatcher.js'
+export * from './utils/contentManifest.js'
+export * from './utils/search.js'
+export * from './utils/frontmatterValidation.js'
+export * from './utils/sitemapUtils.js'
 export * from './utils/breadcrumbUtils.js'
 export * from './utils/classUtils.js'
 export * from './utils/readTimeUtils.js'
@@ -35,6 +44,13 @@ export {
 	createBlogIndexHandler,
 	createBlogSlugHandler,
 	createRSSFeedHandler,
+	createAtomFeedHandler,
+	createJsonFeedHandler,
+	createBlogPostsApiHandler,
+	createSitemapHandler,
+	createSearchHandler,
+	createSearchIndexHandler,
+	createOgImageHandler,
 	// Handler types
 	type Locals,
 	type RouteParams,
@@ -46,7 +62,19 @@ export {
 	type BlogIndexHandler,
 	type BlogSlugHandlerOptions,
 	type BlogSlugHandler,
-	type RSSFeedHandlerOptions
+	type FeedHandlerOptions,
+	type RSSFeedHandlerOptions,
+	type AtomFeedHandlerOptions,
+	type JsonFeedHandlerOptions,
+	type BlogPostsApiHandlerOptions,
+	type SitemapHandlerOptions,
+	type BlogPostsApiResponse,
+	type PostsPaginationMeta,
+	type SearchHandlerOptions,
+	type SearchIndexHandlerOptions,
+	type BlogSearchApiResponse,
+	type OgImageHandlerOptions,
+	type OgImageRasterizer
 } from './handlers/index.js'
 
 // Export route utilities (excluding types that conflict with blogUtils/config)
@@ -56,11 +84,18 @@ export {
 	loadCategory,
 	loadTag,
 	loadPost,
+	loadArchive,
+	loadSeries,
+	loadAuthor,
 	generateBlogEntries,
 	// Non-conflicting types
 	type LoadBlogIndexOptions,
 	type BlogIndexData,
 	type TagData,
+	type ArchiveData,
+	type SeriesData,
+	type AuthorData,
+	type CategoryPathItem,
 	type PostPageData,
 	type HttpError,
 	type BlogEntry,
@@ -5,7 +5,7 @@
  * Each test justifies its existence by probing for specific failure modes.
  */
 
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import {
 	slugify,
 	formatDate,
@@ -22,8 +22,33 @@ import {
 	getPostCategories,
 	getPostTags,
 	getEmojiFromTitle,
+	getAllPosts,
+	clearBlogCache,
+	isPostPublished,
+	isPostUnlisted,
+	findPost,
+	filterPostsByDate,
+	getArchiveSummary,
+	formatArchiveMonth,
+	getCategoryPath,
+	buildCategoryTree,
+	parseTagRegistry,
+	resolveTagSlug,
+	normalizeTag,
+	getSeries,
+	getSeriesNavigation,
+	parseAuthorRegistry,
+	getPostAuthors,
+	filterPostsByAuthor,
+	getAuthorAvatarUrl,
 	type ProcessedPost
 } from '../utils/blogUtils.js'
+import { BlogError } from '../utils/errorHandler.js'
+
+// Post modules served by the mocked getBlogPostFiles
+const mockPostFiles = vi.hoisted(() => ({
+	files: {} as Record<string, () => Promise<unknown>>
+}))
 
 // Mock the blog config to avoid external dependencies
 vi.mock('../config/index.js', () => ({
@@ -52,7 +77,8 @@ vi.mock('../config/index.js', () => ({
 		}
 	},
 	getBlogVersion: () => ({ versionString: '1.0.0' }),
-	getBlogPostFiles: () => ({})
+	getBlogPostFiles: () => mockPostFiles.files,
+	getContentSource: () => null
 }))
 
 // Helper to create test posts with clean optional property handling
@@ -66,6 +92,13 @@ function createPost(overrides: {
 	content?: string
 	urlPath?: string
 	path?: string
+	draft?: boolean
+	publishAt?: string
+	unlisted?: boolean
+	series?: string
+	seriesOrder?: number
+	author?: ProcessedPost['metadata']['fm']['author']
+	authors?: ProcessedPost['metadata']['fm']['authors']
 } = {}): ProcessedPost {
 	const fm: ProcessedPost['metadata']['fm'] = {
 		title: overrides.title ?? 'Test Post',
@@ -75,6 +108,13 @@ function createPost(overrides: {
 	if (overrides.category) { fm.category = overrides.category }
 	if (overrides.tags) { fm.tags = overrides.tags }
 	if (overrides.excerpt) { fm.excerpt = overrides.excerpt }
+	if (overrides.draft !== undefined) { fm.draft = overrides.draft }
+	if (overrides.publishAt) { fm.publishAt = overrides.publishAt }
+	if (overrides.unlisted !== undefined) { fm.unlisted = overrides.unlisted }
+	if (overrides.series) { fm.series = overrides.series }
+	if (overrides.seriesOrder !== undefined) { fm.seriesOrder = overrides.seriesOrder }
+	if (overrides.author !== undefined) { fm.author = overrides.author }
+	if (overrides.authors) { fm.authors = overrides.authors }
 
 	const post: ProcessedPost = {
 		metadata: { fm },
@@ -382,6 +422,113 @@ test:
 		const result = parseCategoryDescriptions(content)
 		expect(result['test']?.description).toBe('Value without quotes')
 	})
+	it('reads parents from path keys and parent fields', () => {
+		const content = `---
+engineering:
+  title: Engineering
+engineering/frontend:
+  description: UI work
+css:
+  parent: "Frontend"
+---`
+		const result = parseCategoryDescriptions(content)
+		expect(result['frontend']).toEqual({ parent: 'engineering', description: 'UI work' })
+		expect(result['css']?.parent).toBe('frontend')
+		expect(result['engineering']?.parent).toBeUndefined()
+	})
+
+	it('reads multi-line values, quoted colons and CRLF line endings', () => {
+		const content = [
+			'---',
+			'news:',
+			'  title: "News: the latest"',
+			'  description: |',
+			'    First line',
+			'    second line',
+			'guides:',
+			'  description: >',
+			'    Folded',
+			'    text',
+			'---'
+		].join('\r\n')
+		const result = parseCategoryDescriptions(content)
+		expect(result['news']).toEqual({ title: 'News: the latest', description: 'First line\nsecond line' })
+		expect(result['guides']?.description).toBe('Folded text')
+	})
+
+	it('slugifies keys with uppercase letters and spaces', () => {
+		const content = `---
+Engineering/Frontend Work:
+  title: Frontend
+---`
+		expect(parseCategoryDescriptions(content)).toEqual({
+			'frontend-work': { title: 'Frontend', parent: 'engineering' }
+		})
+	})
+
+	it('reads translated fields for the requested language', () => {
+		const content = `---
+news:
+  title:
+    en: News
+    es: Noticias
+  description: Latest posts
+  description.es: Últimas entradas
+---`
+		expect(parseCategoryDescriptions(content, 'es')['news']).toEqual({ title: 'Noticias', description: 'Últimas entradas' })
+		expect(parseCategoryDescriptions(content, 'de')['news']).toEqual({ title: 'News', description: 'Latest posts' })
+	})
+
+	it('throws typed errors for malformed files', () => {
+		expect(() => parseCategoryDescriptions('---\n- news\n---')).toThrow(BlogError)
+		expect(() => parseCategoryDescriptions('---\nnews: Latest\n---')).toThrow('Invalid category "news": expected a mapping of fields')
+		expect(() => parseCategoryDescriptions('---\nnews:\n  title: [a, b]\n---')).toThrow(/"title" must be text/)
+	})
+})
+
+describe('category hierarchy', () => {
+	const categories = {
+		engineering: { title: 'Engineering' },
+		frontend: { parent: 'engineering' },
+		css: { parent: 'frontend' },
+		backend: { parent: 'engineering' }
+	}
+
+	const posts = [
+		createPost({ title: 'Grid', categories: ['CSS'] }),
+		createPost({ title: 'Svelte', categories: ['Frontend', 'CSS'] }),
+		createPost({ title: 'APIs', categories: ['Backend'] }),
+		createPost({ title: 'Life', categories: ['Personal'] })
+	]
+
+	it('resolves the path from the root category', () => {
+		expect(getCategoryPath('css', categories)).toEqual([ 'engineering', 'frontend', 'css' ])
+		expect(getCategoryPath('personal', categories)).toEqual([ 'personal' ])
+	})
+
+	it('stops at circular parents', () => {
+		expect(getCategoryPath('a', { a: { parent: 'b' }, b: { parent: 'a' } })).toEqual([ 'b', 'a' ])
+	})
+
+	it('optionally includes posts from subcategories', () => {
+		const titles = (result: ProcessedPost[]): string[] => result.map(p => p.metadata.fm.title ?? '')
+
+		expect(titles(filterPostsByCategory(posts, 'frontend', slugify))).toEqual([ 'Svelte' ])
+		expect(titles(filterPostsByCategory(posts, 'engineering', slugify, { includeDescendants: true, categories })))
+			.toEqual([ 'Grid', 'Svelte', 'APIs' ])
+	})
+
+	it('builds a tree with counts that include subcategories', () => {
+		const [ engineering, personal ] = buildCategoryTree(posts, categories)
+
+		expect(engineering).toMatchObject({ slug: 'engineering', name: 'Engineering', path: 'engineering', count: 0, totalCount: 3 })
+		expect(engineering?.children.map(node => [ node.path, node.count, node.totalCount ])).toEqual([
+			[ 'engineering/frontend', 1, 2 ],
+			[ 'engineering/backend', 1, 1 ]
+		])
+		expect(engineering?.children[0]?.children[0]).toMatchObject({ name: 'CSS', path: 'engineering/frontend/css', totalCount: 2 })
+		expect(personal).toMatchObject({ name: 'Personal', totalCount: 1, children: [] })
+	})
 })
 
 describe('getAllCategories', () => {
@@ -530,6 +677,58 @@ describe('generateTaxonomyEntries', () => {
 	})
 })
 
+describe('tag registry', () => {
+	const registry = parseTagRegistry(`---
+javascript:
+  title: JavaScript
+  description: "Posts about JS"
+  aliases: [js, "ECMAScript"]
+typescript:
+  aliases: ts
+---`)
+
+	it('parses canonical tags with alias lists', () => {
+		expect(registry).toEqual({
+			javascript: { title: 'JavaScript', description: 'Posts about JS', aliases: [ 'js', 'ECMAScript' ] },
+			typescript: { aliases: [ 'ts' ] }
+		})
+	})
+
+	it('resolves aliases and spelling variants to the canonical tag', () => {
+		expect(normalizeTag('JS', registry)).toBe('JavaScript')
+		expect(normalizeTag('javascript', registry)).toBe('JavaScript')
+		expect(normalizeTag('TS', registry)).toBe('typescript')
+		expect(normalizeTag('Rust', registry)).toBe('Rust')
+		expect(resolveTagSlug('ecmascript', registry)).toBe('javascript')
+		expect(resolveTagSlug('rust', registry)).toBe('rust')
+	})
+
+	it('normalizes post tags, tag lists and tag filters', () => {
+		const posts = [
+			createPost({ title: 'Post 1', tags: ['JS', 'javascript'] }),
+			createPost({ title: 'Post 2', tags: ['JavaScript'] }),
+			createPost({ title: 'Post 3', tags: ['ts'] })
+		]
+
+		expect(getPostTags(posts[0], registry)).toEqual([ 'JavaScript' ])
+		expect(getAllTags(posts, 10)).toEqual([ 'JS', 'javascript', 'JavaScript', 'ts' ])
+		expect(getAllTags(posts, 10, registry)).toEqual([ 'JavaScript', 'typescript' ])
+		expect(filterPostsByTag(posts, 'js', slugify, registry).map(p => p.metadata.fm.title)).toEqual([ 'Post 1', 'Post 2' ])
+	})
+
+	it('reads block alias lists and translated titles', () => {
+		const localized = parseTagRegistry(`---
+JavaScript:
+  title.es: JavaScript (es)
+  aliases:
+    - js
+    - ecmascript
+---`, 'es')
+		expect(localized).toEqual({ javascript: { title: 'JavaScript (es)', aliases: [ 'js', 'ecmascript' ] } })
+		expect(() => parseTagRegistry('---\njs:\n  aliases:\n    key: value\n---')).toThrow('"aliases" must be a list of names')
+	})
+})
+
 describe('getOriginalTaxonomyName', () => {
 	const posts = [
 		createPost({ categories: ['JavaScript Tutorials', 'Web Development'] })
@@ -546,6 +745,130 @@ describe('getOriginalTaxonomyName', () => {
 	})
 })
 
+describe('archives', () => {
+	const posts = [
+		createPost({ title: 'May A', urlPath: '/2024/05/may-a' }),
+		createPost({ title: 'May B', urlPath: '/2024/05/may-b' }),
+		createPost({ title: 'March', urlPath: '/2024/03/march' }),
+		createPost({ title: 'Old', urlPath: '/2023/12/old' }),
+		createPost({ title: 'Undated', urlPath: '/undated' })
+	]
+
+	it('filters posts by year and month from their URL', () => {
+		expect(filterPostsByDate(posts, '2024').map(p => p.metadata.fm.title)).toEqual([ 'May A', 'May B', 'March' ])
+		expect(filterPostsByDate(posts, '2024', '05').map(p => p.metadata.fm.title)).toEqual([ 'May A', 'May B' ])
+		expect(filterPostsByDate(posts, '2022')).toEqual([])
+	})
+
+	it('counts posts per year and month, newest first', () => {
+		expect(getArchiveSummary(posts)).toEqual([
+			{
+				year: '2024',
+				count: 3,
+				months: [
+					{ year: '2024', month: '05', count: 2 },
+					{ year: '2024', month: '03', count: 1 }
+				]
+			},
+			{ year: '2023', count: 1, months: [ { year: '2023', month: '12', count: 1 } ] }
+		])
+	})
+
+	it('formats month labels', () => {
+		expect(formatArchiveMonth('2024', '05')).toBe('May 2024')
+		expect(formatArchiveMonth('2024', '01', 'en', false)).toBe('January')
+	})
+})
+
+describe('series', () => {
+	const posts = [
+		createPost({ title: 'Part 3', date: '2024-03-01', urlPath: '/2024/03/part-3', series: 'Building a Blog', seriesOrder: 3 }),
+		createPost({ title: 'Extra', date: '2024-01-01', urlPath: '/2024/01/extra', series: 'building a blog' }),
+		createPost({ title: 'Part 1', date: '2024-02-01', urlPath: '/2024/02/part-1', series: 'Building a Blog', seriesOrder: 1 }),
+		createPost({ title: 'Part 2', date: '2024-02-15', urlPath: '/2024/02/part-2', series: 'Building a Blog', seriesOrder: 2 }),
+		createPost({ title: 'Standalone', urlPath: '/2024/01/standalone' })
+	]
+
+	it('orders parts by seriesOrder, then unordered parts by date', () => {
+		expect(getSeries(posts, 'building-a-blog').map(p => p.metadata.fm.title)).toEqual([ 'Part 1', 'Part 2', 'Part 3', 'Extra' ])
+		expect(getSeries(posts, 'unknown')).toEqual([])
+	})
+
+	it('gives the position of a post and its neighbouring parts', () => {
+		const navigation = getSeriesNavigation(posts, posts[3] as ProcessedPost)
+
+		expect(navigation).toMatchObject({
+			name: 'Building a Blog',
+			slug: 'building-a-blog',
+			position: 2,
+			total: 4,
+			previous: { title: 'Part 1', urlPath: '/2024/02/part-1' },
+			next: { title: 'Part 3', urlPath: '/2024/03/part-3' }
+		})
+		expect(getSeriesNavigation(posts, posts[2] as ProcessedPost)?.previous).toBeNull()
+		expect(getSeriesNavigation(posts, posts[4] as ProcessedPost)).toBeNull()
+	})
+})
+
+describe('author registry', () => {
+	const registry = parseAuthorRegistry(`---
+jane-doe:
+  name: Jane Doe
+  role: Editor
+  role.es: Editora
+  avatar: jane.jpg
+  social:
+    github: https://github.com/jane
+sam:
+  name: Sam
+---`)
+
+	it('parses author profiles keyed by id', () => {
+		expect(registry).toEqual({
+			'jane-doe': { id: 'jane-doe', name: 'Jane Doe', role: 'Editor', avatar: 'jane.jpg', social: { github: 'https://github.com/jane' } },
+			sam: { id: 'sam', name: 'Sam' }
+		})
+		expect(parseAuthorRegistry('{"Jane-Doe": {"name": "Jane", "role": {"es": "Editora"}}}', 'es', 'json'))
+			.toEqual({ 'jane-doe': { id: 'jane-doe', name: 'Jane', role: 'Editora' } })
+	})
+
+	it('rejects authors without a name and malformed files', () => {
+		expect(() => parseAuthorRegistry('---\njane:\n  role: Editor\n---')).toThrow('"name" is required')
+		expect(() => parseAuthorRegistry('---\njane:\n  name: Jane\n  social: [ github ]\n---')).toThrow('"social" must map networks to URLs')
+		expect(() => parseAuthorRegistry('[ "jane" ]', 'en', 'json')).toThrow(BlogError)
+		expect(() => parseAuthorRegistry('{ jane', 'en', 'json')).toThrow(BlogError)
+	})
+
+	it('resolves ids, inline profiles and co-authors without duplicates', () => {
+		const post = createPost({
+			author: 'jane-doe',
+			authors: [ { name: 'Sam', url: 'https://sam.dev' }, 'Guest Writer', 'Jane-Doe' ]
+		})
+
+		expect(getPostAuthors(post, registry)).toEqual([
+			registry['jane-doe'],
+			{ id: 'sam', name: 'Sam', url: 'https://sam.dev' },
+			{ id: 'guest-writer', name: 'Guest Writer' }
+		])
+		expect(getPostAuthors(createPost(), registry)).toEqual([])
+	})
+
+	it('filters posts by author id', () => {
+		const posts = [
+			createPost({ title: 'Solo', author: { name: 'Jane Doe' } }),
+			createPost({ title: 'Joint', author: { name: 'Sam' }, authors: [ { name: 'Jane Doe', id: 'jane-doe' } ] }),
+			createPost({ title: 'Other', author: { name: 'Sam' } })
+		]
+		expect(filterPostsByAuthor(posts, 'Jane-Doe').map(p => p.metadata.fm.title)).toEqual([ 'Solo', 'Joint' ])
+	})
+
+	it('resolves avatars against the authors path', () => {
+		expect(getAuthorAvatarUrl(registry['jane-doe'])).toBe('/images/authors/jane.jpg')
+		expect(getAuthorAvatarUrl(createPost({ author: { name: 'Sam', avatar: '/images/authors/sam.jpg' } }))).toBe('/images/authors/sam.jpg')
+		expect(getAuthorAvatarUrl(createPost())).toBe('/default-avatar.jpg')
+	})
+})
+
 describe('getEmojiFromTitle', () => {
 	it('extracts emoji from title', () => {
 		expect(getEmojiFromTitle('Hello World 🎉')).toBe('🎉')
@@ -565,3 +888,188 @@ describe('getEmojiFromTitle', () => {
 		expect(getEmojiFromTitle('No emoji', '🔧')).toBe('🔧')
 	})
 })
+
+describe('post publishing state', () => {
+	const now = new Date('2024-06-01T12:00:00Z')
+
+	it('treats posts without state fields as published and listed', () => {
+		const post = createPost()
+		expect(isPostPublished(post, now)).toBe(true)
+		expect(isPostUnlisted(post)).toBe(false)
+	})
+
+	it('treats drafts as unpublished', () => {
+		expect(isPostPublished(createPost({ draft: true }), now)).toBe(false)
+		expect(isPostPublished(createPost({ draft: false }), now)).toBe(true)
+	})
+
+	it('publishes scheduled posts once publishAt has passed', () => {
+		expect(isPostPublished(createPost({ publishAt: '2024-06-02T00:00:00Z' }), now)).toBe(false)
+		expect(isPostPublished(createPost({ publishAt: '2024-05-31T00:00:00Z' }), now)).toBe(true)
+	})
+
+	it('ignores an invalid publishAt rather than hiding the post', () => {
+		expect(isPostPublished(createPost({ publishAt: 'not-a-date' }), now)).toBe(true)
+	})
+
+	it('detects unlisted posts', () => {
+		expect(isPostUnlisted(createPost({ unlisted: true }))).toBe(true)
+	})
+})
+
+describe('getAllPosts visibility and validation', () => {
+	const module = (metadata: Record<string, unknown>) => () => Promise.resolve({ metadata: { readTime: 1, ...metadata } })
+
+	beforeEach(() => {
+		clearBlogCache()
+		mockPostFiles.files = {
+			'@blog/2024/01/published.md': module({ title: 'Published', date: '2024-01-10' }),
+			'@blog/2024/01/draft.md': module({ title: 'Draft', date: '2024-01-11', draft: true }),
+			'@blog/2024/01/scheduled.md': module({ title: 'Scheduled', date: '2024-01-12', publishAt: '2999-01-01T00:00:00Z' }),
+			'@blog/2024/01/unlisted.md': module({ title: 'Unlisted', date: '2024-01-13', unlisted: true })
+		}
+	})
+
+	afterEach(() => {
+		mockPostFiles.files = {}
+		clearBlogCache()
+	})
+
+	const titles = (posts: ProcessedPost[]): string[] => posts.map(post => post.metadata.fm.title ?? '')
+
+	it('excludes drafts, scheduled and unlisted posts by default', async () => {
+		expect(titles(await getAllPosts())).toEqual([ 'Published' ])
+	})
+
+	it('includes drafts and scheduled posts in preview mode', async () => {
+		expect(titles(await getAllPosts({ preview: true }))).toEqual([ 'Scheduled', 'Draft', 'Published' ])
+	})
+
+	it('includes unlisted posts when requested', async () => {
+		expect(titles(await getAllPosts({ includeUnlisted: true }))).toEqual([ 'Unlisted', 'Published' ])
+	})
+
+	it('fails on invalid frontmatter in strict validation mode', async () => {
+		mockPostFiles.files['@blog/2024/01/bad.md'] = module({ title: 'Bad', date: '2024-01-14', tags: 'oops' })
+		await expect(getAllPosts({ validation: 'strict' })).rejects.toThrow('@blog/2024/01/bad.md: tags must be a list of strings')
+	})
+
+	it('keeps posts with invalid frontmatter in lenient validation mode', async () => {
+		mockPostFiles.files['@blog/2024/01/bad.md'] = module({ title: 'Bad', date: '2024-01-14', tags: 'oops' })
+		expect(titles(await getAllPosts({ validation: 'lenient' }))).toEqual([ 'Bad', 'Published' ])
+	})
+
+	it('still fails in strict mode after a lenient call cached the posts', async () => {
+		mockPostFiles.files['@blog/2024/01/bad.md'] = module({ title: 'Bad', date: '2024-01-14', tags: 'oops' })
+		await getAllPosts({ validation: 'off' })
+		await getAllPosts({ validation: 'lenient' })
+		await expect(getAllPosts({ validation: 'strict' })).rejects.toThrow('tags must be a list of strings')
+	})
+
+	it('applies visibility to cached results', async () => {
+		await getAllPosts({ preview: true, includeUnlisted: true })
+		expect(titles(await getAllPosts())).toEqual([ 'Published' ])
+	})
+})
+
+describe('findPost', () => {
+	const module = (metadata: Record<string, unknown>) => () => Promise.resolve({ metadata: { readTime: 1, ...metadata } })
+
+	beforeEach(() => {
+		clearBlogCache()
+		mockPostFiles.files = {
+			'@blog/2024/01/oldest.md': module({ title: 'Oldest', date: '2024-01-05' }),
+			'@blog/2024/02/middle.md': module({ title: 'Middle', date: '2024-02-05' }),
+			'@blog/2024/02/hidden.md': module({ title: 'Hidden', date: '2024-02-10', unlisted: true }),
+			'@blog/2024/03/draft.md': module({ title: 'Draft', date: '2024-03-01', draft: true }),
+			'@blog/2024/04/newest.md': module({ title: 'Newest', date: '2024-04-05', slug: 'Newest Post' }),
+			'@blog/2023/04/newest.md': module({ title: 'Older namesake', date: '2023-04-05', slug: 'newest-post' })
+		}
+	})
+
+	afterEach(() => {
+		mockPostFiles.files = {}
+		clearBlogCache()
+	})
+
+	const title = (post: ProcessedPost | null | undefined): string | undefined => post?.metadata.fm.title
+	const neighbors = (found: Awaited<ReturnType<typeof findPost>>): (string | undefined)[] =>
+		[ found?.previousPost?.title, found?.nextPost?.title ]
+
+	it('finds a post by year, month and slug', async () => {
+		const found = await findPost('middle', { year: '2024', month: '02', includeContent: false })
+		expect(title(found?.post)).toBe('Middle')
+	})
+
+	it('matches slugs after slugifying', async () => {
+		const found = await findPost('newest-post', { year: '2024', month: '04', includeContent: false })
+		expect(title(found?.post)).toBe('Newest')
+	})
+
+	it('returns null when the year or month does not match', async () => {
+		expect(await findPost('middle', { year: '2024', month: '03', includeContent: false })).toBeNull()
+	})
+
+	it('finds the newest post by slug alone', async () => {
+		const found = await findPost('newest-post', { includeContent: false })
+		expect(title(found?.post)).toBe('Newest')
+	})
+
+	it('finds unlisted posts but skips them as neighbors', async () => {
+		expect(title((await findPost('hidden', { includeContent: false }))?.post)).toBe('Hidden')
+
+		expect(neighbors(await findPost('middle', { includeContent: false }))).toEqual([ 'Oldest', 'Newest' ])
+	})
+
+	it('finds drafts only in preview mode', async () => {
+		expect(await findPost('draft', { includeContent: false })).toBeNull()
+
+		const found = await findPost('draft', { preview: true, includeContent: false })
+		expect(title(found?.post)).toBe('Draft')
+		expect(found?.previousPost?.title).toBe('Middle')
+	})
+
+	it('has no neighbors past either end', async () => {
+		const newest = await findPost('newest-post', { year: '2024', month: '04', includeContent: false })
+		expect(newest?.nextPost).toBeNull()
+
+		const oldest = await findPost('newest-post', { year: '2023', month: '04', includeContent: false })
+		expect(oldest?.previousPost).toBeNull()
+		expect(oldest?.nextPost).toEqual({ title: 'Oldest', urlPath: '/2024/01/oldest', date: '2024-01-05' })
+	})
+
+	it('orders posts from the same day by URL', async () => {
+		mockPostFiles.files['@blog/2024/02/a.md'] = module({ title: 'Same Day A', date: '2024-02-05' })
+		mockPostFiles.files['@blog/2024/02/b.md'] = module({ title: 'Same Day B', date: '2024-02-05' })
+
+		expect(neighbors(await findPost('a', { includeContent: false }))).toEqual([ 'Oldest', 'Same Day B' ])
+		expect(neighbors(await findPost('b', { includeContent: false }))).toEqual([ 'Same Day A', 'Middle' ])
+	})
+
+	it('can stay within the primary category', async () => {
+		mockPostFiles.files['@blog/2024/04/newest.md'] = module({ title: 'Newest', date: '2024-04-05', slug: 'Newest Post', categories: [ 'News' ] })
+		mockPostFiles.files['@blog/2024/01/oldest.md'] = module({ title: 'Oldest', date: '2024-01-05', categories: [ 'News' ] })
+
+		expect(neighbors(await findPost('newest-post', { year: '2024', month: '04', includeContent: false }))).toEqual([ 'Middle', undefined ])
+		expect(neighbors(await findPost('newest-post', { year: '2024', month: '04', sameCategory: true, includeContent: false })))
+			.toEqual([ 'Oldest', undefined ])
+	})
+
+	it('skips untranslated posts in other languages', async () => {
+		mockPostFiles.files['@blog/2024/01/oldest.md'] = module({ title: 'Oldest', date: '2024-01-05', i18n: { es: { title: 'Viejo' } } })
+		mockPostFiles.files['@blog/2024/04/newest.md'] = module({ title: 'Newest', date: '2024-04-05', slug: 'Newest Post', i18n: { es: { title: 'Nuevo' } } })
+
+		const found = await findPost('newest-post', { year: '2024', month: '04', lang: 'es', includeContent: false })
+		expect(title(found?.post)).toBe('Nuevo')
+		expect(neighbors(found)).toEqual([ 'Viejo', undefined ])
+	})
+
+	it('loads post modules once for repeated lookups', async () => {
+		const resolver = vi.fn(module({ title: 'Counted', date: '2024-05-01' }))
+		mockPostFiles.files['@blog/2024/05/counted.md'] = resolver
+
+		await findPost('counted', { includeContent: false })
+		await findPost('middle', { includeContent: false })
+		expect(resolver).toHaveBeenCalledTimes(1)
+	})
+})
@@ -0,0 +1,93 @@
+/**
+ * Cache Tests
+ *
+ * The LRU cache bounds memory across languages and the content hash decides
+ * which posts get reprocessed, so both need to behave predictably.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { LruCache, hashContent } from '../utils/cache.js'
+
+vi.mock('../config/index.js', () => ({
+	blogConfig: {}
+}))
+
+describe('LruCache', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('evicts the least recently used entry over the limit', () => {
+		const cache = new LruCache<number>({ maxEntries: 2, ttl: 0 })
+		cache.set('a', 1)
+		cache.set('b', 2)
+		cache.get('a')
+		cache.set('c', 3)
+
+		expect(cache.get('a')).toBe(1)
+		expect(cache.get('b')).toBeUndefined()
+		expect(cache.get('c')).toBe(3)
+		expect(cache.size).toBe(2)
+	})
+
+	it('expires entries after the ttl', () => {
+		vi.useFakeTimers()
+		const cache = new LruCache<string>({ maxEntries: 10, ttl: 1000 })
+		cache.set('key', 'value')
+
+		vi.advanceTimersByTime(999)
+		expect(cache.get('key')).toBe('value')
+		vi.advanceTimersByTime(1)
+		expect(cache.get('key')).toBeUndefined()
+	})
+
+	it('keeps entries indefinitely when ttl is 0', () => {
+		vi.useFakeTimers()
+		const cache = new LruCache<string>({ maxEntries: 10, ttl: 0 })
+		cache.set('key', 'value')
+		vi.advanceTimersByTime(1000 * 60 * 60 * 24)
+		expect(cache.get('key')).toBe('value')
+	})
+
+	it('stores nothing when maxEntries is 0', () => {
+		const cache = new LruCache<string>({ maxEntries: 0, ttl: 0 })
+		cache.set('key', 'value')
+		expect(cache.get('key')).toBeUndefined()
+	})
+
+	it('reads limits from a function on every access', () => {
+		let maxEntries = 3
+		const cache = new LruCache<number>(() => ({ maxEntries, ttl: 0 }))
+		cache.set('a', 1)
+		cache.set('b', 2)
+		maxEntries = 1
+		cache.set('c', 3)
+		expect(cache.size).toBe(1)
+		expect(cache.get('c')).toBe(3)
+	})
+
+	it('deletes entries matching a predicate', () => {
+		const cache = new LruCache<number>({ maxEntries: 10, ttl: 0 })
+		cache.set('post-a:en', 1)
+		cache.set('post-a:es', 2)
+		cache.set('post-b:en', 3)
+
+		expect(cache.deleteWhere(key => key.startsWith('post-a'))).toBe(2)
+		expect(cache.get('post-b:en')).toBe(3)
+	})
+})
+
+describe('hashContent', () => {
+	it('is stable for the same input', () => {
+		expect(hashContent('hello world')).toBe(hashContent('hello world'))
+	})
+
+	it('changes when the content changes', () => {
+		expect(hashContent('hello world')).not.toBe(hashContent('hello world!'))
+		expect(hashContent('')).not.toBe(hashContent(' '))
+	})
+
+	it('returns a fixed-length hex string', () => {
+		expect(hashContent('anything')).toMatch(/^[0-9a-f]{14}$/)
+	})
+})
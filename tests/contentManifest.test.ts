@@ -0,0 +1,181 @@
+/**
+ * Content Manifest Tests
+ *
+ * The manifest replaces importing every post in production, so posts served
+ * from it must match posts loaded from their source, and only the requested
+ * post's body may be read.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+	buildContentManifest,
+	createManifestContentSource,
+	parseContentManifest,
+	CONTENT_MANIFEST_VERSION,
+	type ContentManifest
+} from '../utils/contentManifest.js'
+import { createMemoryContentSource, type ContentSource } from '../utils/contentSource.js'
+import { getAllPosts, clearBlogCache, loadPostContent } from '../utils/blogUtils.js'
+import { BlogError } from '../utils/errorHandler.js'
+
+const mockContent = vi.hoisted(() => ({
+	source: null as ContentSource | null,
+	validation: 'lenient' as 'strict' | 'lenient' | 'off'
+}))
+
+vi.mock('../config/index.js', () => ({
+	blogConfig: {
+		name: 'Test Blog',
+		uri: '/blog',
+		posts: {
+			contentBasePath: '@blog',
+			excerptLength: 160,
+			readTime: { wordsPerMinute: 225, defaultTime: 3 },
+			get validation(): string { return mockContent.validation }
+		}
+	},
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({}),
+	getContentSource: () => mockContent.source
+}))
+
+const longBody = `${ 'word '.repeat(450) }end`
+
+const memorySource = (): ContentSource => createMemoryContentSource({
+	posts: {
+		'@blog/2024/01/first.md': {
+			metadata: { title: 'First', date: '2024-01-15', categories: [ 'News' ], tags: [ 'svelte' ] },
+			content: longBody
+		},
+		'@blog/2024/02/second.md': {
+			metadata: { title: 'Second', date: '2024-02-10', slug: 'custom-slug', category: 'Guides', excerpt: 'Written excerpt', readTime: 7 },
+			content: 'Short body.'
+		}
+	},
+	files: { '_categories.md': '## News\nLatest news' }
+})
+
+describe('buildContentManifest', () => {
+	beforeEach(() => {
+		mockContent.validation = 'lenient'
+	})
+
+	it('precomputes url, read time, excerpt, taxonomy and hash', async () => {
+		const manifest = await buildContentManifest({ source: memorySource() })
+
+		expect(manifest.version).toBe(CONTENT_MANIFEST_VERSION)
+		expect(manifest.posts).toHaveLength(2)
+
+		const [ first, second ] = manifest.posts
+		expect(first).toMatchObject({
+			path: '@blog/2024/01/first.md',
+			urlPath: '/2024/01/first',
+			readTime: 3,
+			categories: [ 'News' ],
+			tags: [ 'svelte' ]
+		})
+		expect(first?.excerpt.endsWith('...')).toBe(true)
+		expect(first?.hash).toMatch(/^[0-9a-f]{14}$/)
+
+		expect(second).toMatchObject({
+			urlPath: '/2024/02/custom-slug',
+			readTime: 7,
+			excerpt: 'Written excerpt',
+			categories: [ 'Guides' ],
+			tags: []
+		})
+	})
+
+	it('leaves out posts that cannot be loaded', async () => {
+		const source = memorySource()
+		const broken: ContentSource = {
+			...source,
+			listPosts: () => Promise.resolve([ '@blog/2024/01/first.md', '@blog/missing.md' ])
+		}
+
+		const manifest = await buildContentManifest({ source: broken })
+		expect(manifest.posts.map(post => post.path)).toEqual([ '@blog/2024/01/first.md' ])
+	})
+
+	it('ignores mistyped frontmatter fields in lenient mode', async () => {
+		const source = createMemoryContentSource({
+			posts: {
+				'@blog/2024/01/odd.md': {
+					metadata: { title: 'Odd', date: 20240101, readTime: 'long', excerpt: [ 'x' ], categories: 'News', tags: [ 'svelte', 3 ] },
+					content: 'Body text'
+				}
+			}
+		})
+
+		const [ post ] = (await buildContentManifest({ source })).posts
+		expect(post).toMatchObject({ urlPath: null, readTime: expect.any(Number) as number, excerpt: 'Body text', categories: [], tags: [ 'svelte' ] })
+	})
+
+	it('fails in strict mode when frontmatter is invalid', async () => {
+		mockContent.validation = 'strict'
+		const source = createMemoryContentSource({
+			posts: { '@blog/2024/01/untitled.md': { metadata: { date: '2024-01-01' } } }
+		})
+
+		await expect(buildContentManifest({ source })).rejects.toThrow(BlogError)
+	})
+})
+
+describe('parseContentManifest', () => {
+	it('rejects values that are not manifests', () => {
+		expect(() => parseContentManifest(null)).toThrow(BlogError)
+		expect(() => parseContentManifest({ version: 1 })).toThrow(BlogError)
+	})
+
+	it('rejects other manifest versions', () => {
+		expect(() => parseContentManifest({ version: 99, posts: [] })).toThrow(/rebuild the manifest/)
+	})
+})
+
+describe('createManifestContentSource', () => {
+	let manifest: ContentManifest
+	let bodies: ContentSource
+
+	beforeEach(async () => {
+		clearBlogCache()
+		manifest = await buildContentManifest({ source: memorySource() })
+		bodies = memorySource()
+		mockContent.source = createManifestContentSource(manifest, { bodies })
+	})
+
+	it('serves getAllPosts without loading metadata or bodies from the source', async () => {
+		const loadMetadata = vi.spyOn(bodies, 'loadMetadata')
+		const readPostContent = vi.spyOn(bodies, 'readPostContent')
+
+		const posts = await getAllPosts()
+
+		expect(posts.map(post => post.urlPath)).toEqual([ '/2024/02/custom-slug', '/2024/01/first' ])
+		expect(posts[1]?.metadata.fm.readTime).toBe(3)
+		expect(posts[1]?.metadata.fm.excerpt?.endsWith('...')).toBe(true)
+		expect(posts[0]?.metadata.fm.excerpt).toBe('Written excerpt')
+		expect(loadMetadata).not.toHaveBeenCalled()
+		expect(readPostContent).not.toHaveBeenCalled()
+	})
+
+	it('loads a single post body on demand', async () => {
+		const readPostContent = vi.spyOn(bodies, 'readPostContent')
+		const [ , first ] = await getAllPosts()
+		if (!first) { throw new Error('expected a post') }
+
+		const withContent = await loadPostContent(first)
+
+		expect(withContent.content).toBe(longBody)
+		expect(withContent.metadata.fm.readTime).toBe(3)
+		expect(readPostContent).toHaveBeenCalledTimes(1)
+		expect(readPostContent).toHaveBeenCalledWith('@blog/2024/01/first.md')
+	})
+
+	it('reads auxiliary files from the body source', async () => {
+		expect(await mockContent.source?.readContentFile('_categories.md')).toBe('## News\nLatest news')
+	})
+
+	it('uses the manifest hash', async () => {
+		expect(await mockContent.source?.getContentHash?.('@blog/2024/01/first.md')).toBe(manifest.posts[0]?.hash)
+		expect(await mockContent.source?.getContentHash?.('@blog/unknown.md')).toBeNull()
+	})
+})
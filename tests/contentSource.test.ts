@@ -0,0 +1,307 @@
+/**
+ * Content Source Tests
+ *
+ * Posts can come from a Vite glob, a directory or memory. These tests check
+ * that each source exposes the same post paths, frontmatter and bodies, and
+ * that getAllPosts and friends go through the registered source.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+	createFilesystemContentSource,
+	createGlobContentSource,
+	createMemoryContentSource,
+	resolveContentSource,
+	type ContentSource
+} from '../utils/contentSource.js'
+import {
+	getAllPosts,
+	getMarkdownContent,
+	loadCategoryDescriptions,
+	getAllTags,
+	clearBlogCache,
+	invalidateBlogCache,
+	getBlogCacheStats,
+	getPostAuthors
+} from '../utils/blogUtils.js'
+import { blogConfig } from '../config/index.js'
+
+const mockContent = vi.hoisted(() => ({
+	source: null as ContentSource | null
+}))
+
+vi.mock('../config/index.js', () => ({
+	blogConfig: {
+		name: 'Test Blog',
+		uri: '/blog',
+		posts: {
+			contentBasePath: '@blog'
+		}
+	},
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({
+		'@blog/2024/03/from-glob.md': () => Promise.resolve({ metadata: { title: 'From Glob', date: '2024-03-01', readTime: 1 } })
+	}),
+	getContentSource: () => mockContent.source
+}))
+
+const FIXTURES_ROOT = new URL('./fixtures', import.meta.url).pathname
+const fixtureSource = (): ContentSource => createFilesystemContentSource({
+	root: FIXTURES_ROOT,
+	postsDir: 'content/Blog',
+	contentDir: 'content'
+})
+
+describe('createFilesystemContentSource', () => {
+	it('lists markdown posts recursively, skipping underscore files', async () => {
+		expect(await fixtureSource().listPosts()).toEqual([
+			'@blog/2024/01/hello-world.md',
+			'@blog/2024/02/second-post.md'
+		])
+	})
+
+	it('parses frontmatter into metadata', async () => {
+		expect(await fixtureSource().loadMetadata('@blog/2024/01/hello-world.md')).toEqual({
+			title: 'Hello World',
+			date: '2024-01-15',
+			categories: [ 'Announcements' ],
+			tags: [ 'intro', 'news' ],
+			author: { name: 'Jane Doe' }
+		})
+	})
+
+	it('reads the body without frontmatter', async () => {
+		expect((await fixtureSource().readPostContent('@blog/2024/01/hello-world.md')).trim())
+			.toBe('Welcome to the **blog**.')
+	})
+
+	it('reads content files and returns null for missing ones', async () => {
+		expect(await fixtureSource().readContentFile('_categories.md')).toContain('announcements:')
+		expect(await fixtureSource().readContentFile('_categories.fr.md')).toBeNull()
+	})
+
+	it('rejects unknown posts', async () => {
+		await expect(fixtureSource().loadMetadata('@blog/2024/01/missing.md')).rejects.toThrow('Post not found')
+	})
+})
+
+describe('createGlobContentSource', () => {
+	const source = createGlobContentSource({
+		'@blog/2024/01/hello-world.md': () => Promise.resolve({ metadata: { title: 'Compiled' } })
+	}, { root: FIXTURES_ROOT, postsDir: 'content/Blog', contentDir: 'content' })
+
+	it('lists glob keys and loads metadata from the modules', async () => {
+		expect(await source.listPosts()).toEqual([ '@blog/2024/01/hello-world.md' ])
+		expect(await source.loadMetadata('@blog/2024/01/hello-world.md')).toEqual({ title: 'Compiled' })
+	})
+
+	it('reads raw bodies from disk', async () => {
+		expect((await source.readPostContent('@blog/2024/01/hello-world.md')).trim()).toBe('Welcome to the **blog**.')
+	})
+})
+
+describe('createMemoryContentSource', () => {
+	const source = createMemoryContentSource({
+		posts: {
+			'@blog/2024/01/raw.md': '---\ntitle: Raw\ndate: 2024-01-01\n---\nRaw body',
+			'@blog/2024/01/parsed.md': { metadata: { title: 'Parsed', date: '2024-01-02' }, content: 'Parsed body' }
+		},
+		files: { '_categories.md': '---\nnews:\n  title: "News"\n---' }
+	})
+
+	it('accepts raw markdown and pre-parsed posts', async () => {
+		expect(await source.loadMetadata('@blog/2024/01/raw.md')).toEqual({ title: 'Raw', date: '2024-01-01' })
+		expect(await source.readPostContent('@blog/2024/01/raw.md')).toBe('Raw body')
+		expect(await source.readPostContent('@blog/2024/01/parsed.md')).toBe('Parsed body')
+	})
+
+	it('serves content files from memory', async () => {
+		expect(await source.readContentFile('_categories.md')).toContain('news:')
+		expect(await source.readContentFile('_categories.es.md')).toBeNull()
+	})
+})
+
+describe('registered content source', () => {
+	beforeEach(() => {
+		clearBlogCache()
+	})
+
+	afterEach(() => {
+		mockContent.source = null
+		clearBlogCache()
+	})
+
+	it('falls back to a glob source over getBlogPostFiles', async () => {
+		expect(await resolveContentSource().listPosts()).toEqual([ '@blog/2024/03/from-glob.md' ])
+		const posts = await getAllPosts()
+		expect(posts.map(post => post.metadata.fm.title)).toEqual([ 'From Glob' ])
+	})
+
+	it('loads posts, bodies and categories through the registered source', async () => {
+		mockContent.source = fixtureSource()
+
+		const posts = await getAllPosts({ includeContent: true })
+		expect(posts.map(post => post.urlPath)).toEqual([ '/2024/02/second-post', '/2024/01/hello-world' ])
+		expect(posts[1]?.content?.trim()).toBe('Welcome to the **blog**.')
+
+		expect((await getMarkdownContent('@blog/2024/02/second-post.md')).trim()).toBe('More news.')
+		expect((await loadCategoryDescriptions('es'))['announcements']?.title).toBe('Anuncios')
+		expect((await loadCategoryDescriptions('fr'))['announcements']?.title).toBe('Announcements')
+	})
+
+	it('reports posts whose frontmatter cannot be loaded', async () => {
+		mockContent.source = createMemoryContentSource({
+			posts: {
+				'@blog/2024/01/ok.md': '---\ntitle: OK\ndate: 2024-01-01\nreadTime: 1\n---\n',
+				'@blog/2024/01/broken.md': '---\ntitle: [ unclosed\ndate: 2024-01-02\n---\n'
+			}
+		})
+
+		await expect(getAllPosts({ validation: 'strict' })).rejects.toThrow('@blog/2024/01/broken.md: metadata could not be loaded')
+		expect((await getAllPosts()).map(post => post.metadata.fm.title)).toEqual([ 'OK' ])
+	})
+})
+
+describe('content caching', () => {
+	const posts: Record<string, string> = {}
+	const source = createMemoryContentSource({ posts, files: { '_categories.md': '---\nnews:\n  title: "News"\n---' } })
+	const loadMetadata = vi.spyOn(source, 'loadMetadata')
+	const readContentFile = vi.spyOn(source, 'readContentFile')
+
+	beforeEach(() => {
+		clearBlogCache()
+		posts['@blog/2024/01/a.md'] = '---\ntitle: A\ndate: 2024-01-01\nreadTime: 1\n---\n'
+		posts['@blog/2024/01/b.md'] = '---\ntitle: B\ndate: 2024-01-02\nreadTime: 1\n---\n'
+		mockContent.source = source
+		loadMetadata.mockClear()
+		readContentFile.mockClear()
+	})
+
+	afterEach(() => {
+		mockContent.source = null
+		clearBlogCache()
+	})
+
+	it('serves repeated loads from the post list cache', async () => {
+		await getAllPosts()
+		await getAllPosts()
+		expect(loadMetadata).toHaveBeenCalledTimes(2)
+		expect(getBlogCacheStats()).toEqual({ postLists: 1, postFiles: 2, categories: 0, tags: 1, authors: 1 })
+	})
+
+	it('reprocesses only changed posts after invalidation', async () => {
+		await getAllPosts()
+		posts['@blog/2024/01/b.md'] = '---\ntitle: B (edited)\ndate: 2024-01-02\nreadTime: 1\n---\n'
+		invalidateBlogCache('/home/me/site/src/content/Blog/2024/01/b.md')
+
+		const titles = (await getAllPosts()).map(post => post.metadata.fm.title)
+		expect(titles).toEqual([ 'B (edited)', 'A' ])
+		expect(loadMetadata).toHaveBeenCalledTimes(3)
+		expect(loadMetadata).toHaveBeenLastCalledWith('@blog/2024/01/b.md')
+	})
+
+	it('picks up changes once the post list cache is cleared even without invalidate', async () => {
+		await getAllPosts()
+		posts['@blog/2024/01/a.md'] = '---\ntitle: A2\ndate: 2024-01-01\nreadTime: 1\n---\n'
+		invalidateBlogCache('@blog/2024/01/unrelated.md')
+
+		expect((await getAllPosts()).map(post => post.metadata.fm.title)).toContain('A2')
+	})
+
+	it('caches category descriptions until a categories file is invalidated', async () => {
+		await loadCategoryDescriptions()
+		await loadCategoryDescriptions()
+		expect(readContentFile).toHaveBeenCalledTimes(2)
+
+		invalidateBlogCache('src/content/_categories.es.md')
+		await loadCategoryDescriptions()
+		expect(readContentFile).toHaveBeenCalledTimes(4)
+	})
+})
+
+describe('tag registry', () => {
+	const files: Record<string, string> = {
+		'_tags.md': '---\njavascript:\n  title: JavaScript\n  aliases: [js, ecmascript]\n---'
+	}
+
+	beforeEach(() => {
+		clearBlogCache()
+		mockContent.source = createMemoryContentSource({
+			posts: {
+				'@blog/2024/01/a.md': '---\ntitle: A\ndate: 2024-01-01\ntags: [JS, svelte]\nreadTime: 1\n---\n',
+				'@blog/2024/01/b.md': '---\ntitle: B\ndate: 2024-01-02\ntags: [javascript, ECMAScript]\nreadTime: 1\n---\n'
+			},
+			files
+		})
+	})
+
+	afterEach(() => {
+		mockContent.source = null
+		clearBlogCache()
+	})
+
+	it('merges aliases into canonical tags when posts are loaded', async () => {
+		const posts = await getAllPosts()
+
+		expect(posts.map(post => post.metadata.fm.tags)).toEqual([ [ 'JavaScript' ], [ 'JavaScript', 'svelte' ] ])
+		expect(getAllTags(posts)).toEqual([ 'JavaScript', 'svelte' ])
+	})
+
+	it('applies registry changes after the tags file is invalidated', async () => {
+		await getAllPosts()
+		files['_tags.md'] = '---\nsvelte:\n  title: Svelte\n---'
+		invalidateBlogCache('src/content/_tags.md')
+
+		expect((await getAllPosts()).map(post => post.metadata.fm.tags)).toEqual([ [ 'javascript', 'ECMAScript' ], [ 'JS', 'Svelte' ] ])
+	})
+
+	it('ignores a malformed tags file unless validation is strict', async () => {
+		files['_tags.md'] = '---\njavascript: JavaScript\n---'
+
+		expect((await getAllPosts()).map(post => post.metadata.fm.tags)).toEqual([ [ 'javascript', 'ECMAScript' ], [ 'JS', 'svelte' ] ])
+
+		clearBlogCache()
+		blogConfig.posts.validation = 'strict'
+		try {
+			await expect(getAllPosts()).rejects.toThrow('Invalid tag "javascript"')
+		} finally {
+			blogConfig.posts.validation = 'lenient'
+		}
+	})
+})
+
+describe('author registry', () => {
+	const files: Record<string, string> = {}
+
+	beforeEach(() => {
+		clearBlogCache()
+		files['_authors.json'] = '{ "jane": { "name": "Jane Doe", "role": "Editor" } }'
+		mockContent.source = createMemoryContentSource({
+			posts: {
+				'@blog/2024/01/a.md': '---\ntitle: A\ndate: 2024-01-01\nauthor: jane\nauthors: [Guest Writer]\nreadTime: 1\n---\n'
+			},
+			files
+		})
+	})
+
+	afterEach(() => {
+		mockContent.source = null
+		clearBlogCache()
+	})
+
+	it('resolves author ids to registry profiles when posts are loaded', async () => {
+		const [ post ] = await getAllPosts()
+
+		expect(post?.metadata.fm.author).toEqual({ id: 'jane', name: 'Jane Doe', role: 'Editor' })
+		expect(getPostAuthors(post).map(author => author.name)).toEqual([ 'Jane Doe', 'Guest Writer' ])
+	})
+
+	it('prefers _authors.md and reloads it after invalidation', async () => {
+		await getAllPosts()
+		files['_authors.md'] = '---\njane:\n  name: Jane M. Doe\n---'
+		invalidateBlogCache('src/content/_authors.md')
+
+		expect((await getAllPosts())[0]?.metadata.fm.author).toEqual({ id: 'jane', name: 'Jane M. Doe' })
+		delete files['_authors.md']
+	})
+})
@@ -0,0 +1,170 @@
+/**
+ * Content Watcher Tests
+ *
+ * Edits in dev must reach the caches that getAllPosts and
+ * loadCategoryDescriptions keep, and batch into a single reload.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { blogContentWatcher, watchBlogContent, type BlogContentDevServer } from '../utils/contentWatcher.js'
+
+const mocks = vi.hoisted(() => ({
+	invalidateBlogCache: vi.fn(),
+	watchListener: null as ((eventType: string, filename: string | null) => void) | null,
+	watchPath: '',
+	close: vi.fn()
+}))
+
+vi.mock('../utils/blogUtils.js', () => ({
+	invalidateBlogCache: mocks.invalidateBlogCache
+}))
+
+vi.mock('../utils/nodeModules.js', () => ({
+	getCwd: (): string => '/project',
+	getNodePath: (): Promise<unknown> => Promise.resolve({
+		join: (...parts: string[]): string => parts.join('/'),
+		resolve: (...parts: string[]): string => parts.join('/')
+	}),
+	getNodeFs: (): Promise<unknown> => Promise.resolve({
+		watch: (path: string, _options: unknown, listener: (eventType: string, filename: string | null) => void): unknown => {
+			mocks.watchPath = path
+			mocks.watchListener = listener
+			return { close: mocks.close, on: vi.fn() }
+		}
+	})
+}))
+
+function createServer(invalidate: (path: string) => void): {
+	server: BlogContentDevServer
+	emit: (event: 'add' | 'change' | 'unlink', file: string) => void
+	send: ReturnType<typeof vi.fn>
+	ssrLoadModule: ReturnType<typeof vi.fn>
+	added: string[]
+} {
+	const listeners: Record<string, ((file: string) => void)[]> = {}
+	const added: string[] = []
+	const send = vi.fn()
+	const ssrLoadModule = vi.fn(() => Promise.resolve({ invalidateBlogCache: invalidate }))
+
+	const server: BlogContentDevServer = {
+		config: { root: '/project' },
+		watcher: {
+			add: (paths: string | readonly string[]): void => { added.push(...(typeof paths === 'string' ? [ paths ] : paths)) },
+			on: (event: string, listener: (file: string) => void): void => {
+				(listeners[event] ??= []).push(listener)
+			}
+		},
+		ws: { send },
+		ssrLoadModule
+	}
+
+	const emit = (event: 'add' | 'change' | 'unlink', file: string): void => {
+		listeners[event]?.forEach(listener => { listener(file) })
+	}
+
+	return { server, emit, send, ssrLoadModule, added }
+}
+
+describe('blogContentWatcher', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('only applies to the dev server', () => {
+		const plugin = blogContentWatcher()
+		expect(plugin.apply).toBe('serve')
+		expect(plugin.name).toBe('goobits-blog-content-watcher')
+	})
+
+	it('watches the content directory', () => {
+		const { server, added } = createServer(vi.fn())
+		blogContentWatcher().configureServer(server)
+		expect(added).toEqual([ '/project/src/content' ])
+	})
+
+	it('invalidates changed files through the SSR module and reloads once', async () => {
+		const invalidate = vi.fn()
+		const { server, emit, send, ssrLoadModule } = createServer(invalidate)
+		blogContentWatcher().configureServer(server)
+
+		emit('change', '/project/src/content/Blog/2024/01/post.md')
+		emit('add', '/project/src/content/Blog/2024/02/new.md')
+		emit('change', '/project/src/content/_categories.md')
+		await vi.runAllTimersAsync()
+
+		expect(ssrLoadModule).toHaveBeenCalledWith('@goobits/blog/utils')
+		expect(invalidate.mock.calls.map(call => call[0] as string)).toEqual([
+			'/project/src/content/Blog/2024/01/post.md',
+			'/project/src/content/Blog/2024/02/new.md',
+			'/project/src/content/_categories.md'
+		])
+		expect(send).toHaveBeenCalledTimes(1)
+		expect(send).toHaveBeenCalledWith({ type: 'full-reload', path: '*' })
+	})
+
+	it('ignores files outside the content directory and non-markdown files', async () => {
+		const invalidate = vi.fn()
+		const { server, emit, send } = createServer(invalidate)
+		blogContentWatcher().configureServer(server)
+
+		emit('change', '/project/src/routes/+page.svelte')
+		emit('change', '/project/src/content/Blog/image.png')
+		emit('change', '/project/README.md')
+		await vi.runAllTimersAsync()
+
+		expect(invalidate).not.toHaveBeenCalled()
+		expect(send).not.toHaveBeenCalled()
+	})
+
+	it('skips the reload when disabled and honours a custom content directory', async () => {
+		const invalidate = vi.fn()
+		const { server, emit, send, added } = createServer(invalidate)
+		blogContentWatcher({ contentDir: './content/', reload: false }).configureServer(server)
+
+		emit('unlink', '/project/content/old.md')
+		await vi.runAllTimersAsync()
+
+		expect(added).toEqual([ '/project/content' ])
+		expect(invalidate).toHaveBeenCalledWith('/project/content/old.md')
+		expect(send).not.toHaveBeenCalled()
+	})
+})
+
+describe('watchBlogContent', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+		mocks.invalidateBlogCache.mockClear()
+		mocks.close.mockClear()
+		mocks.watchListener = null
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('invalidates changed markdown files and reports them in one batch', async () => {
+		const onChange = vi.fn()
+		const watcher = await watchBlogContent({ onChange })
+
+		expect(mocks.watchPath).toBe('/project/src/content')
+		mocks.watchListener?.('change', 'Blog/2024/01/post.md')
+		mocks.watchListener?.('change', 'Blog/2024/01/post.md')
+		mocks.watchListener?.('rename', '_categories.es.md')
+		mocks.watchListener?.('change', 'Blog/2024/01/cover.png')
+		mocks.watchListener?.('change', null)
+		vi.runAllTimers()
+
+		expect(mocks.invalidateBlogCache.mock.calls.map(call => call[0] as string)).toEqual([
+			'/project/src/content/Blog/2024/01/post.md',
+			'/project/src/content/_categories.es.md'
+		])
+		expect(onChange).toHaveBeenCalledTimes(1)
+
+		watcher.close()
+		expect(mocks.close).toHaveBeenCalled()
+	})
+})
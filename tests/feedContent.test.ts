@@ -0,0 +1,72 @@
+/**
+ * Feed Content Tests
+ *
+ * Full-content feeds render markdown outside the app, so these tests cover
+ * the markdown subset we support and URL rewriting for feed readers.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { markdownToHtml, absolutizeUrls, toAbsoluteUrl, wrapCdata } from '../utils/feedContent.js'
+
+describe('markdownToHtml', () => {
+	it('renders headings and paragraphs', () => {
+		expect(markdownToHtml('## Title\n\nFirst line\nsecond line')).toBe('<h2>Title</h2>\n<p>First line second line</p>')
+	})
+
+	it('renders unordered and ordered lists', () => {
+		expect(markdownToHtml('- one\n- two\n\n1. first\n2. second'))
+			.toBe('<ul><li>one</li><li>two</li></ul>\n<ol><li>first</li><li>second</li></ol>')
+	})
+
+	it('escapes fenced code without formatting it', () => {
+		expect(markdownToHtml('```js\nconst a = **b** < c\n```'))
+			.toBe('<pre><code class="language-js">const a = **b** &lt; c</code></pre>')
+	})
+
+	it('keeps inline code literal', () => {
+		expect(markdownToHtml('Use `**kwargs` here')).toBe('<p>Use <code>**kwargs</code> here</p>')
+	})
+
+	it('escapes HTML inside paragraphs', () => {
+		expect(markdownToHtml('a <b> & c')).toBe('<p>a &lt;b&gt; &amp; c</p>')
+	})
+
+	it('drops Svelte script and style blocks', () => {
+		expect(markdownToHtml('<script>\nimport X from "./x.svelte"\n</script>\n\nBody')).toBe('<p>Body</p>')
+	})
+
+	it('handles CRLF line endings', () => {
+		expect(markdownToHtml('# A\r\n\r\nB')).toBe('<h1>A</h1>\n<p>B</p>')
+	})
+
+	it('returns an empty string for empty input', () => {
+		expect(markdownToHtml('')).toBe('')
+	})
+})
+
+describe('toAbsoluteUrl', () => {
+	it('resolves root-relative and relative paths', () => {
+		expect(toAbsoluteUrl('/img.png', 'https://example.com/')).toBe('https://example.com/img.png')
+		expect(toAbsoluteUrl('img.png', 'https://example.com/')).toBe('https://example.com/img.png')
+	})
+
+	it('leaves absolute URLs, anchors and other schemes untouched', () => {
+		expect(toAbsoluteUrl('https://cdn.example.com/a.png', 'https://example.com/')).toBe('https://cdn.example.com/a.png')
+		expect(toAbsoluteUrl('#section', 'https://example.com/')).toBe('#section')
+		expect(toAbsoluteUrl('mailto:a@b.c', 'https://example.com/')).toBe('mailto:a@b.c')
+		expect(toAbsoluteUrl('data:image/png;base64,AA', 'https://example.com/')).toBe('data:image/png;base64,AA')
+	})
+})
+
+describe('absolutizeUrls', () => {
+	it('rewrites src and href attributes', () => {
+		expect(absolutizeUrls('<a href="/a">x</a><img src=\'b.png\'>', 'https://example.com/'))
+			.toBe('<a href="https://example.com/a">x</a><img src=\'https://example.com/b.png\'>')
+	})
+})
+
+describe('wrapCdata', () => {
+	it('splits CDATA terminators in the content', () => {
+		expect(wrapCdata('a]]>b')).toBe('<![CDATA[a]]]]><![CDATA[>b]]>')
+	})
+})
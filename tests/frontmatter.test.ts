@@ -0,0 +1,109 @@
+/**
+ * Frontmatter Parser Tests
+ *
+ * Filesystem and in-memory sources parse frontmatter without a bundler, so
+ * these tests cover the YAML subset posts rely on and malformed input.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseYaml, parseFrontmatter, stripFrontmatter } from '../utils/frontmatter.js'
+import { BlogError } from '../utils/errorHandler.js'
+
+describe('parseYaml', () => {
+	it('parses scalars without coercing dates', () => {
+		expect(parseYaml('title: Hello\ndate: 2024-01-15\ncount: 3\nratio: 1.5\nfeatured: true\nempty: ~')).toEqual({
+			title: 'Hello',
+			date: '2024-01-15',
+			count: 3,
+			ratio: 1.5,
+			featured: true,
+			empty: null
+		})
+	})
+
+	it('parses quoted strings containing colons and hashes', () => {
+		expect(parseYaml('a: "Part 1: the # start"\nb: \'it\'\'s\' # comment')).toEqual({
+			a: 'Part 1: the # start',
+			b: 'it\'s'
+		})
+	})
+
+	it('keeps escaped quotes from ending a quoted string', () => {
+		expect(parseYaml('a: \'It\'\'s # here\'\nb: "say \\"hi\\" # x" # comment')).toEqual({
+			a: 'It\'s # here',
+			b: 'say "hi" # x'
+		})
+		expect(parseYaml('tags: [ \'it\'\'s, ok\', "a \\"b, c\\"" ]')).toEqual({ tags: [ 'it\'s, ok', 'a "b, c"' ] })
+		expect(parseYaml('"key \\": x": 1')).toEqual({ 'key ": x': 1 })
+	})
+
+	it('parses block and flow lists', () => {
+		expect(parseYaml('tags:\n  - one\n  - two\ncategories: [ A, "B, C" ]\nkeywords:\n- x')).toEqual({
+			tags: [ 'one', 'two' ],
+			categories: [ 'A', 'B, C' ],
+			keywords: [ 'x' ]
+		})
+	})
+
+	it('parses nested mappings and lists of mappings', () => {
+		expect(parseYaml('author:\n  name: Jane\n  url: https://example.com\nlinks:\n  - label: Home\n    href: /\n  - label: Blog\n    href: /blog')).toEqual({
+			author: { name: 'Jane', url: 'https://example.com' },
+			links: [ { label: 'Home', href: '/' }, { label: 'Blog', href: '/blog' } ]
+		})
+	})
+
+	it('parses flow mappings', () => {
+		expect(parseYaml('image: { src: /a.jpg, alt: "A" }')).toEqual({ image: { src: '/a.jpg', alt: 'A' } })
+	})
+
+	it('parses literal and folded block scalars', () => {
+		expect(parseYaml('literal: |\n  line one\n  line two\nfolded: >-\n  folded\n  text\n\n  next')).toEqual({
+			literal: 'line one\nline two\n',
+			folded: 'folded text\nnext'
+		})
+	})
+
+	it('joins multi-line plain scalars', () => {
+		expect(parseYaml('excerpt: a long\n  description')).toEqual({ excerpt: 'a long description' })
+	})
+
+	it('handles CRLF line endings', () => {
+		expect(parseYaml('title: Hello\r\ntags:\r\n  - a\r\n')).toEqual({ title: 'Hello', tags: [ 'a' ] })
+	})
+
+	it('ignores prototype keys', () => {
+		const result = parseYaml('__proto__:\n  polluted: true\nsafe: 1') as Record<string, unknown>
+		expect(result).toEqual({ safe: 1 })
+		expect(({} as Record<string, unknown>)['polluted']).toBeUndefined()
+	})
+
+	it('throws a BlogError with the line number for malformed YAML', () => {
+		expect(() => parseYaml('title: ok\n  bad: indent')).toThrow(BlogError)
+		expect(() => parseYaml('title: ok\nnot a pair')).toThrow('line 2')
+		expect(() => parseYaml('title: "unterminated')).toThrow('unterminated')
+		expect(() => parseYaml('a: 1\na: 2')).toThrow('duplicate key')
+	})
+})
+
+describe('parseFrontmatter', () => {
+	it('splits frontmatter from the body', () => {
+		expect(parseFrontmatter('---\ntitle: Hello\n---\n\nBody text')).toEqual({
+			data: { title: 'Hello' },
+			content: '\nBody text'
+		})
+	})
+
+	it('returns the whole file as content when there is no frontmatter', () => {
+		expect(parseFrontmatter('Just text')).toEqual({ data: {}, content: 'Just text' })
+	})
+
+	it('rejects frontmatter that is not a mapping', () => {
+		expect(() => parseFrontmatter('---\n- a\n---\n')).toThrow('mapping')
+	})
+})
+
+describe('stripFrontmatter', () => {
+	it('keeps horizontal rules in the body', () => {
+		expect(stripFrontmatter('---\ntitle: x\n---\nOne\n\n---\n\nTwo')).toBe('One\n\n---\n\nTwo')
+	})
+})
@@ -0,0 +1,120 @@
+/**
+ * Frontmatter Validation Tests
+ *
+ * Broken frontmatter used to slip through silently, so these tests check that
+ * each kind of problem is reported with its file, field and reason.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+	validatePostMetadata,
+	formatMetadataDiagnostic,
+	reportMetadataDiagnostics
+} from '../utils/frontmatterValidation.js'
+import { BlogError } from '../utils/errorHandler.js'
+
+const FILE = '@blog/2024/01/post.md'
+
+function fields(metadata: unknown): string[] {
+	return validatePostMetadata(metadata, FILE).map(diagnostic => diagnostic.field)
+}
+
+describe('validatePostMetadata', () => {
+	it('accepts complete, well-formed frontmatter', () => {
+		expect(validatePostMetadata({
+			title: 'Hello',
+			date: '2024-01-15',
+			categories: [ 'News' ],
+			tags: [ 'intro' ],
+			author: { name: 'Jane', url: 'https://example.com' },
+			image: { src: '/cover.jpg', alt: 'Cover', width: 1200, height: 630 },
+			draft: false
+		}, FILE)).toEqual([])
+	})
+
+	it('requires title and date', () => {
+		expect(fields({})).toEqual([ 'title', 'date' ])
+	})
+
+	it('reports the file, field and reason', () => {
+		expect(validatePostMetadata({ title: 'Hello', date: '2024-01-15', tags: 'intro' }, FILE)).toEqual([
+			{ filePath: FILE, field: 'tags', message: 'must be a list of strings (got string)' }
+		])
+	})
+
+	it('rejects unparseable dates', () => {
+		expect(fields({ title: 'Hello', date: 'yesterday', updated: '2024-13-45' })).toEqual([ 'date', 'updated' ])
+	})
+
+	it('accepts Date objects produced by YAML parsers', () => {
+		expect(fields({ title: 'Hello', date: new Date('2024-01-15') })).toEqual([])
+	})
+
+	it('validates nested author and image fields', () => {
+		expect(fields({
+			title: 'Hello',
+			date: '2024-01-15',
+			author: { url: 'https://example.com' },
+			image: { src: '/cover.jpg' },
+			thumbnail: { src: '/thumb.jpg', alt: '', width: -1 }
+		})).toEqual([ 'author.name', 'image.alt', 'thumbnail.width' ])
+	})
+
+	it('accepts author ids and co-author lists', () => {
+		expect(fields({ title: 'Hello', date: '2024-01-15', author: 'jane', authors: [ 'sam', { name: 'Guest' } ] })).toEqual([])
+		expect(fields({ title: 'Hello', date: '2024-01-15', author: '', authors: [ 42 ] })).toEqual([ 'author', 'authors[0]' ])
+		expect(fields({ title: 'Hello', date: '2024-01-15', authors: 'sam' })).toEqual([ 'authors' ])
+	})
+
+	it('flags empty list items and slugs with slashes', () => {
+		expect(fields({ title: 'Hello', date: '2024-01-15', categories: [ 'News', '' ], slug: 'a/b' }))
+			.toEqual([ 'slug', 'categories' ])
+	})
+
+	it('validates series names and positions', () => {
+		expect(fields({ title: 'Hello', date: '2024-01-15', series: 'Guides', seriesOrder: 2 })).toEqual([])
+		expect(fields({ title: 'Hello', date: '2024-01-15', series: ' ', seriesOrder: 0 })).toEqual([ 'series', 'seriesOrder' ])
+	})
+
+	it('validates translations without requiring title or date', () => {
+		expect(fields({
+			title: 'Hello',
+			date: '2024-01-15',
+			i18n: { es: { title: 'Hola', tags: 'uno' }, fr: 'Bonjour' }
+		})).toEqual([ 'i18n.es.tags', 'i18n.fr' ])
+	})
+
+	it('reports non-object metadata', () => {
+		expect(fields(undefined)).toEqual([ 'metadata' ])
+	})
+})
+
+describe('reportMetadataDiagnostics', () => {
+	const diagnostics = validatePostMetadata({ title: 'Hello', date: '2024-01-15', tags: 'intro' }, FILE)
+
+	it('formats diagnostics as readable lines', () => {
+		expect(formatMetadataDiagnostic(diagnostics[0] ?? { filePath: '', field: '', message: '' }))
+			.toBe(`${ FILE }: tags must be a list of strings (got string)`)
+	})
+
+	it('throws an INVALID_METADATA BlogError in strict mode', () => {
+		try {
+			reportMetadataDiagnostics(diagnostics, 'strict')
+			expect.unreachable()
+		} catch (error) {
+			expect(error).toBeInstanceOf(BlogError)
+			expect((error as BlogError).type).toBe('INVALID_METADATA')
+			expect((error as BlogError).message).toContain(`${ FILE }: tags`)
+			expect((error as BlogError).details['diagnostics']).toEqual(diagnostics)
+		}
+	})
+
+	it('does not throw in lenient or off mode', () => {
+		expect(() => { reportMetadataDiagnostics(diagnostics, 'lenient') }).not.toThrow()
+		expect(() => { reportMetadataDiagnostics(diagnostics, 'off') }).not.toThrow()
+	})
+
+	it('does not throw in strict mode without problems', () => {
+		expect(() => { reportMetadataDiagnostics([], 'strict') }).not.toThrow()
+	})
+})
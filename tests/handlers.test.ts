@@ -7,16 +7,27 @@
  */
 
 import { describe, it, expect, vi } from 'vitest'
+import type { ProcessedPost } from '../utils/blogUtils.js'
 import {
 	createBlogIndexHandler,
 	createBlogSlugHandler,
 	createRSSFeedHandler,
+	createAtomFeedHandler,
+	createJsonFeedHandler,
+	createBlogPostsApiHandler,
+	createSitemapHandler,
+	createSearchHandler,
+	createSearchIndexHandler,
+	createOgImageHandler,
+	type BlogPostsApiResponse,
+	type BlogSearchApiResponse,
 	type ServerLoadEvent,
 	type Locals
 } from '../handlers/index.js'
 
 // Mock dependencies
-vi.mock('../utils/index.js', () => ({
+vi.mock('../utils/index.js', async (importOriginal) => ({
+	...await importOriginal<Record<string, unknown>>(),
 	getAllPosts: vi.fn().mockResolvedValue([
 		{
 			metadata: { fm: { title: 'Test Post', date: '2024-01-15' } },
@@ -24,7 +35,19 @@ vi.mock('../utils/index.js', () => ({
 			urlPath: '/2024/01/test-post'
 		}
 	]),
-	generateRssFeed: vi.fn().mockReturnValue('<?xml version="1.0"?><rss></rss>')
+	findPost: vi.fn().mockImplementation((slug: string, { year, month }: { year?: string, month?: string }) => Promise.resolve(
+		slug === 'test-post' && year === '2024' && month === '01'
+			? {
+				post: { metadata: { fm: { title: 'Test Post', date: '2024-01-15', unlisted: true } }, date: '2024-01-15', urlPath: '/2024/01/test-post' },
+				previousPost: null,
+				nextPost: null
+			}
+			: null
+	)),
+	generateRssFeed: vi.fn().mockReturnValue('<?xml version="1.0"?><rss></rss>'),
+	getSearchIndex: vi.fn(),
+	loadCategoryDescriptions: vi.fn().mockResolvedValue({}),
+	loadTagRegistry: vi.fn().mockResolvedValue({})
 }))
 
 vi.mock('../handlers/routeUtils.js', () => ({
@@ -82,10 +105,48 @@ vi.mock('../handlers/routeUtils.js', () => ({
 				date: `${year}-${month}-15`,
 				urlPath: `/${year}/${month}/${slug}`
 			},
+			relatedPosts: [],
+			lang: 'en'
+		})
+	}),
+	loadArchive: vi.fn().mockImplementation((year: string, month: string | null) => {
+		if (year === '1999') {
+			const error = new Error('No posts in 1999') as Error & { status: number }
+			error.status = 404
+			throw error
+		}
+		return Promise.resolve({
+			pageType: 'archive',
+			posts: [],
 			allPosts: [],
+			year,
+			month,
+			archive: [],
+			totalPosts: 0,
+			hasMorePosts: false,
 			lang: 'en'
 		})
 	}),
+	loadSeries: vi.fn().mockImplementation((slug: string) => Promise.resolve({
+		pageType: 'series',
+		posts: [],
+		allPosts: [],
+		series: slug,
+		seriesSlug: slug,
+		totalPosts: 0,
+		hasMorePosts: false,
+		lang: 'en'
+	})),
+	loadAuthor: vi.fn().mockImplementation((id: string) => Promise.resolve({
+		pageType: 'author',
+		posts: [],
+		allPosts: [],
+		author: { id, name: id },
+		authorId: id,
+		totalPosts: 0,
+		hasMorePosts: false,
+		lang: 'en'
+	})),
 	generateBlogEntries: vi.fn().mockResolvedValue([
 		{ slug: '2024/01/test-post' },
 		{ slug: 'category/javascript' },
@@ -97,7 +158,21 @@ vi.mock('../config/index.js', () => ({
 	blogConfig: {
 		name: 'Test Blog',
 		description: 'A test blog',
-		uri: '/blog'
+		uri: '/blog',
+		pagination: {
+			postsPerBatch: 2
+		},
+		i18n: {
+			defaultLanguage: 'en',
+			supportedLanguages: [ 'en', 'es', 'fr' ]
+		},
+		pageContent: {
+			emptyStateEmoji: '📝'
+		},
+		theme: {
+			colors: { primary: '#f59e0b', accent: '#3b82f6', background: '#ffffff', text: '#1f2937', muted: '#6b7280' },
+			fontFamily: 'sans-serif'
+		}
 	}
 }))
 
@@ -174,6 +249,15 @@ describe('createBlogSlugHandler', () => {
 			expect(loadCategory).toHaveBeenCalledWith('javascript', 'en', null)
 		})
 
+		it('passes nested category paths to category handler', async () => {
+			const { loadCategory } = await import('../handlers/routeUtils.js')
+			const handler = createBlogSlugHandler()
+
+			await handler.load(createEvent('category/engineering/frontend'))
+
+			expect(loadCategory).toHaveBeenCalledWith('engineering/frontend', 'en', null)
+		})
+
 		it('routes tag/ prefix to tag handler', async () => {
 			const { loadTag } = await import('../handlers/routeUtils.js')
 			const handler = createBlogSlugHandler()
@@ -183,6 +267,24 @@ describe('createBlogSlugHandler', () => {
 			expect(loadTag).toHaveBeenCalledWith('react', 'en', null)
 		})
 
+		it('routes series/ prefix to series handler', async () => {
+			const { loadSeries } = await import('../handlers/routeUtils.js')
+			const handler = createBlogSlugHandler()
+
+			await handler.load(createEvent('series/building-a-blog/'))
+
+			expect(loadSeries).toHaveBeenCalledWith('building-a-blog', 'en', null)
+		})
+
+		it('routes author/ prefix to author handler', async () => {
+			const { loadAuthor } = await import('../handlers/routeUtils.js')
+			const handler = createBlogSlugHandler()
+
+			await handler.load(createEvent('author/jane-doe/'))
+
+			expect(loadAuthor).toHaveBeenCalledWith('jane-doe', 'en', null)
+		})
+
 		it('routes YYYY/MM/slug pattern to post handler', async () => {
 			const { loadPost } = await import('../handlers/routeUtils.js')
 			const handler = createBlogSlugHandler()
@@ -191,6 +293,17 @@ describe('createBlogSlugHandler', () => {
 
 			expect(loadPost).toHaveBeenCalledWith('2024', '03', 'my-post', 'en', null)
 		})
+
+		it('routes YYYY and YYYY/MM patterns to archive handler', async () => {
+			const { loadArchive } = await import('../handlers/routeUtils.js')
+			const handler = createBlogSlugHandler()
+
+			await handler.load(createEvent('2024'))
+			expect(loadArchive).toHaveBeenLastCalledWith('2024', null, 'en', null)
+
+			await handler.load(createEvent('2024/03/'))
+			expect(loadArchive).toHaveBeenLastCalledWith('2024', '03', 'en', null)
+		})
 	})
 
 	describe('Trailing Slash Handling', () => {
@@ -287,15 +400,23 @@ describe('createBlogSlugHandler', () => {
 			})
 		})
 
-		it('throws 404 for partial date patterns', async () => {
+		it('throws 404 for archives without posts', async () => {
 			const handler = createBlogSlugHandler()
 
-			// Only year/month, missing slug
-			await expect(handler.load(createEvent('2024/03'))).rejects.toMatchObject({
+			await expect(handler.load(createEvent('1999'))).rejects.toMatchObject({
 				status: 404
 			})
 		})
 
+		it('throws 404 for malformed archive dates', async () => {
+			const handler = createBlogSlugHandler()
+
+			await expect(handler.load(createEvent('2024/3'))).rejects.toMatchObject({
+				status: 404,
+				message: 'Blog page not found'
+			})
+		})
+
 		it('throws 404 for invalid year format', async () => {
 			const handler = createBlogSlugHandler()
 
@@ -408,6 +529,105 @@ describe('createRSSFeedHandler', () => {
 		expect(body).toContain('Failed to generate RSS feed')
 	})
 
+	describe('Filtered Feeds', () => {
+		async function mockTaxonomyPosts(): Promise<void> {
+			const { getAllPosts } = await import('../utils/index.js')
+			vi.mocked(getAllPosts).mockResolvedValueOnce([
+				{ metadata: { fm: { title: 'A', date: '2024-01-15', categories: ['Web Dev'], tags: ['svelte'] } }, date: '2024-01-15', urlPath: '/2024/01/a' },
+				{
+					metadata: { fm: { title: 'B', date: '2024-01-10', categories: ['Python'], author: { id: 'jane-doe', name: 'Jane Doe' } } },
+					date: '2024-01-10',
+					urlPath: '/2024/01/b'
+				}
+			])
+		}
+
+		it('filters by the category route param and sets title, link and self path', async () => {
+			const { generateRssFeed } = await import('../utils/index.js')
+			await mockTaxonomyPosts()
+
+			await createRSSFeedHandler()({
+				url: new URL('https://example.com/blog/category/web-dev/rss.xml'),
+				params: { category: 'web-dev' }
+			})
+
+			const [ posts, feedOptions ] = vi.mocked(generateRssFeed).mock.lastCall ?? []
+			expect(posts?.map(post => post.urlPath)).toEqual(['/2024/01/a'])
+			expect(feedOptions).toMatchObject({
+				feedTitle: 'Web Dev - Test Blog',
+				homePath: '/blog/category/web-dev',
+				feedPath: '/blog/category/web-dev/rss.xml'
+			})
+		})
+
+		it('links category feeds to the full path of nested categories', async () => {
+			const { generateRssFeed, loadCategoryDescriptions } = await import('../utils/index.js')
+			await mockTaxonomyPosts()
+			vi.mocked(loadCategoryDescriptions).mockResolvedValue({ 'web-dev': { parent: 'engineering' } })
+
+			try {
+				await createRSSFeedHandler({ category: 'web-dev' })({ url: new URL('https://example.com/blog/category/engineering/web-dev/rss.xml') })
+			} finally {
+				vi.mocked(loadCategoryDescriptions).mockResolvedValue({})
+			}
+
+			const [ posts, feedOptions ] = vi.mocked(generateRssFeed).mock.lastCall ?? []
+			expect(posts?.map(post => post.urlPath)).toEqual(['/2024/01/a'])
+			expect(feedOptions).toMatchObject({ homePath: '/blog/category/engineering/web-dev' })
+		})
+
+		it('filters by tag from options', async () => {
+			const { generateRssFeed } = await import('../utils/index.js')
+			await mockTaxonomyPosts()
+
+			await createRSSFeedHandler({ tag: 'svelte' })({ url: new URL('https://example.com/blog/tag/svelte/rss.xml') })
+
+			const [ posts, feedOptions ] = vi.mocked(generateRssFeed).mock.lastCall ?? []
+			expect(posts).toHaveLength(1)
+			expect(feedOptions).toMatchObject({ feedTitle: 'svelte - Test Blog', homePath: '/blog/tag/svelte' })
+		})
+
+		it('filters by the author route param', async () => {
+			const { generateRssFeed } = await import('../utils/index.js')
+			await mockTaxonomyPosts()
+
+			await createRSSFeedHandler()({
+				url: new URL('https://example.com/blog/author/jane-doe/rss.xml'),
+				params: { author: 'jane-doe' }
+			})
+
+			const [ posts, feedOptions ] = vi.mocked(generateRssFeed).mock.lastCall ?? []
+			expect(posts?.map(post => post.urlPath)).toEqual(['/2024/01/b'])
+			expect(feedOptions).toMatchObject({ feedTitle: 'Jane Doe - Test Blog', homePath: '/blog/author/jane-doe' })
+		})
+
+		it('loads posts and sets the feed language for the lang param', async () => {
+			const { getAllPosts, generateRssFeed } = await import('../utils/index.js')
+
+			await createRSSFeedHandler()({ url: new URL('https://example.com/blog/es/rss.xml'), params: { lang: 'es' } })
+
+			expect(getAllPosts).toHaveBeenLastCalledWith({ lang: 'es' })
+			expect(generateRssFeed).toHaveBeenLastCalledWith(
+				expect.anything(),
+				expect.objectContaining({ language: 'es', feedPath: '/blog/es/rss.xml' })
+			)
+		})
+
+		it('returns 404 for a category without posts', async () => {
+			await mockTaxonomyPosts()
+
+			const response = await createRSSFeedHandler({ category: 'missing' })({ url: new URL('https://example.com/feed.xml') })
+
+			expect(response.status).toBe(404)
+		})
+
+		it('returns 400 for an invalid language', async () => {
+			const response = await createRSSFeedHandler()({ url: new URL('https://example.com/feed.xml'), params: { lang: '<x>' } })
+
+			expect(response.status).toBe(400)
+		})
+	})
+
 	it('passes origin from request URL to feed generator', async () => {
 		const { generateRssFeed } = await import('../utils/index.js')
 		const handler = createRSSFeedHandler()
@@ -420,3 +640,349 @@ describe('createRSSFeedHandler', () => {
 		)
 	})
 })
+
+describe('createAtomFeedHandler', () => {
+	it('returns an Atom document with the Atom content type', async () => {
+		const handler = createAtomFeedHandler()
+		const response = await handler({ url: new URL('https://example.com/blog/atom.xml') })
+
+		expect(response.headers.get('Content-Type')).toBe('application/atom+xml')
+		const body = await response.text()
+		expect(body).toContain('<feed xmlns="http://www.w3.org/2005/Atom"')
+		expect(body).toContain('href="https://example.com/blog/atom.xml" rel="self"')
+	})
+
+	it('returns fallback error response when no custom handler', async () => {
+		const { getAllPosts } = await import('../utils/index.js')
+		vi.mocked(getAllPosts).mockRejectedValueOnce(new Error('Database error'))
+
+		const response = await createAtomFeedHandler()({ url: new URL('https://example.com/blog/atom.xml') })
+
+		expect(response.status).toBe(500)
+		expect(await response.text()).toContain('Failed to generate Atom feed')
+	})
+})
+
+describe('createJsonFeedHandler', () => {
+	it('returns a JSON Feed with the feed+json content type', async () => {
+		const handler = createJsonFeedHandler({ feedPath: '/custom/feed.json' })
+		const response = await handler({ url: new URL('https://example.com/custom/feed.json') })
+
+		expect(response.headers.get('Content-Type')).toBe('application/feed+json')
+		const body = await response.json() as { feed_url: string }
+		expect(body.feed_url).toBe('https://example.com/custom/feed.json')
+	})
+
+	it('returns a JSON error response on failure', async () => {
+		const { getAllPosts } = await import('../utils/index.js')
+		vi.mocked(getAllPosts).mockRejectedValueOnce(new Error('Database error'))
+
+		const response = await createJsonFeedHandler()({ url: new URL('https://example.com/blog/feed.json') })
+
+		expect(response.status).toBe(500)
+		expect(await response.json()).toMatchObject({ success: false, error: { type: 'RSS_GENERATION' } })
+	})
+})
+
+describe('createSitemapHandler', () => {
+	it('returns sitemap XML for all posts', async () => {
+		const response = await createSitemapHandler()({ url: new URL('https://example.com/blog/sitemap.xml') })
+
+		expect(response.headers.get('Content-Type')).toBe('application/xml')
+		expect(await response.text()).toContain('<loc>https://example.com/blog/2024/01/test-post</loc>')
+	})
+
+	it('returns 404 for a sitemap page out of range', async () => {
+		const response = await createSitemapHandler()({ url: new URL('https://example.com/blog/sitemap.xml?page=9') })
+
+		expect(response.status).toBe(404)
+	})
+
+	it('returns 400 for an invalid page param', async () => {
+		const response = await createSitemapHandler()({ url: new URL('https://example.com/blog/sitemap.xml?page=x') })
+
+		expect(response.status).toBe(400)
+	})
+})
+
+describe('createBlogPostsApiHandler', () => {
+	function createApiPost(slug: string, categories: string[] = [], tags: string[] = []): ProcessedPost {
+		return {
+			metadata: { fm: { title: slug, date: '2024-01-15', categories, tags, i18n: { es: { title: slug } } } },
+			date: '2024-01-15',
+			urlPath: `/2024/01/${slug}`,
+			content: 'Full post body'
+		}
+	}
+
+	async function mockPosts(): Promise<void> {
+		const { getAllPosts } = await import('../utils/index.js')
+		vi.mocked(getAllPosts).mockResolvedValueOnce([
+			createApiPost('one', ['JavaScript'], ['react']),
+			createApiPost('two', ['JavaScript']),
+			createApiPost('three', ['Python'], ['react']),
+			createApiPost('four', ['JavaScript'])
+		])
+	}
+
+	async function request(query: string): Promise<{ status: number, body: BlogPostsApiResponse }> {
+		const handler = createBlogPostsApiHandler()
+		const response = await handler({ url: new URL(`https://example.com/api/blog/posts${query}`) })
+		return { status: response.status, body: await response.json() as BlogPostsApiResponse }
+	}
+
+	it('returns the requested page with pagination metadata', async () => {
+		await mockPosts()
+		const { status, body } = await request('?page=2&limit=3')
+
+		expect(status).toBe(200)
+		expect(body.posts.map(post => post.urlPath)).toEqual(['/2024/01/four'])
+		expect(body.pagination).toEqual({
+			page: 2,
+			limit: 3,
+			total: 4,
+			pageCount: 2,
+			hasNextPage: false,
+			hasPreviousPage: true
+		})
+	})
+
+	it('defaults the page size to postsPerBatch', async () => {
+		await mockPosts()
+		const { body } = await request('')
+
+		expect(body.posts).toHaveLength(2)
+		expect(body.pagination.hasNextPage).toBe(true)
+	})
+
+	it('caps the default page size at maxLimit', async () => {
+		await mockPosts()
+		const response = await createBlogPostsApiHandler({ defaultLimit: 60 })({ url: new URL('https://example.com/api/blog/posts') })
+
+		expect(response.status).toBe(200)
+	})
+
+	it('filters by category name or slug', async () => {
+		await mockPosts()
+		const { body } = await request('?category=JavaScript')
+
+		expect(body.pagination.total).toBe(3)
+	})
+
+	it('filters by tag', async () => {
+		await mockPosts()
+		const { body } = await request('?tag=react&limit=10')
+
+		expect(body.posts.map(post => post.urlPath)).toEqual(['/2024/01/one', '/2024/01/three'])
+	})
+
+	it('passes the language to getAllPosts', async () => {
+		const { getAllPosts } = await import('../utils/index.js')
+		await mockPosts()
+		await request('?lang=es')
+
+		expect(getAllPosts).toHaveBeenLastCalledWith({ lang: 'es' })
+	})
+
+	it('strips content and i18n data from posts', async () => {
+		await mockPosts()
+		const { body } = await request('?limit=1')
+
+		expect(body.posts[0]).not.toHaveProperty('content')
+		expect(body.posts[0]?.metadata.fm).not.toHaveProperty('i18n')
+	})
+
+	it('rejects invalid query params with 400', async () => {
+		expect((await request('?page=0')).status).toBe(400)
+		expect((await request('?page=abc')).status).toBe(400)
+		expect((await request('?limit=1000')).status).toBe(400)
+		expect((await request('?lang=../../etc')).status).toBe(400)
+	})
+
+	it('returns a JSON error response when loading fails', async () => {
+		const { getAllPosts } = await import('../utils/index.js')
+		vi.mocked(getAllPosts).mockRejectedValueOnce(new Error('Database error'))
+
+		const { status, body } = await request('')
+
+		expect(status).toBe(500)
+		expect(body).toMatchObject({ success: false, error: { type: 'SERVER' } })
+	})
+})
+
+describe('createSearchHandler', () => {
+	async function mockIndex(): Promise<void> {
+		const { getSearchIndex, buildSearchIndex } = await import('../utils/index.js')
+		const post = (slug: string, title: string, categories: string[]): ProcessedPost => ({
+			metadata: { fm: { title, date: '2024-01-15', categories } },
+			date: '2024-01-15',
+			urlPath: `/2024/01/${ slug }`,
+			content: `Body of ${ title }`
+		})
+		vi.mocked(getSearchIndex).mockResolvedValueOnce(buildSearchIndex([
+			post('svelte-stores', 'Svelte stores', [ 'Frontend' ]),
+			post('svelte-actions', 'Svelte actions', [ 'Frontend' ]),
+			post('svelte-server', 'Svelte on the server', [ 'Backend' ])
+		]))
+	}
+
+	async function request(query: string): Promise<{ status: number, body: BlogSearchApiResponse }> {
+		const handler = createSearchHandler()
+		const response = await handler({ url: new URL(`https://example.com/api/blog/search${ query }`) })
+		return { status: response.status, body: await response.json() as BlogSearchApiResponse }
+	}
+
+	it('returns ranked results with snippets and pagination', async () => {
+		await mockIndex()
+		const { status, body } = await request('?q=svelte&limit=2')
+
+		expect(status).toBe(200)
+		expect(body.query).toBe('svelte')
+		expect(body.results).toHaveLength(2)
+		expect(body.results[0]?.snippet).toContain('<mark>Svelte</mark>')
+		expect(body.pagination).toMatchObject({ total: 3, pageCount: 2, hasNextPage: true })
+	})
+
+	it('filters by category', async () => {
+		await mockIndex()
+		const { body } = await request('?q=svelte&category=backend')
+
+		expect(body.results.map(result => result.post.urlPath)).toEqual([ '/2024/01/svelte-server' ])
+	})
+
+	it('builds the index for the requested language', async () => {
+		const { getSearchIndex } = await import('../utils/index.js')
+		await mockIndex()
+		await request('?q=svelte&lang=es')
+
+		expect(getSearchIndex).toHaveBeenLastCalledWith('es')
+	})
+
+	it('returns no results for an empty query without building the index', async () => {
+		const { getSearchIndex } = await import('../utils/index.js')
+		vi.mocked(getSearchIndex).mockClear()
+		const { status, body } = await request('?q=%20')
+
+		expect(status).toBe(200)
+		expect(body.results).toEqual([])
+		expect(getSearchIndex).not.toHaveBeenCalled()
+	})
+
+	it('rejects invalid query params with 400', async () => {
+		expect((await request(`?q=${ 'a'.repeat(201) }`)).status).toBe(400)
+		expect((await request('?q=svelte&limit=1000')).status).toBe(400)
+		expect((await request('?q=svelte&lang=../x')).status).toBe(400)
+	})
+
+	it('rejects unsupported languages before building an index', async () => {
+		const { getSearchIndex } = await import('../utils/index.js')
+		vi.mocked(getSearchIndex).mockClear()
+
+		expect((await request('?q=svelte&lang=de')).status).toBe(400)
+		expect((await createSearchIndexHandler()({ url: new URL('https://example.com/blog/search-index.json?lang=de') })).status).toBe(400)
+		expect(getSearchIndex).not.toHaveBeenCalled()
+	})
+
+	it('returns a JSON error response when the index fails to load', async () => {
+		const { getSearchIndex } = await import('../utils/index.js')
+		vi.mocked(getSearchIndex).mockRejectedValueOnce(new Error('Database error'))
+
+		const { status, body } = await request('?q=svelte')
+
+		expect(status).toBe(500)
+		expect(body).toMatchObject({ success: false, error: { type: 'SERVER' } })
+	})
+})
+
+describe('createSearchIndexHandler', () => {
+	async function mockIndex(): Promise<void> {
+		const { getSearchIndex, buildSearchIndex } = await import('../utils/index.js')
+		vi.mocked(getSearchIndex).mockResolvedValueOnce(buildSearchIndex([ {
+			metadata: { fm: { title: 'Svelte stores', date: '2024-01-15' } },
+			date: '2024-01-15',
+			urlPath: '/2024/01/svelte-stores',
+			content: 'A long body'
+		} ]))
+	}
+
+	it('serves the index without post bodies by default', async () => {
+		await mockIndex()
+		const response = await createSearchIndexHandler()({ url: new URL('https://example.com/blog/search-index.json') })
+		const body = await response.json() as { lang: string, documents: { text?: string }[] }
+
+		expect(response.status).toBe(200)
+		expect(body.documents[0]).not.toHaveProperty('text')
+	})
+
+	it('includes bodies when asked', async () => {
+		await mockIndex()
+		const response = await createSearchIndexHandler({ includeText: true })({ url: new URL('https://example.com/blog/search-index.json') })
+		const body = await response.json() as { documents: { text?: string }[] }
+
+		expect(body.documents[0]?.text).toBe('A long body')
+	})
+
+	it('uses the lang param or the configured language', async () => {
+		const { getSearchIndex } = await import('../utils/index.js')
+		await mockIndex()
+		await createSearchIndexHandler({ lang: 'fr' })({ url: new URL('https://example.com/blog/search-index.json') })
+		expect(getSearchIndex).toHaveBeenLastCalledWith('fr')
+
+		await mockIndex()
+		await createSearchIndexHandler()({ url: new URL('https://example.com/blog/search-index.json?lang=es') })
+		expect(getSearchIndex).toHaveBeenLastCalledWith('es')
+	})
+})
+
+describe('createOgImageHandler', () => {
+	const imageUrl = new URL('https://example.com/blog/og/2024/01/test-post.svg')
+
+	it('renders an SVG card for a post', async () => {
+		const response = await createOgImageHandler()({ url: imageUrl, params: { path: '2024/01/test-post.svg' } })
+
+		expect(response.status).toBe(200)
+		expect(response.headers.get('Content-Type')).toBe('image/svg+xml')
+		expect(await response.text()).toContain('Test Post')
+	})
+
+	it('looks posts up by URL, including unlisted ones', async () => {
+		const { findPost } = await import('../utils/index.js')
+		const response = await createOgImageHandler()({ url: new URL(`${ imageUrl.href }?lang=es`), params: { path: '2024/01/test-post.svg' } })
+
+		expect(response.status).toBe(200)
+		expect(findPost).toHaveBeenLastCalledWith('test-post', { year: '2024', month: '01', includeContent: false, lang: 'es' })
+	})
+
+	it('returns 304 when the ETag matches', async () => {
+		const handler = createOgImageHandler()
+		const first = await handler({ url: imageUrl, params: { path: '2024/01/test-post.svg' } })
+		const etag = first.headers.get('ETag') ?? ''
+		const request = new Request(imageUrl, { headers: { 'If-None-Match': etag } })
+		const second = await handler({ url: imageUrl, params: { path: '2024/01/test-post.svg' }, request })
+
+		expect(etag).toMatch(/^"[0-9a-f]+"$/)
+		expect(second.status).toBe(304)
+	})
+
+	it('rasterizes PNG images once per content hash', async () => {
+		const rasterize = vi.fn().mockResolvedValue(new Uint8Array([ 137, 80, 78, 71 ]))
+		const handler = createOgImageHandler({ rasterize })
+		const event = { url: imageUrl, params: { path: '2024/01/test-post.png' } }
+
+		const response = await handler(event)
+		await handler(event)
+
+		expect(response.headers.get('Content-Type')).toBe('image/png')
+		expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([ 137, 80, 78, 71 ]))
+		expect(rasterize).toHaveBeenCalledTimes(1)
+	})
+
+	it('returns 404 for unknown posts and PNG without a rasterizer', async () => {
+		const handler = createOgImageHandler()
+
+		expect((await handler({ url: imageUrl, params: { path: '2024/01/missing.svg' } })).status).toBe(404)
+		expect((await handler({ url: imageUrl, params: { path: '2024/01/test-post.png' } })).status).toBe(404)
+		expect((await handler({ url: imageUrl, params: { path: '2024/01/test-post.gif' } })).status).toBe(404)
+		expect((await handler({ url: imageUrl, params: { path: 'test-post.svg' } })).status).toBe(404)
+	})
+})
@@ -0,0 +1,152 @@
+/**
+ * Language Negotiation Tests
+ *
+ * The negotiated language decides which translation a visitor sees and what
+ * caches store, so these tests cover the detection order, q-values, the
+ * redirect to prefixed URLs and the response headers.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { isRedirect, type RequestEvent } from '@sveltejs/kit'
+import { applyBlogI18nHeaders, detectBlogLanguage, handleBlogI18n, parseAcceptLanguage } from '../i18n/hooks.js'
+
+const mockConfig = vi.hoisted(() => ({
+	uri: '/blog',
+	i18n: {
+		enabled: true,
+		supportedLanguages: [ 'en', 'es', 'fr' ],
+		defaultLanguage: 'en',
+		includeLanguageInURL: false,
+		autoDetectLanguage: true,
+		languageDetectionOrder: [ 'url', 'cookie', 'browser' ],
+		persistLanguageKey: 'blog-lang'
+	}
+}))
+
+vi.mock('../config/index.js', () => ({
+	blogConfig: mockConfig,
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({})
+}))
+
+interface TestEvent extends RequestEvent {
+	locals: { lang?: string }
+}
+
+function createEvent(path: string, { cookie, acceptLanguage }: { cookie?: string, acceptLanguage?: string } = {}): TestEvent {
+	const url = new URL(`https://example.com${ path }`)
+	return {
+		url,
+		request: new Request(url, { headers: acceptLanguage ? { 'Accept-Language': acceptLanguage } : {} }),
+		cookies: { get: (name: string) => name === 'blog-lang' ? cookie : undefined },
+		locals: {}
+	} as unknown as TestEvent
+}
+
+beforeEach(() => {
+	mockConfig.i18n.includeLanguageInURL = false
+	mockConfig.i18n.autoDetectLanguage = true
+	mockConfig.i18n.languageDetectionOrder = [ 'url', 'cookie', 'browser' ]
+})
+
+describe('parseAcceptLanguage', () => {
+	it('orders tags by q-value and keeps header order for ties', () => {
+		expect(parseAcceptLanguage('fr;q=0.5, es-MX, en;q=0.8, de')).toEqual([ 'es-MX', 'de', 'en', 'fr' ])
+	})
+
+	it('drops q=0, wildcards and empty headers', () => {
+		expect(parseAcceptLanguage('en;q=0, *;q=0.5, es;q=0.1')).toEqual([ 'es' ])
+		expect(parseAcceptLanguage(null)).toEqual([])
+	})
+})
+
+describe('detectBlogLanguage', () => {
+	it('prefers the URL prefix, then the cookie, then Accept-Language', () => {
+		const headers = { cookie: 'fr', acceptLanguage: 'es' }
+
+		expect(detectBlogLanguage(createEvent('/es/blog/post', { cookie: 'fr' }))).toEqual({ lang: 'es', source: 'url', urlLang: 'es', pathname: '/blog/post' })
+		expect(detectBlogLanguage(createEvent('/blog', headers))).toMatchObject({ lang: 'fr', source: 'cookie' })
+		expect(detectBlogLanguage(createEvent('/blog', { acceptLanguage: 'de, es-MX;q=0.9' }))).toMatchObject({ lang: 'es', source: 'header' })
+		expect(detectBlogLanguage(createEvent('/blog', { acceptLanguage: 'de' }))).toMatchObject({ lang: 'en', source: 'default' })
+	})
+
+	it('only reads cookies and headers when autoDetectLanguage is on', () => {
+		mockConfig.i18n.autoDetectLanguage = false
+
+		expect(detectBlogLanguage(createEvent('/blog', { cookie: 'fr', acceptLanguage: 'es' }))).toMatchObject({ lang: 'en', source: 'default' })
+	})
+})
+
+describe('handleBlogI18n', () => {
+	it('sets locals.lang', async () => {
+		const event = createEvent('/blog/2024/01/post', { acceptLanguage: 'fr' })
+		await handleBlogI18n(event)
+
+		expect(event.locals.lang).toBe('fr')
+	})
+
+	it('ignores requests outside the blog', async () => {
+		const event = createEvent('/about', { acceptLanguage: 'fr' })
+		await handleBlogI18n(event)
+
+		expect(event.locals.lang).toBeUndefined()
+		expect(applyBlogI18nHeaders(event, new Response('')).headers.has('Content-Language')).toBe(false)
+	})
+
+	it('redirects detected languages to the prefixed URL', async () => {
+		mockConfig.i18n.includeLanguageInURL = true
+		const error: unknown = await handleBlogI18n(createEvent('/blog/tag/svelte?page=2', { cookie: 'es' })).catch((e: unknown) => e)
+
+		expect(isRedirect(error) && error.location).toBe('/es/blog/tag/svelte?page=2')
+		await expect(handleBlogI18n(createEvent('/blog', { cookie: 'es' }), undefined, { redirect: false })).resolves.toBeUndefined()
+		await expect(handleBlogI18n(createEvent('/es/blog', { acceptLanguage: 'fr' }))).resolves.toBeUndefined()
+	})
+
+	it('never redirects prefixed paths, whatever the detection order', async () => {
+		mockConfig.i18n.includeLanguageInURL = true
+		mockConfig.i18n.languageDetectionOrder = [ 'cookie', 'url' ]
+
+		const event = createEvent('/es/blog', { cookie: 'es' })
+		await expect(handleBlogI18n(event)).resolves.toBeUndefined()
+		expect(event.locals.lang).toBe('es')
+		await expect(handleBlogI18n(createEvent('/es/blog', { cookie: 'fr' }))).resolves.toBeUndefined()
+	})
+
+	it('lets the custom handler run after negotiation', async () => {
+		const event = createEvent('/blog', { acceptLanguage: 'es' })
+		const seen: (string | undefined)[] = []
+		await handleBlogI18n(event, e => { seen.push((e.locals as { lang?: string }).lang) })
+
+		expect(seen).toEqual([ 'es' ])
+	})
+})
+
+describe('applyBlogI18nHeaders', () => {
+	it('adds Content-Language and appends to Vary on the resolved response', async () => {
+		const event = createEvent('/blog', { acceptLanguage: 'fr' })
+		await handleBlogI18n(event)
+		const response = applyBlogI18nHeaders(event, new Response('', { headers: { 'Vary': 'Origin, cookie' } }))
+
+		expect(response.headers.get('Content-Language')).toBe('fr')
+		expect(response.headers.get('Vary')).toBe('Origin, cookie, Accept-Language')
+	})
+
+	it('keeps headers the page set itself', async () => {
+		const event = createEvent('/blog', { acceptLanguage: 'fr' })
+		await handleBlogI18n(event)
+		const response = applyBlogI18nHeaders(event, new Response('', { headers: { 'Content-Language': 'fr-CA', 'Vary': '*' } }))
+
+		expect(response.headers.get('Content-Language')).toBe('fr-CA')
+		expect(response.headers.get('Vary')).toBe('*')
+	})
+
+	it('leaves out Vary when detection is off', async () => {
+		mockConfig.i18n.autoDetectLanguage = false
+		const event = createEvent('/es/blog')
+		await handleBlogI18n(event)
+		const response = applyBlogI18nHeaders(event, new Response(''))
+
+		expect(response.headers.get('Content-Language')).toBe('es')
+		expect(response.headers.has('Vary')).toBe(false)
+	})
+})
@@ -0,0 +1,74 @@
+/**
+ * OpenGraph Image Tests
+ *
+ * Generated cards are shared as link previews, so the tests check the text
+ * on them is escaped and fits, and that posts without a cover point at them.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { getOgImageUrl, renderOgImageSvg } from '../utils/ogImage.js'
+import { buildSeoMeta } from '../utils/seoUtils.js'
+import { defaultBlogConfig, type BlogConfig } from '../config/defaults.js'
+import type { ProcessedPost } from '../utils/blogUtils.js'
+
+vi.mock('../config/index.js', async () => ({
+	blogConfig: (await import('../config/defaults.js')).defaultBlogConfig,
+	defaultMessages: (await import('../config/defaultMessages.js')).defaultMessages,
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({})
+}))
+
+const config: BlogConfig = { ...defaultBlogConfig, name: 'Test Blog' }
+
+function createPost(title: string, lang?: string): ProcessedPost {
+	return {
+		metadata: { fm: { title, date: '2024-01-15', categories: [ 'Frontend' ], author: { name: 'Jane & John' } } },
+		date: '2024-01-15',
+		urlPath: '/2024/01/caching',
+		...(lang ? { lang } : {})
+	}
+}
+
+describe('renderOgImageSvg', () => {
+	it('draws the title, emoji, category, authors and blog name', () => {
+		const svg = renderOgImageSvg(createPost('🚀 Caching <fast>'), config)
+
+		expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="1200" height="630"/)
+		expect(svg).toContain('>🚀</text>')
+		expect(svg).toContain('>Caching &lt;fast&gt;</tspan>')
+		expect(svg).toContain('>FRONTEND</text>')
+		expect(svg).toContain('>Jane &amp; John</text>')
+		expect(svg).toContain('>Test Blog</text>')
+		expect(svg).toContain(`fill="${ config.theme.colors.background }"`)
+	})
+
+	it('wraps long titles and truncates after three lines', () => {
+		const svg = renderOgImageSvg(createPost('A very long title about caching strategies for server rendered Svelte applications in production'), config)
+		const lines = [ ...svg.matchAll(/<tspan[^>]*>([^<]*)<\/tspan>/g) ].map(match => match[1] ?? '')
+
+		expect(lines).toHaveLength(3)
+		expect(lines.every(line => line.length <= 24)).toBe(true)
+		expect(lines[2]).toMatch(/…$/)
+	})
+})
+
+describe('getOgImageUrl', () => {
+	it('builds the image URL from the post path', () => {
+		expect(getOgImageUrl(createPost('Caching'), config)).toBe('/blog/og/2024/01/caching.svg')
+		expect(getOgImageUrl(createPost('Caché', 'es'), config)).toBe('/blog/og/2024/01/caching.svg?lang=es')
+		expect(getOgImageUrl(createPost('Caching'), { ...config, seo: { ...config.seo, ogImages: { path: '/og/', format: 'png' } } }))
+			.toBe('/og/2024/01/caching.png')
+	})
+
+	it('is used as og:image for posts without an image', () => {
+		const withSite = { ...config, seo: { ...config.seo, siteUrl: 'https://example.com' } }
+		const seo = buildSeoMeta({ pageType: 'post', post: createPost('Caching') }, withSite)
+		const content = (key: string): string | undefined => seo.meta.find(tag => 'property' in tag && tag.property === key)?.content
+
+		expect(content('og:image')).toBe('https://example.com/blog/og/2024/01/caching.svg')
+		expect(content('og:image:width')).toBe('1200')
+
+		const disabled = { ...withSite, seo: { ...withSite.seo, ogImages: { path: '', format: 'svg' as const } } }
+		expect(buildSeoMeta({ pageType: 'post', post: createPost('Caching') }, disabled).meta.some(tag => 'property' in tag && tag.property === 'og:image')).toBe(false)
+	})
+})
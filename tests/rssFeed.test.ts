@@ -1,13 +1,20 @@
 /**
- * RSS Feed Generation Tests
+ * Feed Generation Tests
  *
  * These tests focus on XML validity, proper escaping (XSS prevention),
- * and edge cases in feed generation. RSS is an external interface -
+ * and edge cases in feed generation. Feeds are an external interface -
  * broken feeds affect users with feed readers.
  */
 
 import { describe, it, expect, vi } from 'vitest'
-import { generateRssFeed, type ProcessedPost, type RssFeedOptions } from '../utils/blogUtils.js'
+import {
+	generateRssFeed,
+	generateAtomFeed,
+	generateJsonFeed,
+	type JsonFeed,
+	type ProcessedPost,
+	type RssFeedOptions
+} from '../utils/blogUtils.js'
 
 // Mock the blog config
 vi.mock('../config/index.js', () => ({
@@ -204,6 +211,15 @@ describe('generateRssFeed', () => {
 			expect(xml).toContain('https://example.com/blog')
 		})
 
+		it('links the channel to homePath when provided', () => {
+			const xml = generateRssFeed([createPost({})], {
+				...defaultOptions,
+				homePath: '/blog/category/javascript'
+			})
+
+			expect(xml).toContain('<link>https://example.com/blog/category/javascript</link>')
+		})
+
 		it('generates correct post URLs', () => {
 			const posts = [createPost({ urlPath: '/2024/03/my-post' })]
 			const xml = generateRssFeed(posts, defaultOptions)
@@ -285,6 +301,58 @@ describe('generateRssFeed', () => {
 		})
 	})
 
+	describe('Full Content', () => {
+		const markdown = '# Heading\n\nSome **bold** text with a [link](/blog/other).\n\n![Diagram](/images/diagram.png)'
+
+		it('omits content:encoded by default', () => {
+			const xml = generateRssFeed([createPost({ content: markdown })], defaultOptions)
+
+			expect(xml).not.toContain('<content:encoded>')
+		})
+
+		it('renders the post body into content:encoded CDATA', () => {
+			const xml = generateRssFeed([createPost({ content: markdown })], { ...defaultOptions, fullContent: true })
+
+			expect(xml).toContain('<content:encoded><![CDATA[<h1>Heading</h1>')
+			expect(xml).toContain('<strong>bold</strong>')
+		})
+
+		it('rewrites relative image and link URLs to absolute ones', () => {
+			const xml = generateRssFeed([createPost({ content: markdown })], { ...defaultOptions, fullContent: true })
+
+			expect(xml).toContain('<a href="https://example.com/blog/other">link</a>')
+			expect(xml).toContain('<img src="https://example.com/images/diagram.png" alt="Diagram" />')
+		})
+
+		it('uses a custom renderer when provided', () => {
+			const xml = generateRssFeed([createPost({})], {
+				...defaultOptions,
+				fullContent: true,
+				renderContent: () => '<p>Custom ]]> body</p>'
+			})
+
+			expect(xml).toContain('<![CDATA[<p>Custom ]]]]><![CDATA[> body</p>]]>')
+		})
+
+		it('includes the cover image as media:content', () => {
+			const post = createPost({})
+			post.metadata.fm.image = { src: '/images/cover.jpg', alt: 'Cover', width: 1200, height: 630 }
+			const xml = generateRssFeed([post], defaultOptions)
+
+			expect(xml).toContain('xmlns:media="http://search.yahoo.com/mrss/"')
+			expect(xml).toContain('<media:content url="https://example.com/images/cover.jpg" medium="image" width="1200" height="630" />')
+		})
+
+		it('adds escaped content to Atom entries and content_html to JSON items', () => {
+			const post = createPost({ content: 'Hello *world*' })
+
+			expect(generateAtomFeed([post], { ...defaultOptions, fullContent: true }))
+				.toContain('<content type="html">&lt;p&gt;Hello &lt;em&gt;world&lt;/em&gt;&lt;/p&gt;</content>')
+			expect((JSON.parse(generateJsonFeed([post], { ...defaultOptions, fullContent: true })) as JsonFeed).items[0]?.content_html)
+				.toBe('<p>Hello <em>world</em></p>')
+		})
+	})
+
 	describe('Post Limits and Filtering', () => {
 		it('respects maxItems limit', () => {
 			const posts = Array.from({ length: 50 }, (_, i) =>
@@ -350,3 +418,140 @@ describe('generateRssFeed', () => {
 		})
 	})
 })
+
+describe('generateAtomFeed', () => {
+	const atomOptions: RssFeedOptions = { ...defaultOptions, feedPath: '/blog/atom.xml' }
+
+	it('includes required Atom 1.0 feed elements', () => {
+		const xml = generateAtomFeed([createPost({})], atomOptions)
+
+		expect(xml).toMatch(/^<\?xml version="1\.0" encoding="UTF-8" \?>/)
+		expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">')
+		expect(xml).toContain('<title>Test Feed</title>')
+		expect(xml).toContain('<id>https://example.com/blog/</id>')
+		expect(xml).toContain('<link href="https://example.com/blog/atom.xml" rel="self" type="application/atom+xml" />')
+		expect(xml).toMatch(/<updated>\d{4}-\d{2}-\d{2}T/)
+		expect(xml.trim().endsWith('</feed>')).toBe(true)
+	})
+
+	it('uses the most recent post change as the feed updated date', () => {
+		const posts = [
+			createPost({ date: '2024-01-15', updated: '2024-08-01' }),
+			createPost({ date: '2024-03-01' })
+		]
+		const xml = generateAtomFeed(posts, atomOptions)
+
+		expect(xml).toContain('<updated>2024-08-01T00:00:00.000Z</updated>\n  <generator>')
+	})
+
+	it('renders entries with RFC 3339 dates, author and categories', () => {
+		const posts = [createPost({
+			date: '2024-06-15',
+			updated: '2024-07-01',
+			authorName: 'Jane',
+			categories: ['JavaScript'],
+			tags: ['vitest']
+		})]
+		const xml = generateAtomFeed(posts, atomOptions)
+
+		expect(xml).toContain('<id>https://example.com/blog/2024/01/test-post</id>')
+		expect(xml).toContain('<published>2024-06-15T00:00:00.000Z</published>')
+		expect(xml).toContain('<updated>2024-07-01T00:00:00.000Z</updated>')
+		expect(xml).toContain('<name>Jane</name>')
+		expect(xml).toContain('<category term="JavaScript" />')
+		expect(xml).toContain('<category term="vitest" />')
+	})
+
+	it('writes one author element per co-author', () => {
+		const post = createPost({ authorName: 'Jane' })
+		post.metadata.fm.authors = [ { name: 'Jane' }, { name: 'Sam', url: 'https://sam.dev' } ]
+		const xml = generateAtomFeed([post], atomOptions)
+
+		expect((xml.match(/<author>/g) || []).length).toBe(2)
+		expect(xml).toContain('<name>Sam</name>\n      <uri>https://sam.dev</uri>')
+		expect(generateRssFeed([post], defaultOptions)).toContain('<author>Jane, Sam</author>')
+	})
+
+	it('escapes titles and excerpts', () => {
+		const posts = [createPost({ title: '<script>x</script>', excerpt: 'Tom & Jerry' })]
+		const xml = generateAtomFeed(posts, atomOptions)
+
+		expect(xml).not.toContain('<script>')
+		expect(xml).toContain('<summary>Tom &amp; Jerry</summary>')
+	})
+
+	it('applies the same filtering and limits as RSS', () => {
+		const posts = [
+			...Array.from({ length: 5 }, (_, i) => createPost({ title: `Post ${i}` })),
+			{ ...createPost({}), date: '' } as ProcessedPost
+		]
+		const xml = generateAtomFeed(posts, { ...atomOptions, maxItems: 3 })
+
+		expect((xml.match(/<entry>/g) || []).length).toBe(3)
+	})
+
+	it('throws error when siteUrl is not provided', () => {
+		expect(() => generateAtomFeed([], { siteUrl: '' })).toThrow('siteUrl is required')
+	})
+})
+
+describe('generateJsonFeed', () => {
+	const jsonOptions: RssFeedOptions = { ...defaultOptions, feedPath: '/blog/feed.json' }
+
+	function parse(json: string): JsonFeed {
+		return JSON.parse(json) as JsonFeed
+	}
+
+	it('produces a JSON Feed 1.1 document', () => {
+		const feed = parse(generateJsonFeed([createPost({})], jsonOptions))
+
+		expect(feed.version).toBe('https://jsonfeed.org/version/1.1')
+		expect(feed.title).toBe('Test Feed')
+		expect(feed.home_page_url).toBe('https://example.com/blog')
+		expect(feed.feed_url).toBe('https://example.com/blog/feed.json')
+		expect(feed.language).toBe('en')
+		expect(feed.items).toHaveLength(1)
+	})
+
+	it('maps post fields to items', () => {
+		const feed = parse(generateJsonFeed([createPost({
+			date: '2024-06-15',
+			updated: '2024-07-01',
+			excerpt: 'Summary text',
+			authorName: 'Jane',
+			categories: ['JavaScript'],
+			tags: ['JavaScript', 'vitest']
+		})], jsonOptions))
+		const [ item ] = feed.items
+
+		expect(item).toMatchObject({
+			id: 'https://example.com/blog/2024/01/test-post',
+			url: 'https://example.com/blog/2024/01/test-post',
+			title: 'Test Post',
+			summary: 'Summary text',
+			date_published: '2024-06-15T00:00:00.000Z',
+			date_modified: '2024-07-01T00:00:00.000Z',
+			authors: [ { name: 'Jane' } ],
+			tags: [ 'JavaScript', 'vitest' ]
+		})
+	})
+
+	it('omits optional fields that are not set', () => {
+		const [ item ] = parse(generateJsonFeed([createPost({})], jsonOptions)).items
+
+		expect(item).not.toHaveProperty('date_modified')
+		expect(item).not.toHaveProperty('tags')
+		expect(item).not.toHaveProperty('image')
+		expect(item?.authors).toEqual([ { name: 'Test Blog' } ])
+	})
+
+	it('keeps unsafe strings as data instead of markup', () => {
+		const json = generateJsonFeed([createPost({ title: '"quoted" </script>' })], jsonOptions)
+
+		expect(parse(json).items[0]?.title).toBe('"quoted" </script>')
+	})
+
+	it('throws error when siteUrl is not provided', () => {
+		expect(() => generateJsonFeed([], { siteUrl: '' })).toThrow('siteUrl is required')
+	})
+})
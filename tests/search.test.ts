@@ -0,0 +1,220 @@
+/**
+ * Search Tests
+ *
+ * Search has to find posts by inflected words, rank title matches above
+ * body matches, and produce snippets that are safe to render as HTML.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+	analyzeSearchText,
+	buildSearchIndex,
+	createSearchSnippet,
+	loadSearchIndex,
+	normalizeSearchTerm,
+	parseSearchIndex,
+	searchBlog,
+	SEARCH_INDEX_VERSION
+} from '../utils/search.js'
+import type { ProcessedPost } from '../utils/blogUtils.js'
+
+vi.mock('../config/index.js', () => ({
+	blogConfig: {
+		uri: '/blog',
+		posts: { excerptLength: 160 }
+	},
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({}),
+	getContentSource: () => null
+}))
+
+function createPost(slug: string, fm: Partial<ProcessedPost['metadata']['fm']>, content = ''): ProcessedPost {
+	return {
+		metadata: { fm: { title: slug, date: '2024-01-15', ...fm } },
+		date: fm.date ?? '2024-01-15',
+		urlPath: `/2024/01/${ slug }`,
+		content
+	}
+}
+
+const posts: ProcessedPost[] = [
+	createPost('svelte-caching', {
+		title: 'Caching in Svelte',
+		tags: [ 'performance' ],
+		categories: [ 'Frontend' ],
+		i18n: { es: { title: 'Caché en Svelte' } }
+	}, 'How we cache rendered pages. Running the cache <b>warm</b> helps.'),
+	createPost('deploying', {
+		title: 'Deploying apps',
+		date: '2024-03-01',
+		tags: [ 'devops' ],
+		categories: [ 'Backend' ]
+	}, 'Deployments get faster when builds are cached between runs.'),
+	createPost('testing', {
+		title: 'Testing stories',
+		date: '2024-02-01',
+		excerpt: 'Notes on writing tests',
+		categories: [ 'Frontend' ]
+	}, 'Plain body without the word.')
+]
+
+const urls = (results: { post: ProcessedPost }[]): string[] => results.map(result => result.post.urlPath)
+
+describe('analyzeSearchText', () => {
+	it('drops stopwords and stems inflected words', () => {
+		expect(analyzeSearchText('The cities are running')).toEqual([ 'city', 'run' ])
+	})
+
+	it('folds diacritics', () => {
+		expect(normalizeSearchTerm('Caché', 'fr')).toBe(normalizeSearchTerm('cache', 'fr'))
+	})
+
+	it('uses language-specific stopwords', () => {
+		expect(analyzeSearchText('el rendimiento de las aplicaciones', 'es')).toEqual([
+			normalizeSearchTerm('rendimiento', 'es'),
+			normalizeSearchTerm('aplicaciones', 'es')
+		])
+	})
+
+	it('stems German plurals', () => {
+		expect(normalizeSearchTerm('Zeitungen', 'de')).toBe(normalizeSearchTerm('Zeitung', 'de'))
+	})
+
+	it('only lowercases words of unknown languages', () => {
+		expect(analyzeSearchText('Caching Tests', 'xx')).toEqual([ 'caching', 'tests' ])
+	})
+})
+
+describe('buildSearchIndex', () => {
+	it('produces a JSON-serializable index of post summaries', () => {
+		const index = buildSearchIndex(posts)
+
+		expect(index.version).toBe(SEARCH_INDEX_VERSION)
+		expect(JSON.parse(JSON.stringify(index))).toEqual(index)
+		expect(index.documents[0]?.post).not.toHaveProperty('content')
+		expect(index.documents[0]?.post.metadata.fm).not.toHaveProperty('i18n')
+		expect(index.documents[0]?.text).toContain('rendered pages')
+	})
+
+	it('can leave out body text', () => {
+		const index = buildSearchIndex(posts, { includeText: false })
+		expect(index.documents.every(document => document.text === undefined)).toBe(true)
+	})
+
+	it('treats object prototype keys as ordinary terms', () => {
+		const index = buildSearchIndex([ createPost('proto', { title: 'constructor toString' }) ], { lang: 'xx' })
+
+		expect(urls(searchBlog(index, 'constructor', { prefix: false }))).toEqual([ '/2024/01/proto' ])
+		expect(searchBlog(buildSearchIndex(posts), 'hasOwnProperty', { prefix: false })).toEqual([])
+	})
+})
+
+describe('searchBlog', () => {
+	const index = buildSearchIndex(posts)
+
+	it('matches inflected forms', () => {
+		expect(urls(searchBlog(index, 'caches'))).toContain('/2024/01/svelte-caching')
+	})
+
+	it('ranks title matches above body matches', () => {
+		expect(urls(searchBlog(index, 'cache'))).toEqual([ '/2024/01/svelte-caching', '/2024/01/deploying' ])
+	})
+
+	it('requires every query word to match', () => {
+		expect(urls(searchBlog(index, 'cache deployments'))).toEqual([ '/2024/01/deploying' ])
+	})
+
+	it('matches the last word as a prefix', () => {
+		expect(urls(searchBlog(index, 'deplo'))).toEqual([ '/2024/01/deploying' ])
+		expect(searchBlog(index, 'deplo', { prefix: false })).toEqual([])
+	})
+
+	it('searches tags, categories and excerpts', () => {
+		expect(urls(searchBlog(index, 'devops'))).toEqual([ '/2024/01/deploying' ])
+		expect(urls(searchBlog(index, 'frontend'))).toEqual([ '/2024/01/testing', '/2024/01/svelte-caching' ])
+		expect(urls(searchBlog(index, 'writing'))).toEqual([ '/2024/01/testing' ])
+	})
+
+	it('tolerates typos when fuzzy matching is on', () => {
+		expect(searchBlog(index, 'deploiing', { prefix: false })).toEqual([])
+		expect(urls(searchBlog(index, 'deploiing', { prefix: false, fuzzy: true }))).toEqual([ '/2024/01/deploying' ])
+	})
+
+	it('ranks exact matches above fuzzy matches', () => {
+		const fuzzyIndex = buildSearchIndex([
+			createPost('near', { title: 'Stories' }),
+			createPost('exact', { title: 'Store' })
+		])
+		expect(urls(searchBlog(fuzzyIndex, 'store', { prefix: false, fuzzy: true }))).toEqual([ '/2024/01/exact', '/2024/01/near' ])
+	})
+
+	it('filters by category and tag slug', () => {
+		expect(urls(searchBlog(index, 'cache', { category: 'backend' }))).toEqual([ '/2024/01/deploying' ])
+		expect(urls(searchBlog(index, 'cache', { tag: 'Performance' }))).toEqual([ '/2024/01/svelte-caching' ])
+	})
+
+	it('returns nothing for stopword-only or unmatched queries', () => {
+		expect(searchBlog(index, 'the and')).toEqual([])
+		expect(searchBlog(index, 'kubernetes')).toEqual([])
+	})
+
+	it('highlights matches in snippets', () => {
+		const [ result ] = searchBlog(index, 'running warm')
+		expect(result?.snippet).toBe('How we cache rendered pages. <mark>Running</mark> the cache <mark>warm</mark> helps.')
+	})
+
+	it('falls back to the excerpt for snippets when the body has no text', () => {
+		const textless = buildSearchIndex(posts, { includeText: false })
+		expect(searchBlog(textless, 'writing')[0]?.snippet).toBe('Notes on <mark>writing</mark> tests')
+	})
+})
+
+describe('createSearchSnippet', () => {
+	const matchesCache = (term: string): boolean => term === 'cach'
+
+	it('escapes HTML outside and inside highlights', () => {
+		expect(createSearchSnippet('<script> cache & more', matchesCache)).toBe('&lt;script&gt; <mark>cache</mark> &amp; more')
+	})
+
+	it('centers long text on the first match with ellipses', () => {
+		const text = `${ 'lorem '.repeat(60) }cache ${ 'ipsum '.repeat(60) }`.trim()
+		const snippet = createSearchSnippet(text, matchesCache, 'en', 60)
+
+		expect(snippet.startsWith('…lorem')).toBe(true)
+		expect(snippet.endsWith('ipsum…')).toBe(true)
+		expect(snippet).toContain('<mark>cache</mark>')
+	})
+})
+
+describe('loadSearchIndex', () => {
+	const response = (body: unknown, ok = true): Response =>
+		({ ok, status: ok ? 200 : 500, json: () => Promise.resolve(body) }) as Response
+
+	it('fetches each index once', async () => {
+		const index = buildSearchIndex(posts)
+		const fetchFn = vi.fn(() => Promise.resolve(response(JSON.parse(JSON.stringify(index)))))
+
+		const [ first, second ] = await Promise.all([
+			loadSearchIndex('/once.json', fetchFn),
+			loadSearchIndex('/once.json', fetchFn)
+		])
+
+		expect(first).toBe(second)
+		expect(first.documents).toHaveLength(3)
+		expect(fetchFn).toHaveBeenCalledTimes(1)
+	})
+
+	it('retries after a failed load', async () => {
+		const fetchFn = vi.fn()
+			.mockResolvedValueOnce(response(null, false))
+			.mockResolvedValueOnce(response(buildSearchIndex(posts)))
+
+		await expect(loadSearchIndex('/retry.json', fetchFn)).rejects.toThrow('Failed to load search index (500)')
+		await expect(loadSearchIndex('/retry.json', fetchFn)).resolves.toHaveProperty('lang', 'en')
+	})
+
+	it('rejects unsupported indexes', () => {
+		expect(() => parseSearchIndex({ documents: [] })).toThrow('Invalid search index')
+		expect(() => parseSearchIndex({ version: 2, lang: 'en', documents: [], terms: {} })).toThrow(/version 2/)
+	})
+})
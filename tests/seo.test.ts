@@ -0,0 +1,130 @@
+/**
+ * SEO Meta Tests
+ *
+ * Crawlers and link previews read these tags, so the tests check that every
+ * URL is absolute, posts get article tags and translations get hreflang links.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { buildSeoMeta, type SeoMeta, type SeoPageData } from '../utils/seoUtils.js'
+import { defaultBlogConfig, type BlogConfig } from '../config/defaults.js'
+import type { ProcessedPost } from '../utils/blogUtils.js'
+
+vi.mock('../config/index.js', async () => ({
+	blogConfig: (await import('../config/defaults.js')).defaultBlogConfig,
+	defaultMessages: (await import('../config/defaultMessages.js')).defaultMessages,
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({})
+}))
+
+const config: BlogConfig = {
+	...defaultBlogConfig,
+	name: 'Test Blog',
+	description: 'A test blog',
+	seo: { ...defaultBlogConfig.seo, siteUrl: 'https://example.com/', twitterSite: '@testblog' }
+}
+
+const post: ProcessedPost = {
+	metadata: {
+		fm: {
+			title: 'Caching in Svelte',
+			date: '2024-01-15',
+			updated: '2024-02-01',
+			excerpt: 'How we cache pages',
+			categories: [ 'Frontend' ],
+			tags: [ 'svelte', 'performance' ],
+			image: { src: '/images/cache.jpg', alt: 'A cache', width: 1200, height: 630 },
+			author: { id: 'jane', name: 'Jane', social: { twitter: 'https://x.com/janedoe' } },
+			i18n: { es: { title: 'Caché en Svelte' } }
+		}
+	},
+	date: '2024-01-15',
+	urlPath: '/2024/01/caching'
+}
+
+const content = (seo: SeoMeta, key: string): string[] =>
+	seo.meta.filter(tag => ('property' in tag ? tag.property : tag.name) === key).map(tag => tag.content)
+const hrefs = (seo: SeoMeta, rel: string): string[] => seo.links.filter(link => link.rel === rel).map(link => link.href)
+
+describe('buildSeoMeta', () => {
+	it('describes posts as articles with absolute URLs', () => {
+		const seo = buildSeoMeta({ pageType: 'post', post, lang: 'en', previousPost: null, nextPost: null }, config)
+
+		expect(seo.title).toBe('Caching in Svelte - Test Blog')
+		expect(seo.canonical).toBe('https://example.com/blog/2024/01/caching')
+		expect(content(seo, 'og:type')).toEqual([ 'article' ])
+		expect(content(seo, 'og:image')).toEqual([ 'https://example.com/images/cache.jpg' ])
+		expect(content(seo, 'article:published_time')).toEqual([ '2024-01-15T00:00:00.000Z' ])
+		expect(content(seo, 'article:modified_time')).toEqual([ '2024-02-01T00:00:00.000Z' ])
+		expect(content(seo, 'article:section')).toEqual([ 'Frontend' ])
+		expect(content(seo, 'article:tag')).toEqual([ 'svelte', 'performance' ])
+	})
+
+	it('adds Twitter Card tags', () => {
+		const seo = buildSeoMeta({ pageType: 'post', post }, config)
+
+		expect(content(seo, 'twitter:card')).toEqual([ 'summary_large_image' ])
+		expect(content(seo, 'twitter:site')).toEqual([ '@testblog' ])
+		expect(content(seo, 'twitter:creator')).toEqual([ '@janedoe' ])
+		expect(content(buildSeoMeta({ pageType: 'index' }, config), 'twitter:card')).toEqual([ 'summary' ])
+	})
+
+	it('links every translation of a post with hreflang', () => {
+		const localized = { ...config, i18n: { ...config.i18n, enabled: true, includeLanguageInURL: true } }
+		const seo = buildSeoMeta({ pageType: 'post', post, lang: 'es' }, localized)
+		const alternates = seo.links.filter(link => link.hreflang !== undefined)
+
+		expect(seo.canonical).toBe('https://example.com/es/blog/2024/01/caching')
+		expect(alternates).toEqual([
+			{ rel: 'alternate', hreflang: 'en', href: 'https://example.com/blog/2024/01/caching' },
+			{ rel: 'alternate', hreflang: 'es', href: 'https://example.com/es/blog/2024/01/caching' },
+			{ rel: 'alternate', hreflang: 'x-default', href: 'https://example.com/blog/2024/01/caching' }
+		])
+		expect(content(seo, 'og:locale:alternate')).toEqual([ 'en' ])
+	})
+
+	it('uses page messages for titles and taxonomy descriptions', () => {
+		const category: SeoPageData = {
+			pageType: 'category',
+			category: 'CSS',
+			categoryPath: [ { name: 'Frontend', path: 'frontend' }, { name: 'CSS', path: 'frontend/css' } ],
+			categoryDescription: 'Styling posts'
+		}
+		const seo = buildSeoMeta(category, config, { messages: { categoryPageTitle: (name: string) => `Category: ${ name }` } })
+
+		expect(seo.title).toBe('Category: CSS')
+		expect(seo.description).toBe('Styling posts')
+		expect(seo.canonical).toBe('https://example.com/blog/category/frontend/css')
+		expect(buildSeoMeta({ pageType: 'index' }, config).title).toBe('Test Blog - A test blog')
+	})
+
+	it('advertises the configured feeds', () => {
+		const withFeeds = { ...config, seo: { ...config.seo, feeds: { rss: '/blog/rss.xml', atom: '', json: '/blog/feed.json' } } }
+
+		expect(buildSeoMeta({ pageType: 'index' }, withFeeds).links.filter(link => link.type !== undefined)).toEqual([
+			{ rel: 'alternate', type: 'application/rss+xml', title: 'Test Blog', href: 'https://example.com/blog/rss.xml' },
+			{ rel: 'alternate', type: 'application/feed+json', title: 'Test Blog', href: 'https://example.com/blog/feed.json' }
+		])
+	})
+
+	it('links previous and next posts, series parts and list pages', () => {
+		const neighbours = { previousPost: { title: 'Old', urlPath: '/2023/12/old', date: '2023-12-01' }, nextPost: null }
+		expect(hrefs(buildSeoMeta({ pageType: 'post', post, ...neighbours }, config), 'prev')).toEqual([ 'https://example.com/blog/2023/12/old' ])
+
+		const series = { name: 'Caching', slug: 'caching', position: 1, total: 2, parts: [], previous: null, next: { title: 'Part 2', urlPath: '/2024/02/part-2' } }
+		const seriesSeo = buildSeoMeta({ pageType: 'post', post, series, ...neighbours }, config)
+		expect([ hrefs(seriesSeo, 'prev'), hrefs(seriesSeo, 'next') ]).toEqual([ [], [ 'https://example.com/blog/2024/02/part-2' ] ])
+
+		const listSeo = buildSeoMeta({ pageType: 'tag', tag: 'svelte', page: 2, pageCount: 3 }, config)
+		expect(listSeo.canonical).toBe('https://example.com/blog/tag/svelte?page=2')
+		expect([ hrefs(listSeo, 'prev'), hrefs(listSeo, 'next') ]).toEqual([
+			[ 'https://example.com/blog/tag/svelte' ],
+			[ 'https://example.com/blog/tag/svelte?page=3' ]
+		])
+	})
+
+	it('keeps URLs root-relative without a site URL', () => {
+		const seo = buildSeoMeta({ pageType: 'post', post }, { ...config, seo: { ...config.seo, siteUrl: '' } })
+		expect(seo.canonical).toBe('/blog/2024/01/caching')
+	})
+})
@@ -0,0 +1,174 @@
+/**
+ * Sitemap Generation Tests
+ *
+ * Sitemaps are consumed by search engines, so these tests focus on the
+ * protocol details: absolute locs, lastmod dates, hreflang alternates and
+ * splitting into a sitemap index.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { generateSitemap, getSitemapUrls } from '../utils/sitemapUtils.js'
+import type { ProcessedPost } from '../utils/blogUtils.js'
+
+const mockConfig = vi.hoisted(() => ({
+	name: 'Test Blog',
+	description: 'A test blog',
+	uri: '/blog',
+	i18n: {
+		enabled: false,
+		defaultLanguage: 'en',
+		includeLanguageInURL: true
+	}
+}))
+
+vi.mock('../config/index.js', () => ({
+	blogConfig: mockConfig,
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({})
+}))
+
+function createPost(slug: string, fm: Partial<ProcessedPost['metadata']['fm']> = {}): ProcessedPost {
+	const date = fm.date ?? '2024-01-15'
+	return {
+		metadata: { fm: { title: slug, date, ...fm } },
+		date,
+		urlPath: `/2024/01/${slug}`
+	}
+}
+
+describe('getSitemapUrls', () => {
+	it('lists the blog index, posts, categories and tags with absolute URLs', () => {
+		const urls = getSitemapUrls([
+			createPost('hello', { categories: ['Web Dev'], tags: ['svelte'] })
+		], { siteUrl: 'https://example.com/' })
+
+		expect(urls.map(url => url.loc)).toEqual([
+			'https://example.com/blog',
+			'https://example.com/blog/2024/01/hello',
+			'https://example.com/blog/category/web-dev',
+			'https://example.com/blog/tag/svelte'
+		])
+	})
+
+	it('lists nested categories at their full path', () => {
+		const urls = getSitemapUrls([
+			createPost('hello', { categories: ['CSS'] })
+		], { siteUrl: 'https://example.com', categories: { css: { parent: 'frontend' } } })
+
+		expect(urls.map(url => url.loc)).toContain('https://example.com/blog/category/frontend/css')
+		expect(urls.map(url => url.loc)).not.toContain('https://example.com/blog/category/css')
+	})
+
+	it('uses updated, then date, for lastmod', () => {
+		const urls = getSitemapUrls([
+			createPost('a', { date: '2024-01-15', updated: '2024-03-02T10:00:00Z' }),
+			createPost('b', { date: '2024-02-01' })
+		], { siteUrl: 'https://example.com', includeTaxonomies: false })
+
+		expect(urls.find(url => url.loc.endsWith('/a'))?.lastmod).toBe('2024-03-02')
+		expect(urls.find(url => url.loc.endsWith('/b'))?.lastmod).toBe('2024-02-01')
+		expect(urls[0]?.lastmod).toBe('2024-03-02')
+	})
+
+	it('uses the most recent post for taxonomy lastmod', () => {
+		const urls = getSitemapUrls([
+			createPost('a', { date: '2024-01-15', tags: ['svelte'] }),
+			createPost('b', { date: '2024-05-01', tags: ['svelte'] })
+		], { siteUrl: 'https://example.com' })
+
+		expect(urls.find(url => url.loc.endsWith('/tag/svelte'))?.lastmod).toBe('2024-05-01')
+	})
+
+	it('skips alternates when i18n is disabled', () => {
+		const urls = getSitemapUrls([
+			createPost('a', { i18n: { es: { title: 'A es' } } })
+		], { siteUrl: 'https://example.com', includeTaxonomies: false })
+
+		expect(urls).toHaveLength(2)
+		expect(urls[1]?.alternates).toBeUndefined()
+	})
+
+	it('adds hreflang alternates for each translation when i18n is enabled', () => {
+		mockConfig.i18n.enabled = true
+		try {
+			const urls = getSitemapUrls([
+				createPost('a', { i18n: { es: { title: 'A es' }, de: { title: 'A de' } } })
+			], { siteUrl: 'https://example.com', includeTaxonomies: false })
+
+			expect(urls.map(url => url.loc)).toEqual([
+				'https://example.com/blog',
+				'https://example.com/blog/2024/01/a',
+				'https://example.com/es/blog/2024/01/a',
+				'https://example.com/de/blog/2024/01/a'
+			])
+			expect(urls[2]?.alternates).toEqual([
+				{ hreflang: 'en', href: 'https://example.com/blog/2024/01/a' },
+				{ hreflang: 'es', href: 'https://example.com/es/blog/2024/01/a' },
+				{ hreflang: 'de', href: 'https://example.com/de/blog/2024/01/a' },
+				{ hreflang: 'x-default', href: 'https://example.com/blog/2024/01/a' }
+			])
+		} finally {
+			mockConfig.i18n.enabled = false
+		}
+	})
+
+	it('uses a custom localizePath', () => {
+		const urls = getSitemapUrls([
+			createPost('a', { i18n: { fr: { title: 'A fr' } } })
+		], {
+			siteUrl: 'https://example.com',
+			includeTaxonomies: false,
+			includeAlternates: true,
+			localizePath: (path, lang) => `${path}?lang=${lang}`
+		})
+
+		expect(urls[2]?.loc).toBe('https://example.com/blog/2024/01/a?lang=fr')
+	})
+
+	it('throws when siteUrl is missing', () => {
+		expect(() => getSitemapUrls([], { siteUrl: '' })).toThrow('siteUrl is required')
+	})
+})
+
+describe('generateSitemap', () => {
+	it('renders a urlset with escaped locs', () => {
+		const xml = generateSitemap([createPost('a&b')], { siteUrl: 'https://example.com', includeTaxonomies: false })
+
+		expect(xml).toMatch(/^<\?xml version="1\.0" encoding="UTF-8" \?>/)
+		expect(xml).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">')
+		expect(xml).toContain('<loc>https://example.com/blog/2024/01/a&amp;b</loc>')
+		expect(xml).toContain('<lastmod>2024-01-15</lastmod>')
+	})
+
+	it('declares the xhtml namespace when alternates are present', () => {
+		const xml = generateSitemap([createPost('a', { i18n: { es: { title: 'A es' } } })], {
+			siteUrl: 'https://example.com',
+			includeAlternates: true
+		})
+
+		expect(xml).toContain('xmlns:xhtml="http://www.w3.org/1999/xhtml"')
+		expect(xml).toContain('<xhtml:link rel="alternate" hreflang="es" href="https://example.com/es/blog/2024/01/a" />')
+	})
+
+	it('returns a sitemap index when URLs exceed the per-sitemap limit', () => {
+		const posts = Array.from({ length: 5 }, (_, i) => createPost(`post-${i}`))
+		const xml = generateSitemap(posts, { siteUrl: 'https://example.com', includeTaxonomies: false, maxUrlsPerSitemap: 4 })
+
+		expect(xml).toContain('<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">')
+		expect(xml).toContain('<loc>https://example.com/blog/sitemap.xml?page=1</loc>')
+		expect(xml).toContain('<loc>https://example.com/blog/sitemap.xml?page=2</loc>')
+		expect(xml).not.toContain('page=3')
+	})
+
+	it('returns the requested slice for a page of a split sitemap', () => {
+		const posts = Array.from({ length: 5 }, (_, i) => createPost(`post-${i}`))
+		const xml = generateSitemap(posts, { siteUrl: 'https://example.com', includeTaxonomies: false, maxUrlsPerSitemap: 4, page: 2 })
+
+		expect((xml.match(/<url>/g) || []).length).toBe(2)
+		expect(xml).toContain('post-4')
+	})
+
+	it('throws for pages out of range', () => {
+		expect(() => generateSitemap([], { siteUrl: 'https://example.com', page: 3 })).toThrow('out of range')
+	})
+})
@@ -0,0 +1,120 @@
+/**
+ * Structured Data Tests
+ *
+ * Search engines only use JSON-LD that is valid schema.org with absolute
+ * URLs, and the serialized JSON is embedded in a script element, so the tests
+ * cover both the built nodes and the escaping.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { buildPostJsonLd, buildStructuredData, serializeJsonLd } from '../utils/structuredData.js'
+import { defaultBlogConfig, type BlogConfig } from '../config/defaults.js'
+import type { ProcessedPost } from '../utils/blogUtils.js'
+
+vi.mock('../config/index.js', async () => ({
+	blogConfig: (await import('../config/defaults.js')).defaultBlogConfig,
+	defaultMessages: (await import('../config/defaultMessages.js')).defaultMessages,
+	getBlogVersion: () => ({ versionString: '1.0.0' }),
+	getBlogPostFiles: () => ({})
+}))
+
+const config: BlogConfig = {
+	...defaultBlogConfig,
+	seo: { ...defaultBlogConfig.seo, siteUrl: 'https://example.com' }
+}
+
+const post: ProcessedPost = {
+	metadata: {
+		fm: {
+			title: 'Caching in Svelte',
+			date: '2024-01-15',
+			updated: '2024-02-01',
+			excerpt: 'How we cache pages',
+			categories: [ 'Frontend' ],
+			tags: [ 'svelte', 'performance' ],
+			image: { src: '/images/cache.jpg', alt: 'A cache' },
+			author: { id: 'jane', name: 'Jane' }
+		}
+	},
+	date: '2024-01-15',
+	urlPath: '/2024/01/caching',
+	content: '<p>Cache <em>everything</em> you can.</p>'
+}
+
+describe('buildPostJsonLd', () => {
+	it('describes a post as a BlogPosting', () => {
+		expect(buildPostJsonLd(post, config)).toMatchObject({
+			'@context': 'https://schema.org',
+			'@type': 'BlogPosting',
+			headline: 'Caching in Svelte',
+			description: 'How we cache pages',
+			url: 'https://example.com/blog/2024/01/caching',
+			image: 'https://example.com/images/cache.jpg',
+			author: [ { '@type': 'Person', name: 'Jane', url: 'https://example.com/blog/author/jane' } ],
+			datePublished: '2024-01-15T00:00:00.000Z',
+			dateModified: '2024-02-01T00:00:00.000Z',
+			articleSection: 'Frontend',
+			keywords: 'svelte, performance',
+			wordCount: 4
+		})
+	})
+
+	it('omits fields the post does not have', () => {
+		const bare: ProcessedPost = { metadata: { fm: { title: 'Untitled', date: '2024-01-15' } }, date: '2024-01-15', urlPath: '/2024/01/untitled' }
+		const jsonLd = buildPostJsonLd(bare, { ...config, seo: { ...config.seo, ogImages: { path: '', format: 'svg' } } })
+
+		expect(jsonLd).not.toHaveProperty('image')
+		expect(jsonLd).not.toHaveProperty('keywords')
+		expect(jsonLd).not.toHaveProperty('wordCount')
+		expect(jsonLd['dateModified']).toBe(jsonLd['datePublished'])
+	})
+})
+
+describe('buildStructuredData', () => {
+	it('adds a BreadcrumbList to posts', () => {
+		const [ , breadcrumbs ] = buildStructuredData({ pageType: 'post', post }, config)
+
+		expect(breadcrumbs).toEqual({
+			'@context': 'https://schema.org',
+			'@type': 'BreadcrumbList',
+			itemListElement: [
+				{ '@type': 'ListItem', position: 1, name: 'Home', item: 'https://example.com/' },
+				{ '@type': 'ListItem', position: 2, name: 'Blog', item: 'https://example.com/blog' },
+				{ '@type': 'ListItem', position: 3, name: 'Frontend', item: 'https://example.com/blog/category/frontend' },
+				{ '@type': 'ListItem', position: 4, name: 'Caching in Svelte', item: 'https://example.com/blog/2024/01/caching' }
+			]
+		})
+	})
+
+	it('describes tag and category pages as a CollectionPage', () => {
+		const [ collection ] = buildStructuredData({ pageType: 'tag', tag: 'svelte', posts: [ post ] }, config)
+
+		expect(collection).toMatchObject({
+			'@type': 'CollectionPage',
+			name: 'svelte',
+			url: 'https://example.com/blog/tag/svelte',
+			mainEntity: {
+				'@type': 'ItemList',
+				itemListElement: [ { '@type': 'ListItem', position: 1, url: 'https://example.com/blog/2024/01/caching' } ]
+			}
+		})
+	})
+
+	it('describes the index as a Blog', () => {
+		const nodes = buildStructuredData({ pageType: 'index', posts: [ post ] }, config)
+
+		expect(nodes.map(node => node['@type'])).toEqual([ 'Blog', 'BreadcrumbList' ])
+		expect(nodes[0]?.['blogPost']).toEqual([
+			{ '@type': 'BlogPosting', headline: 'Caching in Svelte', url: 'https://example.com/blog/2024/01/caching', datePublished: '2024-01-15T00:00:00.000Z' }
+		])
+	})
+})
+
+describe('serializeJsonLd', () => {
+	it('escapes text that could close the script element', () => {
+		const json = serializeJsonLd({ headline: '</script><script>alert(1)</script> & more' })
+
+		expect(json).not.toMatch(/[<>&]/)
+		expect(JSON.parse(json)).toEqual({ headline: '</script><script>alert(1)</script> & more' })
+	})
+})
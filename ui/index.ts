@@ -1,14 +1,17 @@
 // UI component exports for @goo/blog package
+export { default as AuthorCard } from './AuthorCard.svelte'
 export { default as BlogCard } from './BlogCard.svelte'
 export { default as BlogLayout } from './BlogLayout.svelte'
 export { default as BlogListPage } from './BlogListPage.svelte'
 export { default as BlogPostPage } from './BlogPostPage.svelte'
 export { default as BlogRouter } from './BlogRouter.svelte'
+export { default as BlogSearch } from './BlogSearch.svelte'
 export { default as BlogSEO } from './BlogSEO.svelte'
 export { default as Breadcrumbs } from './Breadcrumbs.svelte'
 export { default as LanguageSwitcher } from './LanguageSwitcher.svelte'
 export { default as Newsletter } from './Newsletter.svelte'
 export { default as PostList } from './PostList.svelte'
+export { default as SeriesNav } from './SeriesNav.svelte'
 export { default as Sidebar } from './Sidebar.svelte'
 export { default as SocialShare } from './SocialShare.svelte'
 export { default as TagCategoryList } from './TagCategoryList.svelte'
\ No newline at end of file
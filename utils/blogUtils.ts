@@ -1,42 +1,12 @@
-import { blogConfig, getBlogVersion, getBlogPostFiles } from '../config/index.js'
+import { blogConfig, getBlogVersion, type FrontmatterValidationMode } from '../config/index.js'
 import { getPostReadTime } from './readTimeUtils.js'
 import { createLogger, type Logger } from './logger.js'
-
-// Declare Node.js globals for environments where @types/node may not be installed
-declare const process: { cwd: () => string } | undefined
-
-// Node.js module types for dynamic import
-type NodeFsPromises = {
-	access(path: string): Promise<void>
-	readFile(path: string, encoding: string): Promise<string>
-}
-
-type NodePath = {
-	join(...paths: string[]): string
-}
-
-// Helper to dynamically import Node.js fs module
-// Uses Function constructor to avoid bundler issues with dynamic imports
-async function getNodeFs(): Promise<NodeFsPromises | null> {
-	try {
-		// eslint-disable-next-line @typescript-eslint/no-implied-eval, @typescript-eslint/no-unsafe-call, no-new-func
-		const fs = await (Function('return import("fs")')() as Promise<{ promises: NodeFsPromises }>)
-		return fs.promises
-	} catch {
-		return null
-	}
-}
-
-// Helper to dynamically import Node.js path module
-// Uses Function constructor to avoid bundler issues with dynamic imports
-async function getNodePath(): Promise<NodePath | null> {
-	try {
-		// eslint-disable-next-line @typescript-eslint/no-implied-eval, @typescript-eslint/no-unsafe-call, no-new-func
-		return await (Function('return import("path")')() as Promise<NodePath>)
-	} catch {
-		return null
-	}
-}
+import { absolutizeUrls, markdownToHtml, toAbsoluteUrl, wrapCdata, type FeedContentRenderer } from './feedContent.js'
+import { reportMetadataDiagnostics, validatePostMetadata, type MetadataDiagnostic } from './frontmatterValidation.js'
+import { resolveContentSource } from './contentSource.js'
+import { LruCache, getCacheConfig, hashContent } from './cache.js'
+import { parseFrontmatter } from './frontmatter.js'
+import { BlogError, ErrorTypes } from './errorHandler.js'
 
 const logger: Logger = createLogger('BlogUtils')
 
@@ -50,11 +20,20 @@ export interface PostImage {
 
 // Post author interface
 export interface PostAuthor {
+	/** Id of the author in the author registry */
+	id?: string
 	name: string
 	avatar?: string
 	url?: string
+	role?: string
+	bio?: string
+	/** Profile URLs keyed by network, e.g. `twitter` or `github` */
+	social?: Record<string, string>
 }
 
+/** Author profiles from `_authors.md` or `_authors.json`, keyed by author id */
+export type AuthorRegistry = Record<string, PostAuthor>
+
 // i18n localization data
 export interface I18nData {
 	[langCode: string]: Partial<PostMetadata>
@@ -69,12 +48,22 @@ export interface PostMetadata {
 	category?: string | undefined
 	featured?: boolean | undefined
 	excerpt?: string | undefined
-	author?: PostAuthor | undefined
+	/** Author, inline or as an id in the author registry */
+	author?: PostAuthor | string | undefined
+	/** Co-authors in credit order, inline or by id */
+	authors?: (PostAuthor | string)[] | undefined
 	image?: PostImage | undefined
 	thumbnail?: PostImage | undefined
 	tags?: string[] | undefined
 	readTime?: number | undefined
 	updated?: string | undefined
+	draft?: boolean | undefined
+	publishAt?: string | undefined
+	unlisted?: boolean | undefined
+	/** Name of the series the post is part of */
+	series?: string | undefined
+	/** Position of the post in its series (1 for the first part) */
+	seriesOrder?: number | undefined
 	i18n?: I18nData | undefined
 }
 
@@ -86,6 +75,8 @@ export interface ProcessedPost {
 	date: string
 	urlPath: string
 	path?: string
+	/** Content source path the post was loaded from */
+	sourcePath?: string
 	content?: string
 	lang?: string
 }
@@ -96,22 +87,105 @@ export interface TaxonomyEntry {
 	lang?: string
 }
 
+/** Post count for one month of the archive */
+export interface ArchiveMonth {
+	year: string
+	/** Two-digit month, as used in post URLs */
+	month: string
+	count: number
+}
+
+/** Post counts for one year of the archive, with its months newest first */
+export interface ArchiveYear {
+	year: string
+	count: number
+	months: ArchiveMonth[]
+}
+
+/** A part of a series, as linked from the series navigation */
+export interface SeriesPart {
+	title: string
+	urlPath: string
+}
+
+/** Position of a post within its series */
+export interface SeriesNavigation {
+	/** Series name as written in frontmatter */
+	name: string
+	slug: string
+	/** Position of the post in the series, starting at 1 */
+	position: number
+	total: number
+	parts: SeriesPart[]
+	previous: SeriesPart | null
+	next: SeriesPart | null
+}
+
+/** The fields of a post needed to link to it */
+export interface PostSummary {
+	title: string
+	urlPath: string
+	date: string
+}
+
 // Category data from _categories.md file
 export interface CategoryData {
 	title?: string
 	description?: string
 	image?: string
 	alt?: string
+	/** Slug of the parent category */
+	parent?: string
+}
+
+// Canonical tag from the _tags.md registry
+export interface TagDefinition {
+	title?: string
+	description?: string
+	image?: string
+	alt?: string
+	/** Other spellings that resolve to this tag */
+	aliases?: string[]
+}
+
+/** Canonical tags keyed by slug */
+export type TagRegistry = Record<string, TagDefinition>
+
+/** A category and its subcategories, as rendered in navigation */
+export interface CategoryTreeNode {
+	slug: string
+	name: string
+	/** Slash-separated slugs from the root category, as used in category URLs */
+	path: string
+	/** Posts filed directly under this category */
+	count: number
+	/** Posts in this category and all of its subcategories */
+	totalCount: number
+	children: CategoryTreeNode[]
 }
 
-// RSS feed options
+/** Options for filterPostsByCategory */
+export interface CategoryFilterOptions {
+	/** Also match posts filed under subcategories */
+	includeDescendants?: boolean
+	/** Category descriptions declaring the parent of each category */
+	categories?: Record<string, CategoryData>
+}
+
+// Feed options shared by the RSS, Atom and JSON Feed generators
 export interface RssFeedOptions {
 	siteUrl: string
 	feedTitle?: string
 	feedDescription?: string
 	feedPath?: string
+	/** Path of the page the feed mirrors, e.g. a category page (defaults to the blog root) */
+	homePath?: string
 	maxItems?: number
 	language?: string
+	/** Embed the full post body in each item instead of only the excerpt (posts need `content` loaded) */
+	fullContent?: boolean
+	/** Custom renderer for the post body (defaults to a basic markdown renderer) */
+	renderContent?: FeedContentRenderer
 }
 
 // URL options for getBlogUrl
@@ -126,24 +200,86 @@ export interface GetAllPostsOptions {
 	lang?: string
 	includeContent?: boolean
 	includeLocalizedVersions?: boolean
+	/** Include drafts and posts scheduled for the future */
+	preview?: boolean
+	/** Include unlisted posts (reachable by URL but hidden from listings) */
+	includeUnlisted?: boolean
+	/** Frontmatter validation mode (defaults to blogConfig.posts.validation) */
+	validation?: FrontmatterValidationMode
+}
+
+// Find post options
+export interface FindPostOptions {
+	/** Four-digit year of the post URL; with month, narrows the lookup to one URL */
+	year?: string
+	/** Two-digit month of the post URL */
+	month?: string
+	lang?: string
+	/** Include drafts and posts scheduled for the future */
+	preview?: boolean
+	/** Load the matched post's body (default: true) */
+	includeContent?: boolean
+	/** Only link neighbors sharing the post's primary category */
+	sameCategory?: boolean
+	/** Frontmatter validation mode (defaults to blogConfig.posts.validation) */
+	validation?: FrontmatterValidationMode
 }
 
-// Post module from import
-interface PostModule {
-	metadata: PostMetadata
+// A post found by findPost with its chronological neighbors
+export interface PostLookup {
+	post: ProcessedPost
+	/** The next older published post in the same language */
+	previousPost: PostSummary | null
+	/** The next newer published post in the same language */
+	nextPost: PostSummary | null
 }
 
-// Type for post files from getBlogPostFiles
-type PostFilesRecord = Record<string, () => Promise<unknown>>
+// Positions in a cached post list by `year/month/slug` and by slug
+interface PostIndex {
+	byUrl: Map<string, number>
+	bySlug: Map<string, number[]>
+}
 
-// In-memory cache for blog posts to avoid re-reading files on every request
-interface CacheEntry {
-	posts: ProcessedPost[]
-	timestamp: number
+// Processed result of one post file for one set of load options
+interface PostFileEntry {
+	hash: string
+	posts: ProcessedPost | ProcessedPost[] | null
+	diagnostics: MetadataDiagnostic[]
 }
 
-const postsCache = new Map<string, CacheEntry>()
-const CACHE_TTL = 1000 * 60 * 5 // 5 minutes cache
+// In-memory caches to avoid re-reading files on every request:
+// - post lists per load options, expiring after cache.ttl
+// - processed post files, reused while their content hash is unchanged
+// - category descriptions, tag registries and author registries per language
+const postListCache = new LruCache<ProcessedPost[]>(() => {
+	const { enabled, maxEntries, ttl } = getCacheConfig()
+	return { maxEntries: enabled ? maxEntries : 0, ttl }
+})
+const postFileCache = new LruCache<PostFileEntry>(() => {
+	const { enabled, maxPosts } = getCacheConfig()
+	return { maxEntries: enabled ? maxPosts : 0, ttl: 0 }
+})
+const categoryCache = new LruCache<Record<string, CategoryData>>(() => {
+	const { enabled, maxEntries, ttl } = getCacheConfig()
+	return { maxEntries: enabled ? maxEntries : 0, ttl }
+})
+const tagCache = new LruCache<TagRegistry>(() => {
+	const { enabled, maxEntries, ttl } = getCacheConfig()
+	return { maxEntries: enabled ? maxEntries : 0, ttl }
+})
+const authorCache = new LruCache<AuthorRegistry>(() => {
+	const { enabled, maxEntries, ttl } = getCacheConfig()
+	return { maxEntries: enabled ? maxEntries : 0, ttl }
+})
+
+// Alias lookups of tag registries, dropped with the registries they index
+const tagAliasMaps = new WeakMap<TagRegistry, Map<string, string>>()
+
+// Lookup indexes of cached post lists, dropped with the lists they index
+const postIndexes = new WeakMap<ProcessedPost[], PostIndex>()
+
+// Separates the post path from the load options in postFileCache keys
+const FILE_KEY_SEPARATOR = '\u0000'
 
 // URL localizer function that can be set by the consuming app
 type UrlLocalizer = (url: string) => string
@@ -158,16 +294,78 @@ export function setUrlLocalizer(localizer: UrlLocalizer): void {
 }
 
 /**
- * Clear the blog posts cache (useful for development)
+ * Clear all blog caches: post lists, processed posts, category descriptions, tag and author registries
  */
 export function clearBlogCache(): void {
-	postsCache.clear()
+	postListCache.clear()
+	postFileCache.clear()
+	categoryCache.clear()
+	tagCache.clear()
+	authorCache.clear()
 	const config = blogConfig
 	if (config.debug) {
 		logger.info('Blog cache cleared')
 	}
 }
 
+/**
+ * Invalidate cached content for a changed file
+ *
+ * Post files drop their processed entries, `_categories*.md` files drop
+ * the category descriptions, `_tags*.md` files drop the tag registries and
+ * `_authors*` files drop the author registries. Post lists are rebuilt on
+ * next access, reusing every unchanged post.
+ *
+ * @param path - Changed file, as a post path (`@blog/2024/01/post.md`) or a filesystem path ending in the same relative path
+ */
+export function invalidateBlogCache(path: string): void {
+	const normalized = path.replace(/\\/g, '/')
+	const fileName = normalized.split('/').pop() ?? ''
+
+	if (/^_categories(\.[\w-]+)?\.md$/.test(fileName)) {
+		categoryCache.clear()
+	} else if (/^_tags(\.[\w-]+)?\.md$/.test(fileName)) {
+		tagCache.clear()
+	} else if (/^_authors(\.[\w-]+)?\.(md|json)$/.test(fileName)) {
+		authorCache.clear()
+	} else {
+		const basePath = blogConfig.posts.contentBasePath
+		postFileCache.deleteWhere(key => {
+			const postPath = key.split(FILE_KEY_SEPARATOR)[0] ?? ''
+			const relativePath = postPath.startsWith(basePath) ? postPath.slice(basePath.length) : postPath
+			return postPath === normalized || normalized.endsWith(`/${ relativePath.replace(/^\/+/, '') }`)
+		})
+	}
+
+	postListCache.clear()
+	if (blogConfig.debug) {
+		logger.info(`Blog cache invalidated for ${ path }`)
+	}
+}
+
+// Number of entries held by each blog cache
+export interface BlogCacheStats {
+	postLists: number
+	postFiles: number
+	categories: number
+	tags: number
+	authors: number
+}
+
+/**
+ * Get the number of entries in each blog cache
+ * @returns Cache sizes
+ */
+export function getBlogCacheStats(): BlogCacheStats {
+	return {
+		postLists: postListCache.size,
+		postFiles: postFileCache.size,
+		categories: categoryCache.size,
+		tags: tagCache.size,
+		authors: authorCache.size
+	}
+}
+
 /**
  * Validates that posts is a non-empty array
  * @param posts - Value to validate
@@ -285,14 +483,60 @@ export function getPostCategories(post: ProcessedPost | null | undefined): strin
 	return []
 }
 
+/**
+ * Resolve one author entry of a post's frontmatter
+ * @param entry - Author id, name or inline profile
+ * @param registry - Author registry
+ * @returns The author with an id, or null for empty entries
+ */
+function resolvePostAuthor(entry: PostAuthor | string | undefined, registry: AuthorRegistry): PostAuthor | null {
+	if (typeof entry === 'string') {
+		const id = slugify(entry)
+		if (!id) { return null }
+		// Ids missing from the registry are taken as author names
+		return Object.hasOwn(registry, id) ? registry[id] ?? null : { id, name: entry.trim() }
+	}
+	if (!entry?.name) { return null }
+
+	// Inline profiles override the registry profile of the same id field by field
+	const id = entry.id ? slugify(entry.id) : slugify(entry.name)
+	const profile = Object.hasOwn(registry, id) ? registry[id] : undefined
+	return { ...profile, ...entry, id }
+}
+
+/**
+ * Get the authors of a post, resolving author ids against the registry
+ *
+ * Authors come from `author` and then `authors`, without duplicates.
+ *
+ * @param post - The post to extract authors from
+ * @param registry - Author registry
+ * @returns Authors in credit order, each with an id
+ */
+export function getPostAuthors(post: ProcessedPost | null | undefined, registry: AuthorRegistry = {}): PostAuthor[] {
+	if (!post?.metadata?.fm) { return [] }
+
+	const { author, authors } = post.metadata.fm
+	const resolved = new Map<string, PostAuthor>()
+	;[ author, ...(Array.isArray(authors) ? authors : []) ].forEach(entry => {
+		const resolvedAuthor = resolvePostAuthor(entry, registry)
+		if (resolvedAuthor?.id && !resolved.has(resolvedAuthor.id)) {
+			resolved.set(resolvedAuthor.id, resolvedAuthor)
+		}
+	})
+	return [ ...resolved.values() ]
+}
+
 /**
  * Get tags from a post with proper fallbacks
  * @param post - The post to extract tags from
+ * @param registry - Tag registry to normalize aliases and spelling variants against
  * @returns Array of tags
  */
-export function getPostTags(post: ProcessedPost | null | undefined): string[] {
+export function getPostTags(post: ProcessedPost | null | undefined, registry?: TagRegistry): string[] {
 	if (!post?.metadata?.fm) { return [] }
-	return Array.isArray(post.metadata.fm.tags) ? post.metadata.fm.tags : []
+	const tags = Array.isArray(post.metadata.fm.tags) ? post.metadata.fm.tags : []
+	return registry ? [ ...new Set(tags.map(tag => normalizeTag(tag, registry))) ] : tags
 }
 
 // Type for extractor function
@@ -384,24 +628,32 @@ export function generateTaxonomyEntries(
  * @param posts - Array of processed posts
  * @param categorySlug - Slugified category to filter by
  * @param slugifyFn - Function to convert categories to slugs
+ * @param options - Whether to include posts filed under subcategories
  * @returns Array of posts in the specified category
  */
 export function filterPostsByCategory(
 	posts: ProcessedPost[],
 	categorySlug: string,
-	slugifyFn: SlugifyFn
+	slugifyFn: SlugifyFn,
+	options: CategoryFilterOptions = {}
 ): ProcessedPost[] {
+	const { includeDescendants = false, categories = {} } = options
+	const slugs = new Set([
+		categorySlug,
+		...(includeDescendants ? getCategoryDescendants(categorySlug, categories) : [])
+	])
+
 	return posts.filter(post => {
 		// Check if it matches in categories array
 		const hasMatchingCategoryArray = Array.isArray(post.metadata.fm.categories) &&
-			post.metadata.fm.categories.some((cat: string) => slugifyFn(cat) === categorySlug)
+			post.metadata.fm.categories.some((cat: string) => slugs.has(slugifyFn(cat)))
 
 		// Check if it matches the singular category field
 		const hasMatchingSingularCategory = typeof post.metadata.fm.category === 'string' &&
-			slugifyFn(post.metadata.fm.category) === categorySlug
+			slugs.has(slugifyFn(post.metadata.fm.category))
 
 		// Check if this term exists as a tag but not as a category (to filter out)
-		const isTagOnly = post.metadata.fm.tags?.some((tag: string) => slugifyFn(tag) === categorySlug) &&
+		const isTagOnly = post.metadata.fm.tags?.some((tag: string) => slugs.has(slugifyFn(tag))) &&
 			!hasMatchingCategoryArray && !hasMatchingSingularCategory
 
 		// Include if it matches either category format and is not exclusively a tag
@@ -414,27 +666,33 @@ export function filterPostsByCategory(
  * @param posts - Array of processed posts
  * @param tagSlug - Slugified tag to filter by
  * @param slugifyFn - Function to convert tags to slugs
+ * @param registry - Tag registry resolving aliases to canonical tags
  * @returns Array of posts with the specified tag
  */
 export function filterPostsByTag(
 	posts: ProcessedPost[],
 	tagSlug: string,
-	slugifyFn: SlugifyFn
+	slugifyFn: SlugifyFn,
+	registry?: TagRegistry
 ): ProcessedPost[] {
+	// With a registry, aliases and the canonical tag all match each other
+	const canonicalSlug = resolveTagSlug(tagSlug, registry)
+	const matchesTag = (tag: string): boolean => resolveTagSlug(slugifyFn(tag), registry) === canonicalSlug
+
 	return posts.filter(post => {
 		// Check if it's in the tags array
-		const hasMatchingTag = post.metadata.fm.tags?.some((tag: string) => slugifyFn(tag) === tagSlug)
+		const hasMatchingTag = post.metadata.fm.tags?.some(matchesTag)
 
 		// Ensure it's actually a tag, not just a similarly named category
 		const isCategoryOnly = (
 			// Check if it's also in categories but not in tags
 			(Array.isArray(post.metadata.fm.categories) &&
 				post.metadata.fm.categories.some((cat: string) => slugifyFn(cat) === tagSlug) &&
-				!post.metadata.fm.tags?.some((tag: string) => slugifyFn(tag) === tagSlug)) ||
+				!post.metadata.fm.tags?.some(matchesTag)) ||
 			// Or check if it's the singular category
 			(typeof post.metadata.fm.category === 'string' &&
 				slugifyFn(post.metadata.fm.category) === tagSlug &&
-				!post.metadata.fm.tags?.some((tag: string) => slugifyFn(tag) === tagSlug))
+				!post.metadata.fm.tags?.some(matchesTag))
 		)
 
 		// Only include if it's truly a tag and not just a similarly named category
@@ -442,6 +700,17 @@ export function filterPostsByTag(
 	})
 }
 
+/**
+ * Filter posts by one of their authors
+ * @param posts - Array of processed posts
+ * @param authorId - Author id (a registry key, or the slugified name of an inline author)
+ * @returns Array of posts credited to the author
+ */
+export function filterPostsByAuthor(posts: ProcessedPost[], authorId: string): ProcessedPost[] {
+	const id = slugify(authorId)
+	return posts.filter(post => getPostAuthors(post).some(author => author.id === id))
+}
+
 /**
  * Find the original (non-slugified) name of a taxonomy term
  * @param posts - Array of processed posts
@@ -461,209 +730,808 @@ export function getOriginalTaxonomyName(
 }
 
 /**
- * Parse the categories description file to get metadata for categories
- * @param fileContent - Content of the _categories.md file
- * @returns Category data keyed by slugified category name
+ * Get the archive year and month of a post from its URL path
+ * @param post - The post to read
+ * @returns Year and two-digit month, or null for posts without a dated URL
  */
-export function parseCategoryDescriptions(fileContent: string): Record<string, CategoryData> {
-	// Extract the frontmatter content between --- markers
-	const frontmatterMatch = fileContent.match(/^---\n([\s\S]*?)\n---/)
-
-	if (!frontmatterMatch?.[1]) {
-		return {}
-	}
+function getPostArchiveDate(post: ProcessedPost): { year: string, month: string } | null {
+	const match = /^\/(\d{4})\/(\d{2})\//.exec(post.urlPath)
+	if (!match?.[1] || !match[2]) { return null }
+	return { year: match[1], month: match[2] }
+}
 
-	// Parse the YAML-like structure manually
-	const lines = frontmatterMatch[1].split('\n')
-	const categoryData: Record<string, CategoryData> = {}
+/**
+ * Filter posts by the year, and optionally the month, in their URL
+ * @param posts - Array of processed posts
+ * @param year - Four-digit year
+ * @param month - Two-digit month
+ * @returns Array of posts published in that period
+ */
+export function filterPostsByDate(posts: ProcessedPost[], year: string, month?: string | null): ProcessedPost[] {
+	return posts.filter(post => {
+		const date = getPostArchiveDate(post)
+		return date?.year === year && (!month || date.month === month)
+	})
+}
 
-	let currentCategory: string | null = null
+/**
+ * Count posts per year and month for archive navigation
+ * @param posts - Array of processed posts
+ * @returns Archive years newest first, each with its months newest first
+ */
+export function getArchiveSummary(posts: ProcessedPost[]): ArchiveYear[] {
+	const years = new Map<string, Map<string, number>>()
 
-	for (const line of lines) {
-		// Skip empty lines
-		if (!line.trim()) { continue }
+	posts.forEach(post => {
+		const date = getPostArchiveDate(post)
+		if (!date) { return }
 
-		// Check for main category definition (key:)
-		const categoryMatch = line.match(/^([a-z0-9-]+):\s*$/)
-		if (categoryMatch?.[1]) {
-			currentCategory = categoryMatch[1]
-			categoryData[currentCategory] = {}
-			continue
-		}
+		const months = years.get(date.year) ?? new Map<string, number>()
+		months.set(date.month, (months.get(date.month) ?? 0) + 1)
+		years.set(date.year, months)
+	})
 
-		// If we're in a category definition, look for properties
-		if (currentCategory) {
-			const propMatch = line.match(/^\s\s([a-z-]+):\s*"(.+)"$/) || line.match(/^\s\s([a-z-]+):\s*(.+)$/)
-			if (propMatch) {
-				const [ , propName, propValue ] = propMatch
-				if (propName && propValue) {
-					const category = categoryData[currentCategory]
-					if (category) {
-						(category as Record<string, string>)[propName] = propValue.replace(/^"(.*)"$/, '$1')
-					}
-				}
+	return [ ...years ]
+		.sort(([ a ], [ b ]) => b.localeCompare(a))
+		.map(([ year, months ]) => {
+			const archiveMonths = [ ...months ]
+				.sort(([ a ], [ b ]) => b.localeCompare(a))
+				.map(([ month, count ]) => ({ year, month, count }))
+
+			return {
+				year,
+				count: archiveMonths.reduce((total, { count }) => total + count, 0),
+				months: archiveMonths
 			}
-		}
-	}
-
-	return categoryData
+		})
 }
 
 /**
- * Load category descriptions from the _categories.md file
- * @param lang - Optional language code for localized category files
- * @returns Category data
+ * Get the posts of a series in reading order
+ *
+ * Parts are ordered by `seriesOrder`; parts without one follow, oldest first.
+ *
+ * @param posts - Array of processed posts
+ * @param seriesSlug - Slugified series name
+ * @returns Posts of the series, first part first
  */
-export async function loadCategoryDescriptions(lang = 'en'): Promise<Record<string, CategoryData>> {
-	if (typeof process === 'undefined') {
-		logger.warn('loadCategoryDescriptions requires Node.js environment')
-		return {}
-	}
+export function getSeries(posts: ProcessedPost[], seriesSlug: string): ProcessedPost[] {
+	return posts
+		.filter(post => post.metadata.fm.series !== undefined && slugify(post.metadata.fm.series) === seriesSlug)
+		.sort((a, b) => {
+			const orderA = a.metadata.fm.seriesOrder ?? Infinity
+			const orderB = b.metadata.fm.seriesOrder ?? Infinity
+			return orderA === orderB
+				? new Date(a.date).getTime() - new Date(b.date).getTime()
+				: orderA - orderB
+		})
+}
 
-	// Get Node.js modules
-	const fs = await getNodeFs()
-	const path = await getNodePath()
+/**
+ * Get the position of a post in its series and links to the other parts
+ * @param posts - Array of processed posts in the post's language
+ * @param post - The current post
+ * @returns Series navigation, or null when the post is not part of a listed series
+ */
+export function getSeriesNavigation(posts: ProcessedPost[], post: ProcessedPost): SeriesNavigation | null {
+	const name = post.metadata.fm.series
+	if (!name) { return null }
+
+	const slug = slugify(name)
+	const parts: SeriesPart[] = getSeries(posts, slug).map(part => ({
+		title: part.metadata.fm.title,
+		urlPath: part.urlPath
+	}))
+	const index = parts.findIndex(part => part.urlPath === post.urlPath)
+	if (index === -1) { return null }
 
-	if (!fs || !path) {
-		logger.warn('Node.js fs or path module not available')
-		return {}
+	return {
+		name,
+		slug,
+		position: index + 1,
+		total: parts.length,
+		parts,
+		previous: parts[index - 1] ?? null,
+		next: parts[index + 1] ?? null
 	}
+}
 
-	// First try to load language-specific category file if it exists
-	let categoriesPath = path.join(process?.cwd() ?? '', `src/content/_categories.${ lang }.md`)
+// Text fields shared by category and tag entries
+const TAXONOMY_TEXT_FIELDS = [ 'title', 'description', 'image', 'alt' ] as const
 
-	// Check if language-specific file exists, otherwise fall back to default
+/** Format of a taxonomy file: YAML frontmatter in markdown, or a JSON object */
+export type TaxonomyFileFormat = 'markdown' | 'json'
+
+/**
+ * Parse a JSON taxonomy file into its top-level object
+ * @throws BlogError With type INVALID_METADATA for malformed JSON or a value that is not an object
+ */
+function parseJsonTaxonomyFile(fileContent: string, kind: string): Record<string, unknown> {
+	let data: unknown
 	try {
-		await fs.access(categoriesPath)
-	} catch {
-		// Fallback to default if language-specific file doesn't exist
-		categoriesPath = path.join(process?.cwd() ?? '', 'src/content/_categories.md')
+		data = JSON.parse(fileContent)
+	} catch (parseError) {
+		const errorMessage = parseError instanceof Error ? parseError.message : String(parseError)
+		throw new BlogError(`Invalid ${ kind } file: ${ errorMessage }`, ErrorTypes.INVALID_METADATA)
 	}
 
-	try {
-		const fileContent = await fs.readFile(categoriesPath, 'utf-8')
-		return parseCategoryDescriptions(fileContent)
-	} catch (readError) {
-		const errorMessage = readError instanceof Error ? readError.message : String(readError)
-		logger.warn(`Could not read category descriptions file: ${ errorMessage }`)
-		return {}
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw new BlogError(`Invalid ${ kind } file: expected an object keyed by ${ kind }`, ErrorTypes.INVALID_METADATA)
 	}
+	return data as Record<string, unknown>
 }
 
 /**
- * Add language prefix to URL if i18n is enabled and configured to include language in URL
- * Using Paraglide's localizeHref function for URL localization
- * @param url - The URL to localize
- * @returns Localized URL with language prefix if needed
+ * Parse the YAML frontmatter (or JSON) of a taxonomy file into its entries
+ * @param fileContent - Content of a `_categories.md`, `_tags.md` or `_authors.md` file
+ * @param kind - Entry kind used in error messages
+ * @param format - File format
+ * @returns Entry fields keyed by top-level key, in file order
+ * @throws BlogError With type MARKDOWN_PARSE for malformed YAML, or INVALID_METADATA when an entry is not a mapping
  */
-export function localizeUrl(url: string): string {
-	const config = blogConfig
-	// Skip if i18n is not enabled or includeLanguageInURL is disabled
-	if (!config.i18n?.enabled || !config.i18n.includeLanguageInURL) {
-		return url
+function parseTaxonomyFile(
+	fileContent: string,
+	kind: string,
+	format: TaxonomyFileFormat = 'markdown'
+): Map<string, Record<string, unknown>> {
+	const entries = new Map<string, Record<string, unknown>>()
+	const data = format === 'json' ? parseJsonTaxonomyFile(fileContent, kind) : parseFrontmatter(fileContent).data
+
+	for (const [ key, value ] of Object.entries(data)) {
+		// A key with no fields is allowed, e.g. to declare a parent category
+		if (value === null) {
+			entries.set(key, {})
+		} else if (typeof value === 'object' && !Array.isArray(value)) {
+			entries.set(key, value as Record<string, unknown>)
+		} else {
+			throw new BlogError(`Invalid ${ kind } "${ key }": expected a mapping of fields`, ErrorTypes.INVALID_METADATA, { key })
+		}
 	}
 
-	// Use the injected URL localizer to add the locale prefix
-	return _localizeUrl(url)
+	return entries
 }
 
 /**
- * Generate URL for a blog post
- * @param post - The post to generate URL for
- * @param withLanguage - Whether to add language prefix
- * @returns Relative URL to the post
+ * Read a text field of a taxonomy entry in one language
+ *
+ * Translations are given as `title.es: …` or as a mapping `title: { en: …, es: … }`.
+ * The plain value is the fallback, then the default language of a mapping.
+ *
+ * @param fields - Entry fields
+ * @param field - Field name
+ * @param lang - Language code
+ * @param context - Entry description used in error messages
+ * @returns The text, or undefined when the field is not set
+ * @throws BlogError With type INVALID_METADATA when the field is not text
  */
-export function getPostUrl(post: ProcessedPost | null | undefined, withLanguage = false): string {
-	const config = blogConfig
-	if (!post?.urlPath) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
-	const url = `${ config.uri }${ post.urlPath }`
-	return withLanguage ? _localizeUrl(url) : url
+function getLocalizedField(fields: Record<string, unknown>, field: string, lang: string, context: string): string | undefined {
+	const value = fields[field]
+	const translations = typeof value === 'object' && value !== null && !Array.isArray(value)
+		? value as Record<string, unknown>
+		: null
+	const localized = fields[`${ field }.${ lang }`] ??
+		(translations ? translations[lang] ?? translations[blogConfig.i18n?.defaultLanguage ?? 'en'] : value)
+
+	if (localized === undefined || localized === null) { return undefined }
+	if (typeof localized !== 'string' && typeof localized !== 'number') {
+		throw new BlogError(`Invalid ${ context }: "${ field }" must be text`, ErrorTypes.INVALID_METADATA, { field })
+	}
+	return String(localized).trim()
 }
 
 /**
- * Generate URL for a category
- * @param category - The category name
- * @param withLanguage - Whether to add language prefix
- * @returns Relative URL to the category
+ * Read the shared text fields of a taxonomy entry in one language
+ * @returns Fields that are set
  */
-export function getCategoryUrl(category: string | null | undefined, withLanguage = false): string {
-	const config = blogConfig
-	if (!category) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
-	const url = `${ config.uri }/category/${ slugify(category) }`
-	return withLanguage ? _localizeUrl(url) : url
+function getTaxonomyTextFields(fields: Record<string, unknown>, lang: string, context: string): Pick<CategoryData, typeof TAXONOMY_TEXT_FIELDS[number]> {
+	const result: Pick<CategoryData, typeof TAXONOMY_TEXT_FIELDS[number]> = {}
+	TAXONOMY_TEXT_FIELDS.forEach(field => {
+		const value = getLocalizedField(fields, field, lang, context)
+		if (value !== undefined) { result[field] = value }
+	})
+	return result
 }
 
 /**
- * Generate URL for a tag
- * @param tag - The tag name
- * @param withLanguage - Whether to add language prefix
- * @returns Relative URL to the tag
+ * Parse the categories description file to get metadata for categories
+ *
+ * The file's frontmatter maps category slugs (or `parent/child` paths) to
+ * their `title`, `description`, `image`, `alt` and `parent`. Text fields can
+ * be translated with `title.es: …` or `title: { en: …, es: … }`.
+ *
+ * @param fileContent - Content of the _categories.md file
+ * @param lang - Language to read translated fields in
+ * @returns Category data keyed by slugified category name
+ * @throws BlogError With type MARKDOWN_PARSE or INVALID_METADATA when the file is malformed
  */
-export function getTagUrl(tag: string | null | undefined, withLanguage = false): string {
-	const config = blogConfig
-	if (!tag) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
-	const url = `${ config.uri }/tag/${ slugify(tag) }`
-	return withLanguage ? _localizeUrl(url) : url
+export function parseCategoryDescriptions(fileContent: string, lang = 'en'): Record<string, CategoryData> {
+	const categoryData: Record<string, CategoryData> = {}
+
+	// Keys are names, or paths as shorthand for declaring the parent
+	for (const [ key, fields ] of parseTaxonomyFile(fileContent, 'category')) {
+		const segments = key.split('/').map(segment => slugify(segment)).filter(segment => segment)
+		const slug = segments[segments.length - 1]
+		if (!slug) {
+			throw new BlogError(`Invalid category "${ key }": the name has no letters or digits`, ErrorTypes.INVALID_METADATA, { key })
+		}
+
+		const context = `category "${ key }"`
+		const declaredParent = getLocalizedField(fields, 'parent', lang, context)
+
+		// Parents may be given by name or path; only the last slug is kept
+		const parent = declaredParent
+			? slugify(declaredParent.split('/').pop() ?? declaredParent)
+			: segments[segments.length - 2]
+
+		categoryData[slug] = {
+			...getTaxonomyTextFields(fields, lang, context),
+			...(parent ? { parent } : {})
+		}
+	}
+
+	return categoryData
 }
 
 /**
- * Get excerpt from a post with proper fallbacks and length control
- * @param post - The post to extract excerpt from
- * @param maxLength - Maximum length of excerpt
- * @returns Post excerpt
+ * Parse the tag registry file declaring canonical tags and their aliases
+ *
+ * The file's frontmatter maps canonical tag slugs to their `title`,
+ * `description`, `image`, `alt` and `aliases` (a list, or comma-separated).
+ * Text fields are translated the same way as in `_categories.md`.
+ *
+ * @param fileContent - Content of the _tags.md file
+ * @param lang - Language to read translated fields in
+ * @returns Tag definitions keyed by canonical tag slug
+ * @throws BlogError With type MARKDOWN_PARSE or INVALID_METADATA when the file is malformed
  */
-export function getPostExcerpt(post: ProcessedPost | null | undefined, maxLength?: number): string {
-	const config = blogConfig
-	const limit = maxLength ?? config.posts.excerptLength
-	if (!post?.metadata?.fm) { return '' }
+export function parseTagRegistry(fileContent: string, lang = 'en'): TagRegistry {
+	const registry: TagRegistry = {}
 
-	let excerpt = post.metadata.fm.excerpt || ''
+	for (const [ key, fields ] of parseTaxonomyFile(fileContent, 'tag')) {
+		const slug = slugify(key)
+		if (!slug) {
+			throw new BlogError(`Invalid tag "${ key }": the name has no letters or digits`, ErrorTypes.INVALID_METADATA, { key })
+		}
 
-	if (!excerpt && post.content) {
-		excerpt = post.content
-			.replace(/<[^>]*>/g, '')
-			.replace(/[#*_~`]/g, '')
-			.replace(/\n+/g, ' ')
-			.trim()
-			.substring(0, limit * 2)
-	}
+		const { aliases } = fields
+		const aliasList = typeof aliases === 'string' ? aliases.split(',') : aliases ?? []
+		if (!Array.isArray(aliasList) || !aliasList.every(alias => typeof alias === 'string' || typeof alias === 'number')) {
+			throw new BlogError(`Invalid tag "${ key }": "aliases" must be a list of names`, ErrorTypes.INVALID_METADATA, { key })
+		}
+		const names = aliasList.map(alias => String(alias).trim()).filter(alias => alias)
 
-	if (excerpt.length > limit) {
-		const truncated = excerpt.substring(0, limit)
-		const lastSpace = truncated.lastIndexOf(' ')
-		excerpt = lastSpace > 0 ? truncated.substring(0, lastSpace) : truncated
-		excerpt += '...'
+		registry[slug] = {
+			...getTaxonomyTextFields(fields, lang, `tag "${ key }"`),
+			...(names.length ? { aliases: names } : {})
+		}
 	}
 
-	return excerpt
+	return registry
 }
 
 /**
- * Generate URL for various blog entities with a unified interface
- * @param options - URL generation options
- * @returns Generated URL
+ * Get the lookup from canonical and alias slugs to canonical slugs, built once per registry
+ * @param registry - Tag registry
+ * @returns Map of slug to canonical slug
  */
-export function getBlogUrl(options: BlogUrlOptions): string {
-	const config = blogConfig
-	const { type, data, withLanguage = false } = options
+function getTagAliasMap(registry: TagRegistry): Map<string, string> {
+	const existing = tagAliasMaps.get(registry)
+	if (existing) { return existing }
+
+	const aliasMap = new Map<string, string>()
+	Object.entries(registry).forEach(([ slug, definition ]) => {
+		aliasMap.set(slug, slug)
+		if (definition.title) { aliasMap.set(slugify(definition.title), slug) }
+	})
+	Object.entries(registry).forEach(([ slug, definition ]) => {
+		definition.aliases?.forEach(alias => {
+			const aliasSlug = slugify(alias)
+			const existingSlug = aliasMap.get(aliasSlug)
+			if (existingSlug !== undefined && existingSlug !== slug) {
+				logger.warn(`Tag alias "${ alias }" of "${ slug }" is already used by "${ existingSlug }"`)
+				return
+			}
+			aliasMap.set(aliasSlug, slug)
+		})
+	})
 
-	switch (type) {
-	case 'post':
-		return getPostUrl(data as ProcessedPost, withLanguage)
-	case 'category':
-		return getCategoryUrl(data as string, withLanguage)
-	case 'tag':
-		return getTagUrl(data as string, withLanguage)
-	case 'blog':
-		return withLanguage ? _localizeUrl(config.uri) : config.uri
-	default:
-		return withLanguage ? _localizeUrl('/') : '/'
-	}
+	tagAliasMaps.set(registry, aliasMap)
+	return aliasMap
 }
 
 /**
- * Process an image path to handle different sources consistently
- * @param imagePath - The raw image path or URL
+ * Resolve a tag slug, which may be an alias, to its canonical slug
+ * @param tagSlug - Slugified tag
+ * @param registry - Tag registry from _tags.md
+ * @returns Canonical slug, or the given slug for tags not in the registry
+ */
+export function resolveTagSlug(tagSlug: string, registry: TagRegistry = {}): string {
+	return getTagAliasMap(registry).get(tagSlug) ?? tagSlug
+}
+
+/**
+ * Normalize a tag to the canonical tag it is an alias or spelling variant of
+ * @param tag - Tag as written in frontmatter
+ * @param registry - Tag registry from _tags.md
+ * @returns Canonical tag title, or the tag unchanged if it is not in the registry
+ */
+export function normalizeTag(tag: string, registry: TagRegistry = {}): string {
+	const slug = getTagAliasMap(registry).get(slugify(tag))
+	if (slug === undefined) { return tag }
+	return registry[slug]?.title ?? slug
+}
+
+// Optional text fields of an author profile
+const AUTHOR_TEXT_FIELDS = [ 'avatar', 'url', 'role', 'bio' ] as const
+
+/**
+ * Parse the author registry declaring author profiles by id
+ *
+ * Each entry has a `name` and optionally `avatar`, `url`, `role`, `bio` and
+ * `social` (profile URLs keyed by network). Text fields are translated the
+ * same way as in `_categories.md`.
+ *
+ * @param fileContent - Content of the _authors.md or _authors.json file
+ * @param lang - Language to read translated fields in
+ * @param format - File format
+ * @returns Author profiles keyed by author id
+ * @throws BlogError With type MARKDOWN_PARSE or INVALID_METADATA when the file is malformed
+ */
+export function parseAuthorRegistry(fileContent: string, lang = 'en', format: TaxonomyFileFormat = 'markdown'): AuthorRegistry {
+	const registry: AuthorRegistry = {}
+
+	for (const [ key, fields ] of parseTaxonomyFile(fileContent, 'author', format)) {
+		const id = slugify(key)
+		const context = `author "${ key }"`
+		const name = getLocalizedField(fields, 'name', lang, context)
+		if (!id) {
+			throw new BlogError(`Invalid ${ context }: the id has no letters or digits`, ErrorTypes.INVALID_METADATA, { key })
+		}
+		if (!name) {
+			throw new BlogError(`Invalid ${ context }: "name" is required`, ErrorTypes.INVALID_METADATA, { key })
+		}
+
+		const author: PostAuthor = { id, name }
+		AUTHOR_TEXT_FIELDS.forEach(field => {
+			const value = getLocalizedField(fields, field, lang, context)
+			if (value) { author[field] = value }
+		})
+
+		const { social } = fields
+		if (social !== undefined && social !== null) {
+			const links = typeof social === 'object' && !Array.isArray(social) ? Object.entries(social) : null
+			if (!links?.every(([ , url ]) => typeof url === 'string')) {
+				throw new BlogError(`Invalid ${ context }: "social" must map networks to URLs`, ErrorTypes.INVALID_METADATA, { key })
+			}
+			author.social = Object.fromEntries(links) as Record<string, string>
+		}
+
+		registry[id] = author
+	}
+
+	return registry
+}
+
+/**
+ * Get the chain of category slugs from the root category down to a category
+ * @param categorySlug - Slug of the category
+ * @param categories - Category descriptions declaring parents
+ * @returns Slugs from the root to the category itself
+ */
+export function getCategoryPath(categorySlug: string, categories: Record<string, CategoryData>): string[] {
+	const path = [ categorySlug ]
+	let parent = Object.hasOwn(categories, categorySlug) ? categories[categorySlug]?.parent : undefined
+
+	while (parent) {
+		if (path.includes(parent)) {
+			logger.warn(`Category "${ categorySlug }" has a circular parent chain`)
+			break
+		}
+		path.unshift(parent)
+		parent = Object.hasOwn(categories, parent) ? categories[parent]?.parent : undefined
+	}
+
+	return path
+}
+
+/**
+ * Get the slugs of all subcategories of a category, at any depth
+ * @param categorySlug - Slug of the category
+ * @param categories - Category descriptions declaring parents
+ * @returns Slugs of every descendant category
+ */
+export function getCategoryDescendants(categorySlug: string, categories: Record<string, CategoryData>): string[] {
+	return Object.keys(categories).filter(slug =>
+		slug !== categorySlug && getCategoryPath(slug, categories).includes(categorySlug)
+	)
+}
+
+/**
+ * Build the category tree shown in navigation from post categories and declared parents
+ * @param posts - Array of processed posts
+ * @param categories - Category descriptions declaring parents and titles
+ * @returns Root categories with nested children, busiest first
+ */
+export function buildCategoryTree(posts: ProcessedPost[], categories: Record<string, CategoryData>): CategoryTreeNode[] {
+	const nodes = new Map<string, CategoryTreeNode>()
+
+	const getNode = (slug: string, name?: string): CategoryTreeNode => {
+		let node = nodes.get(slug)
+		if (!node) {
+			const declared = Object.hasOwn(categories, slug) ? categories[slug] : undefined
+			node = {
+				slug,
+				name: declared?.title ?? name ?? slug,
+				path: getCategoryPath(slug, categories).join('/'),
+				count: 0,
+				totalCount: 0,
+				children: []
+			}
+			nodes.set(slug, node)
+		}
+		return node
+	}
+
+	posts.forEach(post => {
+		const seen = new Set<string>()
+		getPostCategories(post).forEach(name => {
+			const slug = slugify(name)
+			getNode(slug, name).count++
+
+			// Count the post once for each ancestor, even if filed under several of its children
+			getCategoryPath(slug, categories).forEach(ancestor => {
+				if (seen.has(ancestor)) { return }
+				seen.add(ancestor)
+				getNode(ancestor).totalCount++
+			})
+		})
+	})
+
+	// Every ancestor already has a node, so parents can be looked up directly
+	const roots: CategoryTreeNode[] = []
+	for (const node of nodes.values()) {
+		const path = node.path.split('/')
+		const parent = nodes.get(path[path.length - 2] ?? '')
+		if (parent) {
+			parent.children.push(node)
+		} else {
+			roots.push(node)
+		}
+	}
+
+	const sortNodes = (list: CategoryTreeNode[]): CategoryTreeNode[] => {
+		list.sort((a, b) => b.totalCount - a.totalCount || a.name.localeCompare(b.name))
+		list.forEach(node => sortNodes(node.children))
+		return list
+	}
+
+	return sortNodes(roots)
+}
+
+/**
+ * Load category descriptions from the _categories.md file of the content source
+ * @param lang - Optional language code for localized category files
+ * @returns Category data
+ */
+export async function loadCategoryDescriptions(lang = 'en'): Promise<Record<string, CategoryData>> {
+	const cached = categoryCache.get(lang)
+	if (cached) { return cached }
+
+	const source = resolveContentSource()
+
+	try {
+		// Prefer the language-specific file, falling back to the default one
+		const fileContent = await source.readContentFile(`_categories.${ lang }.md`) ??
+			await source.readContentFile('_categories.md')
+
+		if (fileContent === null) {
+			logger.warn('Could not read category descriptions file: _categories.md not found')
+			return {}
+		}
+
+		const descriptions = parseCategoryDescriptions(fileContent, lang)
+		categoryCache.set(lang, descriptions)
+		return descriptions
+	} catch (readError) {
+		// Strict validation fails the build on a malformed file, like malformed post frontmatter
+		if (readError instanceof BlogError && blogConfig.posts?.validation === 'strict') {
+			throw readError
+		}
+		const errorMessage = readError instanceof Error ? readError.message : String(readError)
+		logger.warn(`Could not read category descriptions file: ${ errorMessage }`)
+		return {}
+	}
+}
+
+/**
+ * Load the tag registry from the _tags.md file of the content source
+ *
+ * The registry is optional; without one, tags are used as written.
+ *
+ * @param lang - Optional language code for localized tag files
+ * @returns Tag definitions keyed by canonical tag slug
+ */
+export async function loadTagRegistry(lang = 'en'): Promise<TagRegistry> {
+	const cached = tagCache.get(lang)
+	if (cached) { return cached }
+
+	const source = resolveContentSource()
+
+	try {
+		// Prefer the language-specific file, falling back to the default one
+		const fileContent = await source.readContentFile(`_tags.${ lang }.md`) ??
+			await source.readContentFile('_tags.md')
+
+		const registry = fileContent === null ? {} : parseTagRegistry(fileContent, lang)
+		tagCache.set(lang, registry)
+		return registry
+	} catch (readError) {
+		if (readError instanceof BlogError && blogConfig.posts?.validation === 'strict') {
+			throw readError
+		}
+		const errorMessage = readError instanceof Error ? readError.message : String(readError)
+		logger.warn(`Could not read tag registry file: ${ errorMessage }`)
+		return {}
+	}
+}
+
+/**
+ * Load the author registry from the _authors.md or _authors.json file of the content source
+ *
+ * The registry is optional; without one, posts use their inline authors.
+ *
+ * @param lang - Optional language code for localized author files
+ * @returns Author profiles keyed by author id
+ */
+export async function loadAuthorRegistry(lang = 'en'): Promise<AuthorRegistry> {
+	const cached = authorCache.get(lang)
+	if (cached) { return cached }
+
+	const source = resolveContentSource()
+
+	try {
+		// Prefer the language-specific file, then the default markdown and JSON files
+		const markdownContent = await source.readContentFile(`_authors.${ lang }.md`) ??
+			await source.readContentFile('_authors.md')
+		const jsonContent = markdownContent === null ? await source.readContentFile('_authors.json') : null
+
+		const registry = markdownContent !== null
+			? parseAuthorRegistry(markdownContent, lang)
+			: jsonContent !== null ? parseAuthorRegistry(jsonContent, lang, 'json') : {}
+		authorCache.set(lang, registry)
+		return registry
+	} catch (readError) {
+		if (readError instanceof BlogError && blogConfig.posts?.validation === 'strict') {
+			throw readError
+		}
+		const errorMessage = readError instanceof Error ? readError.message : String(readError)
+		logger.warn(`Could not read author registry file: ${ errorMessage }`)
+		return {}
+	}
+}
+
+/**
+ * Normalize the tags of posts against the registry, copying only posts whose tags change
+ * @param posts - Posts as loaded
+ * @param registry - Tag registry
+ * @returns Posts with canonical, de-duplicated tags
+ */
+function normalizePostTags(posts: ProcessedPost[], registry: TagRegistry): ProcessedPost[] {
+	if (Object.keys(registry).length === 0) { return posts }
+
+	return posts.map(post => {
+		const tags = getPostTags(post)
+		const normalized = getPostTags(post, registry)
+		if (normalized.length === tags.length && normalized.every((tag, index) => tag === tags[index])) {
+			return post
+		}
+		return { ...post, metadata: { ...post.metadata, fm: { ...post.metadata.fm, tags: normalized } } }
+	})
+}
+
+/**
+ * Resolve the authors of posts against the registry
+ *
+ * Posts with authors get `author` set to their first author's profile and
+ * `authors` to every author's profile, so components and feeds can read
+ * `author.name` whether the post used ids or inline profiles.
+ *
+ * @param posts - Posts as loaded
+ * @param registry - Author registry
+ * @returns Posts with resolved authors
+ */
+function normalizePostAuthors(posts: ProcessedPost[], registry: AuthorRegistry): ProcessedPost[] {
+	return posts.map(post => {
+		const { author, authors } = post.metadata.fm
+		if (author === undefined && authors === undefined) { return post }
+
+		const resolved = getPostAuthors(post, registry)
+		const [ primary ] = resolved
+		const { author: _author, authors: _authors, ...fm } = post.metadata.fm
+		return {
+			...post,
+			metadata: {
+				...post.metadata,
+				fm: { ...fm, ...(primary ? { author: primary, authors: resolved } : {}) }
+			}
+		}
+	})
+}
+
+/**
+ * Add language prefix to URL if i18n is enabled and configured to include language in URL
+ * Using Paraglide's localizeHref function for URL localization
+ * @param url - The URL to localize
+ * @returns Localized URL with language prefix if needed
+ */
+export function localizeUrl(url: string): string {
+	const config = blogConfig
+	// Skip if i18n is not enabled or includeLanguageInURL is disabled
+	if (!config.i18n?.enabled || !config.i18n.includeLanguageInURL) {
+		return url
+	}
+
+	// Use the injected URL localizer to add the locale prefix
+	return _localizeUrl(url)
+}
+
+/**
+ * Generate URL for a blog post
+ * @param post - The post to generate URL for
+ * @param withLanguage - Whether to add language prefix
+ * @returns Relative URL to the post
+ */
+export function getPostUrl(post: ProcessedPost | null | undefined, withLanguage = false): string {
+	const config = blogConfig
+	if (!post?.urlPath) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
+	const url = `${ config.uri }${ post.urlPath }`
+	return withLanguage ? _localizeUrl(url) : url
+}
+
+/**
+ * Generate URL for a category
+ * @param category - The category name
+ * @param withLanguage - Whether to add language prefix
+ * @param categories - Category descriptions declaring parents; nested categories then get their full path
+ * @returns Relative URL to the category
+ */
+export function getCategoryUrl(
+	category: string | null | undefined,
+	withLanguage = false,
+	categories: Record<string, CategoryData> = {}
+): string {
+	const config = blogConfig
+	if (!category) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
+	const url = `${ config.uri }/category/${ getCategoryPath(slugify(category), categories).join('/') }`
+	return withLanguage ? _localizeUrl(url) : url
+}
+
+/**
+ * Generate URL for a tag
+ * @param tag - The tag name
+ * @param withLanguage - Whether to add language prefix
+ * @returns Relative URL to the tag
+ */
+export function getTagUrl(tag: string | null | undefined, withLanguage = false): string {
+	const config = blogConfig
+	if (!tag) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
+	const url = `${ config.uri }/tag/${ slugify(tag) }`
+	return withLanguage ? _localizeUrl(url) : url
+}
+
+/**
+ * Generate URL for an author page
+ * @param authorId - The author id
+ * @param withLanguage - Whether to add language prefix
+ * @returns Relative URL to the author page
+ */
+export function getAuthorUrl(authorId: string | null | undefined, withLanguage = false): string {
+	const config = blogConfig
+	if (!authorId) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
+	const url = `${ config.uri }/author/${ slugify(authorId) }`
+	return withLanguage ? _localizeUrl(url) : url
+}
+
+/**
+ * Generate URL for a series
+ * @param series - The series name
+ * @param withLanguage - Whether to add language prefix
+ * @returns Relative URL to the series
+ */
+export function getSeriesUrl(series: string | null | undefined, withLanguage = false): string {
+	const config = blogConfig
+	if (!series) { return withLanguage ? _localizeUrl(config.uri) : config.uri }
+	const url = `${ config.uri }/series/${ slugify(series) }`
+	return withLanguage ? _localizeUrl(url) : url
+}
+
+/**
+ * Generate URL for a year or month archive
+ * @param year - Four-digit year
+ * @param month - Two-digit month (omit for the year archive)
+ * @param withLanguage - Whether to add language prefix
+ * @returns Relative URL to the archive
+ */
+export function getArchiveUrl(year: string, month?: string | null, withLanguage = false): string {
+	const url = month ? `${ blogConfig.uri }/${ year }/${ month }` : `${ blogConfig.uri }/${ year }`
+	return withLanguage ? _localizeUrl(url) : url
+}
+
+/**
+ * Format an archive month for display, e.g. "May 2024"
+ * @param year - Four-digit year
+ * @param month - Two-digit month
+ * @param locale - Locale used for the month name
+ * @param includeYear - Whether to include the year
+ * @returns Localized month label
+ */
+export function formatArchiveMonth(year: string, month: string, locale = 'en', includeYear = true): string {
+	const date = new Date(Date.UTC(Number(year), Number(month) - 1, 1))
+	return new Intl.DateTimeFormat(locale, {
+		month: 'long',
+		...(includeYear && { year: 'numeric' }),
+		timeZone: 'UTC'
+	}).format(date)
+}
+
+/**
+ * Get excerpt from a post with proper fallbacks and length control
+ * @param post - The post to extract excerpt from
+ * @param maxLength - Maximum length of excerpt
+ * @returns Post excerpt
+ */
+export function getPostExcerpt(post: ProcessedPost | null | undefined, maxLength?: number): string {
+	const config = blogConfig
+	const limit = maxLength ?? config.posts.excerptLength
+	if (!post?.metadata?.fm) { return '' }
+
+	let excerpt = post.metadata.fm.excerpt || ''
+
+	if (!excerpt && post.content) {
+		excerpt = post.content
+			.replace(/<[^>]*>/g, '')
+			.replace(/[#*_~`]/g, '')
+			.replace(/\n+/g, ' ')
+			.trim()
+			.substring(0, limit * 2)
+	}
+
+	if (excerpt.length > limit) {
+		const truncated = excerpt.substring(0, limit)
+		const lastSpace = truncated.lastIndexOf(' ')
+		excerpt = lastSpace > 0 ? truncated.substring(0, lastSpace) : truncated
+		excerpt += '...'
+	}
+
+	return excerpt
+}
+
+/**
+ * Generate URL for various blog entities with a unified interface
+ * @param options - URL generation options
+ * @returns Generated URL
+ */
+export function getBlogUrl(options: BlogUrlOptions): string {
+	const config = blogConfig
+	const { type, data, withLanguage = false } = options
+
+	switch (type) {
+	case 'post':
+		return getPostUrl(data as ProcessedPost, withLanguage)
+	case 'category':
+		return getCategoryUrl(data as string, withLanguage)
+	case 'tag':
+		return getTagUrl(data as string, withLanguage)
+	case 'blog':
+		return withLanguage ? _localizeUrl(config.uri) : config.uri
+	default:
+		return withLanguage ? _localizeUrl('/') : '/'
+	}
+}
+
+/**
+ * Process an image path to handle different sources consistently
+ * @param imagePath - The raw image path or URL
  * @param defaultPrefix - Default prefix for relative paths
  * @param fallbackImage - Fallback image URL if path is empty
  * @returns Processed image path
@@ -714,19 +1582,19 @@ export function getCoverImageUrl(post: ProcessedPost | null | undefined, fallbac
 
 /**
  * Get author avatar URL with proper path handling
- * @param post - The post to get author avatar for
+ *
+ * Relative avatars (`jane.jpg`) are resolved against `images.defaults.authorsPath`.
+ *
+ * @param source - An author, or a post whose first author's avatar is used
  * @param fallbackImage - Fallback avatar image if author has no avatar
  * @returns Processed author avatar URL
  */
-export function getAuthorAvatarUrl(post: ProcessedPost | null | undefined, fallbackImage?: string): string {
+export function getAuthorAvatarUrl(source: ProcessedPost | PostAuthor | null | undefined, fallbackImage?: string): string {
 	const config = blogConfig
 	const fallback = fallbackImage ?? config.images.defaults.authorAvatar
-	const avatar = post?.metadata?.fm?.author?.avatar
-	// Fix missing author avatar by using static path
-	if (avatar?.includes('authors/')) {
-		return `/static${ avatar }`
-	}
-	return processImagePath(avatar, config.images.defaults.authorsPath, fallback)
+	const author = source && 'metadata' in source ? getPostAuthors(source)[0] : source
+	const { authorsPath } = config.images.defaults
+	return processImagePath(author?.avatar, authorsPath.endsWith('/') ? authorsPath : `${ authorsPath }/`, fallback)
 }
 
 /**
@@ -769,9 +1637,10 @@ export function getAllCategories(posts: ProcessedPost[], limit?: number): string
  * Extracts all unique tags from all blog posts
  * @param posts - Array of processed blog posts
  * @param limit - Maximum number of tags to return
+ * @param registry - Tag registry to merge aliases and spelling variants with
  * @returns Array of tag names sorted by frequency (most used first)
  */
-export function getAllTags(posts: ProcessedPost[], limit?: number): string[] {
+export function getAllTags(posts: ProcessedPost[], limit?: number, registry?: TagRegistry): string[] {
 	const config = blogConfig
 	const maxTags = limit ?? config.posts.popularTagsCount
 
@@ -782,11 +1651,9 @@ export function getAllTags(posts: ProcessedPost[], limit?: number): string[] {
 	const tagCount: Record<string, number> = {}
 
 	posts.forEach(post => {
-		if (Array.isArray(post.metadata.fm.tags)) {
-			post.metadata.fm.tags.forEach((tag: string) => {
-				tagCount[tag] = (tagCount[tag] ?? 0) + 1
-			})
-		}
+		getPostTags(post, registry).forEach((tag: string) => {
+			tagCount[tag] = (tagCount[tag] ?? 0) + 1
+		})
 	})
 
 	return Object.entries(tagCount)
@@ -855,72 +1722,226 @@ export function getSimilarPosts(
 }
 
 /**
- * Gets raw markdown content from a blog post file path
+ * Gets raw markdown content of a post from the content source
  * This is primarily used for accurate read time calculation
- * @param filePath - The import.meta.glob path to the markdown file
+ * @param filePath - The post path (e.g. the import.meta.glob key)
  * @returns The markdown content without frontmatter
  */
 export async function getMarkdownContent(filePath: string): Promise<string> {
-	const config = blogConfig
+	try {
+		return await resolveContentSource().readPostContent(filePath)
+	} catch (error) {
+		if (blogConfig.debug) {
+			logger.warn('Error reading markdown file:', error)
+		}
+		return ''
+	}
+}
 
-	// Server-side (Node.js) environment
-	if (typeof process !== 'undefined') {
-		try {
-			// Get Node.js modules
-			const fs = await getNodeFs()
-			const path = await getNodePath()
+/**
+ * Builds the `/{year}/{month}/{slug}` URL path of a post
+ * @param filePath - Post path; its file name is the slug fallback
+ * @param metadata - Post frontmatter with the date and optional slug
+ * @returns URL path, or null when the date is invalid
+ */
+export function getPostUrlPath(filePath: string, metadata: Pick<PostMetadata, 'date' | 'slug'>): string | null {
+	const postDate = new Date(metadata.date)
+	if (isNaN(postDate.getTime())) { return null }
+
+	const year = postDate.getFullYear()
+	const month = (postDate.getMonth() + 1).toString().padStart(2, '0')
+	const filenamePart = filePath.split('/').pop()
+	const filename = filenamePart ? filenamePart.replace('.md', '') : ''
+	const slug = metadata.slug || filename
+	return `/${ year }/${ month }/${ slug }`
+}
 
-			if (!fs || !path) {
-				return ''
-			}
+/**
+ * Loads the body of a post fetched without content
+ *
+ * Reads only this post's file, so a page can look a post up in a
+ * metadata-only list. The read time is recalculated from the body unless
+ * the frontmatter sets it.
+ *
+ * @param post - Post from getAllPosts
+ * @returns The post with its content
+ */
+export async function loadPostContent(post: ProcessedPost): Promise<ProcessedPost> {
+	if (post.content || !post.sourcePath) { return post }
 
-			const projectRoot = process.cwd()
-			const contentPath = filePath.replace(
-				config.posts.contentBasePath,
-				'/src/content/Blog'
-			).replace('//', '/')
+	const source = resolveContentSource()
+	const content = await getMarkdownContent(post.sourcePath)
+	if (!content) { return { ...post, content } }
 
-			const fullPath = path.join(projectRoot, contentPath)
-			const content = await fs.readFile(fullPath, 'utf-8')
+	const declared = await source.loadMetadata(post.sourcePath).catch(() => null) as Partial<PostMetadata> | null
+	const readTime = declared?.readTime || getPostReadTime({ metadata: { fm: {} }, content })
+	return {
+		...post,
+		content,
+		metadata: { fm: { ...post.metadata.fm, readTime } }
+	}
+}
 
-			const contentParts = content.split('---')
-			if (contentParts.length >= 3) {
-				return contentParts.slice(2).join('---')
-			}
-			return ''
-		} catch (error) {
-			if (config.debug) {
-				logger.warn('Error reading markdown file:', error)
-			}
-			return ''
-		}
+/**
+ * Checks whether a post is publicly published: not a draft and not scheduled for the future
+ * @param post - The post to check
+ * @param now - Reference time (defaults to the current time)
+ * @returns True if the post is published
+ */
+export function isPostPublished(post: ProcessedPost, now: Date = new Date()): boolean {
+	const { draft, publishAt } = post.metadata.fm
+	if (draft === true) { return false }
+	if (publishAt) {
+		const publishDate = new Date(publishAt)
+		if (!isNaN(publishDate.getTime()) && publishDate > now) { return false }
 	}
+	return true
+}
 
-	// Browser environment
-	try {
-		const fetchPath = filePath.replace(
-			config.posts.contentBasePath,
-			'/src/content/Blog'
-		).replace('//', '/')
-
-		const response = await fetch(fetchPath)
-		const content = await response.text()
-		const contentParts = content.split('---')
-		if (contentParts.length >= 3) {
-			return contentParts.slice(2).join('---')
+/**
+ * Checks whether a post is unlisted (reachable by URL but hidden from listings)
+ * @param post - The post to check
+ * @returns True if the post is unlisted
+ */
+export function isPostUnlisted(post: ProcessedPost): boolean {
+	return post.metadata.fm.unlisted === true
+}
+
+// Load options that change how a post file is processed
+interface PostLoadOptions {
+	lang: string
+	includeContent: boolean
+	includeLocalizedVersions: boolean
+}
+
+/**
+ * Turns a post's frontmatter (and optionally body) into processed posts
+ * @param filePath - Post path from the content source
+ * @param metadata - Post frontmatter (copied, never mutated)
+ * @param content - Markdown body, empty unless content is included
+ * @param options - Load options
+ * @returns The post, the post with its localizations, or null when it can't be used
+ */
+function processPostFile(
+	filePath: string,
+	metadata: PostMetadata,
+	content: string,
+	options: PostLoadOptions
+): ProcessedPost | ProcessedPost[] | null {
+	const config = blogConfig
+	const { lang, includeContent, includeLocalizedVersions } = options
+
+	// Validate basic metadata requirements
+	if (!metadata.date) {
+		if (config.debug) {
+			logger.warn('[BlogUtils] Skipping post due to missing metadata:', filePath)
 		}
-		return ''
-	} catch (error) {
+		return null
+	}
+
+	// Validate date format
+	const postDate = new Date(metadata.date)
+	if (isNaN(postDate.getTime())) {
 		if (config.debug) {
-			logger.warn('Error fetching markdown file:', error)
+			logger.warn('[BlogUtils] Skipping post due to invalid date:', filePath)
+		}
+		return null
+	}
+
+	const urlPath = getPostUrlPath(filePath, metadata) ?? ''
+
+	// Calculate read time with our utility function
+	let readTime = 0
+
+	// First check if readTime is already set in metadata
+	if (metadata.readTime) {
+		({ readTime } = metadata)
+	} else {
+		// Use our utility function to calculate read time
+		// Create a minimal object that satisfies ReadTimePost interface
+		// Use type assertion since PostMetadata is a superset of ReadTimePostMetadata
+		const postForReadTime = {
+			metadata: {
+				fm: {
+					...(metadata.readTime !== undefined
+						? { readTime: metadata.readTime }
+						: {}),
+					...(metadata.excerpt !== undefined
+						? { excerpt: metadata.excerpt }
+						: {})
+				}
+			},
+			...(content ? { content } : {})
+		}
+		readTime = getPostReadTime(postForReadTime)
+	}
+
+	// Update read time in metadata if needed
+	if (!metadata.readTime) {
+		metadata.readTime = readTime
+	}
+
+	// Create the base post object
+	// Convert file path to proper import path for dynamic imports
+	const importPath = filePath.replace('@blog/', '/src/content/Blog/')
+
+	const basePost: ProcessedPost = {
+		metadata: { fm: metadata },
+		date: metadata.date,
+		urlPath,
+		path: importPath,
+		sourcePath: filePath,
+		content: includeContent ? content : '',
+		lang: 'en' // Default language
+	}
+
+	// Handle localization
+	if (includeLocalizedVersions && metadata.i18n) {
+		// Return array with base post and all localizations
+		const localizedPosts = Object.keys(metadata.i18n).map((langCode): ProcessedPost => {
+			const i18nData = metadata.i18n?.[langCode]
+			return {
+				...structuredClone(basePost),
+				metadata: {
+					fm: {
+						...metadata,
+						...i18nData,
+						i18n: metadata.i18n // Keep the i18n map
+					}
+				},
+				lang: langCode
+			}
+		})
+
+		return [ basePost, ...localizedPosts ]
+	}
+	if (lang !== 'en' && metadata.i18n?.[lang]) {
+		// Return just the requested localization
+		const i18nData = metadata.i18n[lang]
+		return {
+			...basePost,
+			metadata: {
+				fm: {
+					...metadata,
+					...i18nData,
+					i18n: metadata.i18n
+				}
+			},
+			lang
 		}
-		return ''
 	}
+	// Return the base post (English or no localization)
+	return basePost
 }
 
 /**
  * Gets all blog posts, processes them, and returns the array sorted by date
  * This is the source of truth for all blog post data in the application
+ *
+ * Post lists are cached per load options (see `cache` in BlogConfig). When a
+ * list is rebuilt, posts whose content hash is unchanged reuse their
+ * processed result, so only changed files are reprocessed.
+ *
  * @param options - Optional configuration options
  * @returns Array of processed blog posts
  */
@@ -929,163 +1950,218 @@ export async function getAllPosts(options: GetAllPostsOptions = {}): Promise<Pro
 	const {
 		lang = 'en',
 		includeContent = false,
-		includeLocalizedVersions = false
+		includeLocalizedVersions = false,
+		preview = false,
+		includeUnlisted = false,
+		validation = config.posts?.validation ?? 'lenient'
 	} = options
 
-	// Create cache key based on options
-	const cacheKey = JSON.stringify({ lang, includeContent, includeLocalizedVersions })
+	// Publishing state is applied after caching so scheduled posts appear on time
+	const now = new Date()
+	const allPosts = await loadPostList({ lang, includeContent, includeLocalizedVersions }, validation)
+	return allPosts.filter(post =>
+		(preview || isPostPublished(post, now)) && (includeUnlisted || !isPostUnlisted(post))
+	)
+}
+
+/**
+ * Loads the sorted post list for a set of load options, before publishing
+ * state is applied
+ *
+ * The returned array is the cached instance, so it can key derived data
+ * such as the lookup index. Don't mutate it.
+ *
+ * @param loadOptions - Load options
+ * @param validation - Frontmatter validation mode
+ * @returns Processed posts, newest first
+ */
+async function loadPostList(
+	loadOptions: PostLoadOptions,
+	validation: FrontmatterValidationMode
+): Promise<ProcessedPost[]> {
+	const config = blogConfig
+	const { lang, includeContent } = loadOptions
+	// Diagnostics are only reported on a miss, so a list loaded leniently must not serve a strict call
+	const cacheKey = JSON.stringify({ ...loadOptions, validation })
 
 	// Check if we have cached data that's still fresh
-	const cached = postsCache.get(cacheKey)
-	if (cached && (Date.now() - cached.timestamp) < CACHE_TTL) {
+	const cached = postListCache.get(cacheKey)
+	if (cached) {
 		if (config.debug) {
-			logger.info('[BlogUtils] Using cached blog posts', `(${ cached.posts.length } posts)`)
+			logger.info('[BlogUtils] Using cached blog posts', `(${ cached.length } posts)`)
 		}
-		return cached.posts
+		return cached
 	}
 
-	logger.info(`[BlogUtils] Loading blog posts from disk${ lang !== 'en' ? ` for language: ${ lang }` : '' }`)
-
-	// Use the abstracted function to get blog post files
-	const posts = getBlogPostFiles() as PostFilesRecord
-
-	const processedPosts = await Promise.all(
-		Object.entries(posts).map(async ([ filePath, resolver ]): Promise<ProcessedPost | ProcessedPost[] | null> => {
-			const postModule = await resolver() as PostModule
-
-			// Validate basic metadata requirements
-			if (!postModule?.metadata?.date) {
-				if (config.debug) {
-					logger.warn('[BlogUtils] Skipping post due to missing metadata:', filePath)
-				}
-				return null
+	logger.info(`[BlogUtils] Loading blog posts${ lang !== 'en' ? ` for language: ${ lang }` : '' }`)
+
+	// Load posts through the configured content source
+	const source = resolveContentSource()
+	const postPaths = await source.listPosts()
+	let reusedCount = 0
+
+	const entries = await Promise.all(
+		postPaths.map(async (filePath): Promise<PostFileEntry> => {
+			const fileKey = `${ filePath }${ FILE_KEY_SEPARATOR }${ cacheKey }`
+			const cachedEntry = (hash: string): PostFileEntry | null => {
+				const entry = postFileCache.get(fileKey)
+				if (entry?.hash !== hash) { return null }
+				reusedCount++
+				return entry
 			}
 
-			// Validate date format
-			const postDate = new Date(postModule.metadata.date)
-			if (isNaN(postDate.getTime())) {
-				if (config.debug) {
-					logger.warn('[BlogUtils] Skipping post due to invalid date:', filePath)
+			// A hash from the source lets unchanged posts skip loading entirely
+			const sourceHash = source.getContentHash ? await source.getContentHash(filePath) : null
+			const reused = sourceHash ? cachedEntry(sourceHash) : null
+			if (reused) { return reused }
+
+			let loaded: unknown
+			try {
+				loaded = await source.loadMetadata(filePath)
+			} catch (loadError) {
+				const errorMessage = loadError instanceof Error ? loadError.message : String(loadError)
+				if (validation === 'off') {
+					logger.warn(`[BlogUtils] Skipping post that could not be loaded: ${ filePath } (${ errorMessage })`)
 				}
-				return null
-			}
-
-			// Generate URL path components
-			const year = postDate.getFullYear()
-			const month = (postDate.getMonth() + 1).toString().padStart(2, '0')
-			const filenamePart = filePath.split('/').pop()
-			const filename = filenamePart ? filenamePart.replace('.md', '') : ''
-			const slug = postModule.metadata.slug || filename
-			const urlPath = `/${ year }/${ month }/${ slug }`
-
-			// Get content and calculate file size if needed
-			let content = ''
-			if (includeContent) {
-				content = await getMarkdownContent(filePath)
-			}
-
-			// Calculate read time with our utility function
-			let readTime = 0
-
-			// First check if readTime is already set in metadata
-			if (postModule.metadata.readTime) {
-				({ readTime } = postModule.metadata)
-			} else {
-				// Use our utility function to calculate read time
-				// Create a minimal object that satisfies ReadTimePost interface
-				// Use type assertion since PostMetadata is a superset of ReadTimePostMetadata
-				const postForReadTime = {
-					metadata: {
-						fm: {
-							...(postModule.metadata.readTime !== undefined
-								? { readTime: postModule.metadata.readTime }
-								: {}),
-							...(postModule.metadata.excerpt !== undefined
-								? { excerpt: postModule.metadata.excerpt }
-								: {})
-						}
-					},
-					...(content ? { content } : {})
+				return {
+					hash: '',
+					posts: null,
+					diagnostics: [ { filePath, field: 'metadata', message: `could not be loaded (${ errorMessage })` } ]
 				}
-				readTime = getPostReadTime(postForReadTime)
 			}
 
-			// Update read time in metadata if needed
-			if (!postModule.metadata.readTime) {
-				postModule.metadata.readTime = readTime
-			}
+			const content = includeContent ? await getMarkdownContent(filePath) : ''
+			const hash = sourceHash ?? hashContent(`${ JSON.stringify(loaded) ?? '' }\n${ content }`)
+			const reusedByHash = sourceHash ? null : cachedEntry(hash)
+			if (reusedByHash) { return reusedByHash }
 
-			// Create the base post object
-			// Convert file path to proper import path for dynamic imports
-			const importPath = filePath.replace('@blog/', '/src/content/Blog/')
-
-			const basePost: ProcessedPost = {
-				metadata: { fm: postModule.metadata },
-				date: postModule.metadata.date,
-				urlPath,
-				path: importPath,
-				content: includeContent ? content : '',
-				lang: 'en' // Default language
+			const metadata = (typeof loaded === 'object' && loaded !== null ? { ...loaded } : {}) as PostMetadata
+			const entry: PostFileEntry = {
+				hash,
+				posts: processPostFile(filePath, metadata, content, loadOptions),
+				diagnostics: validation === 'off' ? [] : validatePostMetadata(loaded, filePath)
 			}
-
-			// Handle localization
-			if (includeLocalizedVersions && postModule.metadata.i18n) {
-				// Return array with base post and all localizations
-				const localizedPosts = Object.keys(postModule.metadata.i18n).map((langCode): ProcessedPost => {
-					const i18nData = postModule.metadata.i18n?.[langCode]
-					return {
-						...structuredClone(basePost),
-						metadata: {
-							fm: {
-								...postModule.metadata,
-								...i18nData,
-								i18n: postModule.metadata.i18n // Keep the i18n map
-							}
-						},
-						lang: langCode
-					}
-				})
-
-				return [ basePost, ...localizedPosts ]
-			}
-			if (lang !== 'en' && postModule.metadata.i18n?.[lang]) {
-				// Return just the requested localization
-				const i18nData = postModule.metadata.i18n[lang]
-				return {
-					...basePost,
-					metadata: {
-						fm: {
-							...postModule.metadata,
-							...i18nData,
-							i18n: postModule.metadata.i18n
-						}
-					},
-					lang
-				}
-			}
-			// Return the base post (English or no localization)
-			return basePost
+			postFileCache.set(fileKey, entry)
+			return entry
 		})
 	)
 
+	// Throws in strict mode so broken frontmatter fails the build
+	reportMetadataDiagnostics(entries.flatMap(entry => entry.diagnostics), validation)
+
 	// Flatten any nested arrays from localized versions and filter out nulls
-	const flattenedPosts = processedPosts.flat().filter((post): post is ProcessedPost => post !== null)
+	const flattenedPosts = entries.flatMap(entry => entry.posts ?? [])
+
+	// Merge tag aliases and spelling variants into their canonical tags, and resolve author ids
+	const normalizedPosts = normalizePostAuthors(
+		normalizePostTags(flattenedPosts, await loadTagRegistry(lang)),
+		await loadAuthorRegistry(lang)
+	)
 
 	// Sort the posts by date in descending order (newest first)
-	const sortedPosts = flattenedPosts.sort((a, b) =>
-		new Date(b.date).getTime() - new Date(a.date).getTime()
+	// Posts on the same date are ordered by URL so every post has a single position
+	const sortedPosts = normalizedPosts.sort((a, b) =>
+		new Date(b.date).getTime() - new Date(a.date).getTime() || b.urlPath.localeCompare(a.urlPath)
 	)
 
 	// Cache the results
-	postsCache.set(cacheKey, {
-		posts: sortedPosts,
-		timestamp: Date.now()
-	})
+	postListCache.set(cacheKey, sortedPosts)
 
-	logger.info('[BlogUtils] Successfully processed', sortedPosts.length, 'blog posts (cached for 5 minutes)')
+	logger.info('[BlogUtils] Successfully processed', sortedPosts.length, `blog posts (${ reusedCount } unchanged files reused)`)
 	return sortedPosts
 }
 
+/**
+ * Gets the lookup index of a cached post list, building it on first use
+ * @param posts - Cached post list from loadPostList
+ * @returns Index of the list
+ */
+function getPostIndex(posts: ProcessedPost[]): PostIndex {
+	const existing = postIndexes.get(posts)
+	if (existing) { return existing }
+
+	const index: PostIndex = { byUrl: new Map(), bySlug: new Map() }
+	posts.forEach((post, position) => {
+		const [ year, month, slug ] = post.urlPath.split('/').filter(part => part)
+		if (!year || !month || !slug) { return }
+
+		const slugKey = slugify(slug)
+		const urlKey = `${ year }/${ month }/${ slugKey }`
+		if (!index.byUrl.has(urlKey)) {
+			index.byUrl.set(urlKey, position)
+		}
+		const withSlug = index.bySlug.get(slugKey)
+		if (withSlug) {
+			withSlug.push(position)
+		} else {
+			index.bySlug.set(slugKey, [ position ])
+		}
+	})
+
+	postIndexes.set(posts, index)
+	return index
+}
+
+/**
+ * Finds a single post by its URL segments, or by slug alone
+ *
+ * Uses an index over the cached metadata-only post list and loads the body
+ * of the matched post only. Unlisted posts are found (they're reachable by
+ * URL); drafts and scheduled posts only in preview mode. The neighbors are
+ * the closest published, listed posts in the same language, and with
+ * `sameCategory` in the same primary category; untranslated posts shown as
+ * fallbacks in a localized list are skipped.
+ *
+ * @param slug - Post slug, matched after slugifying
+ * @param options - Lookup options; without year and month the newest post with the slug wins
+ * @returns The post with its neighbors, or null when no post matches
+ */
+export async function findPost(slug: string, options: FindPostOptions = {}): Promise<PostLookup | null> {
+	const {
+		year,
+		month,
+		lang = 'en',
+		preview = false,
+		includeContent = true,
+		sameCategory = false,
+		validation = blogConfig.posts?.validation ?? 'lenient'
+	} = options
+
+	const posts = await loadPostList({ lang, includeContent: false, includeLocalizedVersions: false }, validation)
+	const index = getPostIndex(posts)
+	const now = new Date()
+	const isVisible = (post: ProcessedPost): boolean => preview || isPostPublished(post, now)
+
+	const slugKey = slugify(slug)
+	const candidates = year !== undefined && month !== undefined
+		? [ index.byUrl.get(`${ year }/${ month }/${ slugKey }`) ]
+		: index.bySlug.get(slugKey) ?? []
+	const position = candidates.find(
+		(candidate): candidate is number => candidate !== undefined && isVisible(posts[candidate] as ProcessedPost)
+	)
+	const post = position === undefined ? undefined : posts[position]
+	if (position === undefined || !post) { return null }
+
+	const postLang = post.lang ?? 'en'
+	const [ primaryCategory ] = getPostCategories(post)
+	const categorySlug = sameCategory && primaryCategory ? slugify(primaryCategory) : null
+	const isNeighbor = (candidate: ProcessedPost): boolean =>
+		isVisible(candidate) &&
+		!isPostUnlisted(candidate) &&
+		(candidate.lang ?? 'en') === postLang &&
+		(!categorySlug || getPostCategories(candidate).some(category => slugify(category) === categorySlug))
+	const toSummary = (candidate: ProcessedPost | undefined): PostSummary | null => candidate
+		? { title: candidate.metadata.fm.title, urlPath: candidate.urlPath, date: candidate.date }
+		: null
+
+	// Posts are sorted newest first: older posts follow, newer posts precede
+	return {
+		post: includeContent ? await loadPostContent(post) : post,
+		previousPost: toSummary(posts.slice(position + 1).find(isNeighbor)),
+		nextPost: toSummary(posts.slice(0, position).reverse().find(isNeighbor))
+	}
+}
+
 /**
  * Gets popular categories from the blog (dynamically extracted from posts)
  * @param posts - Optional array of posts to extract from
@@ -1131,9 +2207,116 @@ export async function getPopularTags(posts?: ProcessedPost[]): Promise<string[]>
 }
 
 // -----------------------------------------------------------------------------
-// RSS Feed Generation Functions
+// Feed Generation Functions (RSS 2.0, Atom 1.0, JSON Feed 1.1)
 // -----------------------------------------------------------------------------
 
+// JSON Feed 1.1 author object
+export interface JsonFeedAuthor {
+	name: string
+	url?: string
+	avatar?: string
+}
+
+// JSON Feed 1.1 item object
+export interface JsonFeedItem {
+	id: string
+	url: string
+	title: string
+	summary: string
+	content_html?: string
+	date_published: string
+	date_modified?: string
+	authors: JsonFeedAuthor[]
+	tags?: string[]
+	image?: string
+	language?: string
+}
+
+// JSON Feed 1.1 top-level object
+export interface JsonFeed {
+	version: 'https://jsonfeed.org/version/1.1'
+	title: string
+	home_page_url: string
+	feed_url: string
+	description: string
+	language: string
+	items: JsonFeedItem[]
+}
+
+/**
+ * Validates feed options and removes the trailing slash from siteUrl
+ * @param options - Feed options
+ * @param feedType - Feed type name used in the error message
+ * @returns Base URL without trailing slash
+ * @throws Error If siteUrl is not provided
+ */
+function getFeedBaseUrl(options: RssFeedOptions | undefined, feedType: string): string {
+	if (!options?.siteUrl) {
+		throw new Error(`siteUrl is required to generate ${ feedType } feed`)
+	}
+
+	const { siteUrl } = options
+	return siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl
+}
+
+/**
+ * Filters out posts that can't be represented in a feed and applies the item limit
+ * @param posts - Array of blog posts
+ * @param maxItems - Maximum number of items in the feed
+ * @returns Posts to include in the feed
+ */
+function getFeedPosts(posts: ProcessedPost[], maxItems: number): ProcessedPost[] {
+	return posts
+		.filter(post => post?.metadata?.fm?.title && post?.date)
+		.slice(0, maxItems)
+}
+
+/**
+ * Collects the unique categories and tags of a post (tags are treated as categories in feeds)
+ * @param post - Blog post
+ * @returns Unique feed terms
+ */
+function getFeedTerms(post: ProcessedPost): string[] {
+	return [ ...new Set([ ...getPostCategories(post), ...getPostTags(post) ]) ]
+}
+
+/**
+ * Gets the authors credited in a feed item, falling back to the blog name
+ * @param post - Blog post
+ * @returns Authors in credit order
+ */
+function getFeedAuthors(post: ProcessedPost): PostAuthor[] {
+	const authors = getPostAuthors(post)
+	return authors.length > 0 ? authors : [ { name: blogConfig.name } ]
+}
+
+/**
+ * Renders the full body of a post as HTML with absolute image and link URLs
+ * @param post - Blog post (with content loaded)
+ * @param baseUrl - Site URL without trailing slash
+ * @param renderContent - Optional custom renderer
+ * @returns HTML content, or the excerpt as a paragraph when the post has no body
+ */
+function getFeedContentHtml(post: ProcessedPost, baseUrl: string, renderContent?: FeedContentRenderer): string {
+	const html = renderContent ? renderContent(post) : markdownToHtml(post.content ?? '')
+	if (!html) {
+		return `<p>${ escapeXml(getPostExcerpt(post, 300)) }</p>`
+	}
+	return absolutizeUrls(html, `${ baseUrl }/`)
+}
+
+/**
+ * Gets the cover image of a post for feed enclosures, with an absolute URL
+ * @param post - Blog post
+ * @param baseUrl - Site URL without trailing slash
+ * @returns Image with absolute src, or null when the post has no image
+ */
+function getFeedImage(post: ProcessedPost, baseUrl: string): PostImage | null {
+	const image = post.metadata.fm.image?.src ? post.metadata.fm.image : post.metadata.fm.thumbnail
+	if (!image?.src) { return null }
+	return { ...image, src: toAbsoluteUrl(image.src, `${ baseUrl }/`) }
+}
+
 /**
  * Creates a valid RSS 2.0 feed XML string from an array of blog posts
  *
@@ -1144,39 +2327,33 @@ export async function getPopularTags(posts?: ProcessedPost[]): Promise<string[]>
  */
 export function generateRssFeed(posts: ProcessedPost[], options: RssFeedOptions): string {
 	const config = blogConfig
-
-	if (!options?.siteUrl) {
-		throw new Error('siteUrl is required to generate RSS feed')
-	}
+	const baseUrl = getFeedBaseUrl(options, 'RSS')
 
 	logger.info(`Generating RSS feed for ${ posts.length } posts`)
 
 	// Default options
 	const {
-		siteUrl,
 		feedTitle = config.name,
 		feedDescription = config.description,
 		feedPath = `${ config.uri }/rss.xml`,
+		homePath = config.uri,
 		maxItems = 20,
-		language = 'en'
+		language = 'en',
+		fullContent = false,
+		renderContent
 	} = options
 
-	// Ensure siteUrl doesn't end with a slash
-	const baseUrl = siteUrl.endsWith('/') ? siteUrl.slice(0, -1) : siteUrl
-
 	// Limit posts to the max items and filter out any invalid posts
-	const limitedPosts = posts
-		.filter(post => post?.metadata?.fm?.title && post?.date)
-		.slice(0, maxItems)
+	const limitedPosts = getFeedPosts(posts, maxItems)
 
 	// Build the RSS feed XML with proper channel information
 	let xml = `<?xml version="1.0" encoding="UTF-8" ?>
-<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:media="http://search.yahoo.com/mrss/">
 <channel>
   <title>${ escapeXml(feedTitle) }</title>
-  <link>${ baseUrl }${ config.uri }</link>
+  <link>${ baseUrl }${ homePath }</link>
   <description>${ escapeXml(feedDescription) }</description>
-  <language>${ language }</language>
+  <language>${ escapeXml(language) }</language>
   <lastBuildDate>${ new Date().toUTCString() }</lastBuildDate>
   <generator>SvelteKit Blog RSS Generator</generator>
   <atom:link href="${ baseUrl }${ feedPath }" rel="self" type="application/rss+xml" />
@@ -1189,11 +2366,18 @@ export function generateRssFeed(posts: ProcessedPost[], options: RssFeedOptions)
 			const pubDate = new Date(post.date).toUTCString()
 			const title = post.metadata.fm.title || 'Untitled Post'
 			const excerpt = getPostExcerpt(post, 300) || 'No description available'
-			const author = post.metadata.fm.author?.name || config.name
+			const author = getFeedAuthors(post).map(({ name }) => name).join(', ')
 			const categories = getRssCategoriesXml(post)
 			const modifiedDate = post.metadata.fm.updated
 				? new Date(post.metadata.fm.updated).toUTCString()
 				: null
+			const contentXml = fullContent
+				? `    <content:encoded>${ wrapCdata(getFeedContentHtml(post, baseUrl, renderContent)) }</content:encoded>\n`
+				: ''
+			const image = getFeedImage(post, baseUrl)
+			const imageXml = image
+				? `    <media:content url="${ escapeXml(image.src) }" medium="image"${ image.width ? ` width="${ image.width }"` : '' }${ image.height ? ` height="${ image.height }"` : '' } />\n`
+				: ''
 
 			xml += `  <item>
     <title>${ escapeXml(title) }</title>
@@ -1202,8 +2386,8 @@ export function generateRssFeed(posts: ProcessedPost[], options: RssFeedOptions)
     <pubDate>${ pubDate }</pubDate>
 ${ modifiedDate ? `    <lastBuildDate>${ modifiedDate }</lastBuildDate>\n` : '' }
     <description>${ escapeXml(excerpt) }</description>
-    <author>${ escapeXml(author) }</author>
-${ categories }
+${ contentXml }    <author>${ escapeXml(author) }</author>
+${ imageXml }${ categories }
   </item>
 `
 		} catch (err) {
@@ -1225,7 +2409,7 @@ ${ categories }
  * @param str - String to escape
  * @returns XML-safe escaped string
  */
-function escapeXml(str: string): string {
+export function escapeXml(str: string): string {
 	if (str === '') { return '' }
 
 	return str
@@ -1242,22 +2426,162 @@ function escapeXml(str: string): string {
  * @returns Categories XML string to include in the feed item
  */
 function getRssCategoriesXml(post: ProcessedPost): string {
-	const categories: string[] = []
+	return getFeedTerms(post)
+		.map(category => `    <category>${ escapeXml(category) }</category>\n`)
+		.join('')
+}
 
-	// Add categories from post metadata
-	if (Array.isArray(post.metadata.fm.categories)) {
-		categories.push(...post.metadata.fm.categories)
-	} else if (post.metadata.fm.category) {
-		categories.push(post.metadata.fm.category)
-	}
+/**
+ * Creates a valid Atom 1.0 feed XML string from an array of blog posts
+ *
+ * @param posts - Array of blog posts to include in feed
+ * @param options - Feed configuration options
+ * @returns Atom feed XML as a string
+ * @throws Error If siteUrl is not provided
+ */
+export function generateAtomFeed(posts: ProcessedPost[], options: RssFeedOptions): string {
+	const config = blogConfig
+	const baseUrl = getFeedBaseUrl(options, 'Atom')
+
+	logger.info(`Generating Atom feed for ${ posts.length } posts`)
+
+	const {
+		feedTitle = config.name,
+		feedDescription = config.description,
+		feedPath = `${ config.uri }/atom.xml`,
+		homePath = config.uri,
+		maxItems = 20,
+		language = 'en',
+		fullContent = false,
+		renderContent
+	} = options
 
-	// Add tags as categories (standard RSS practice)
-	if (Array.isArray(post.metadata.fm.tags)) {
-		categories.push(...post.metadata.fm.tags)
+	const limitedPosts = getFeedPosts(posts, maxItems)
+	const homeUrl = `${ baseUrl }${ homePath }`
+
+	// The feed is as recent as its most recently changed entry
+	const feedUpdated = limitedPosts.reduce<Date | null>((latest, post) => {
+		const updated = new Date(post.metadata.fm.updated || post.date)
+		if (isNaN(updated.getTime())) { return latest }
+		return !latest || updated > latest ? updated : latest
+	}, null) ?? new Date()
+
+	let xml = `<?xml version="1.0" encoding="UTF-8" ?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${ escapeXml(language) }">
+  <title>${ escapeXml(feedTitle) }</title>
+  <subtitle>${ escapeXml(feedDescription) }</subtitle>
+  <link href="${ escapeXml(homeUrl) }" />
+  <link href="${ escapeXml(`${ baseUrl }${ feedPath }`) }" rel="self" type="application/atom+xml" />
+  <id>${ escapeXml(`${ homeUrl }/`) }</id>
+  <updated>${ feedUpdated.toISOString() }</updated>
+  <generator>SvelteKit Blog Atom Generator</generator>
+`
+
+	limitedPosts.forEach(post => {
+		try {
+			const postUrl = `${ baseUrl }${ getPostUrl(post) }`
+			const published = new Date(post.date).toISOString()
+			const updated = post.metadata.fm.updated
+				? new Date(post.metadata.fm.updated).toISOString()
+				: published
+			const title = post.metadata.fm.title || 'Untitled Post'
+			const excerpt = getPostExcerpt(post, 300) || 'No description available'
+			const authorsXml = getFeedAuthors(post)
+				.map(({ name, url }) => `    <author>
+      <name>${ escapeXml(name) }</name>
+${ url ? `      <uri>${ escapeXml(url) }</uri>\n` : '' }    </author>
+`)
+				.join('')
+			const categories = getFeedTerms(post)
+				.map(term => `    <category term="${ escapeXml(term) }" />\n`)
+				.join('')
+
+			xml += `  <entry>
+    <title>${ escapeXml(title) }</title>
+    <link href="${ escapeXml(postUrl) }" />
+    <id>${ escapeXml(postUrl) }</id>
+    <published>${ published }</published>
+    <updated>${ updated }</updated>
+${ authorsXml }    <summary>${ escapeXml(excerpt) }</summary>
+${ fullContent ? `    <content type="html">${ escapeXml(getFeedContentHtml(post, baseUrl, renderContent)) }</content>\n` : '' }${ categories }  </entry>
+`
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : String(err)
+			logger.warn(`Error adding post to Atom feed: ${ errorMessage }`, post.path)
+		}
+	})
+
+	xml += '</feed>'
+
+	return xml
+}
+
+/**
+ * Creates a JSON Feed 1.1 document from an array of blog posts
+ *
+ * @param posts - Array of blog posts to include in feed
+ * @param options - Feed configuration options
+ * @returns JSON Feed as a string
+ * @throws Error If siteUrl is not provided
+ */
+export function generateJsonFeed(posts: ProcessedPost[], options: RssFeedOptions): string {
+	const config = blogConfig
+	const baseUrl = getFeedBaseUrl(options, 'JSON')
+
+	logger.info(`Generating JSON feed for ${ posts.length } posts`)
+
+	const {
+		feedTitle = config.name,
+		feedDescription = config.description,
+		feedPath = `${ config.uri }/feed.json`,
+		homePath = config.uri,
+		maxItems = 20,
+		language = 'en',
+		fullContent = false,
+		renderContent
+	} = options
+
+	const items: JsonFeedItem[] = []
+
+	getFeedPosts(posts, maxItems).forEach(post => {
+		try {
+			const postUrl = `${ baseUrl }${ getPostUrl(post) }`
+			const { updated } = post.metadata.fm
+			const image = getFeedImage(post, baseUrl)
+			const tags = getFeedTerms(post)
+
+			items.push({
+				id: postUrl,
+				url: postUrl,
+				title: post.metadata.fm.title || 'Untitled Post',
+				summary: getPostExcerpt(post, 300) || 'No description available',
+				...(fullContent ? { content_html: getFeedContentHtml(post, baseUrl, renderContent) } : {}),
+				date_published: new Date(post.date).toISOString(),
+				...(updated ? { date_modified: new Date(updated).toISOString() } : {}),
+				authors: getFeedAuthors(post).map(({ name, url, avatar }) => ({
+					name,
+					...(url ? { url } : {}),
+					...(avatar ? { avatar } : {})
+				})),
+				...(tags.length > 0 ? { tags } : {}),
+				...(image ? { image: image.src } : {}),
+				...(post.lang ? { language: post.lang } : {})
+			})
+		} catch (err) {
+			const errorMessage = err instanceof Error ? err.message : String(err)
+			logger.warn(`Error adding post to JSON feed: ${ errorMessage }`, post.path)
+		}
+	})
+
+	const feed: JsonFeed = {
+		version: 'https://jsonfeed.org/version/1.1',
+		title: feedTitle,
+		home_page_url: `${ baseUrl }${ homePath }`,
+		feed_url: `${ baseUrl }${ feedPath }`,
+		description: feedDescription,
+		language,
+		items
 	}
 
-	// Generate XML for each unique category
-	return [ ...new Set(categories) ]
-		.map(category => `    <category>${ escapeXml(category) }</category>\n`)
-		.join('')
+	return JSON.stringify(feed, null, 2)
 }
@@ -3,7 +3,7 @@
  */
 
 import { blogConfig } from '../config/index.js'
-import { getCategoryUrl } from './blogUtils.js'
+import { formatArchiveMonth, getArchiveUrl, getCategoryUrl } from './blogUtils.js'
 
 // Post metadata for breadcrumbs
 interface BreadcrumbPostMetadata {
@@ -33,7 +33,7 @@ export interface BreadcrumbConfig {
 }
 
 // Page type for breadcrumb generation
-export type PageType = 'index' | 'post' | 'category' | 'tag'
+export type PageType = 'index' | 'post' | 'category' | 'tag' | 'archive' | 'series' | 'author'
 
 // Page data interface for breadcrumb generation
 export interface BreadcrumbPageData {
@@ -41,8 +41,15 @@ export interface BreadcrumbPageData {
 	post?: BreadcrumbPost
 	category?: string
 	categoryName?: string
+	categoryPath?: { name: string, path: string }[]
 	tag?: string
 	tagName?: string
+	year?: string
+	month?: string | null
+	monthName?: string
+	series?: string
+	author?: { name: string }
+	lang?: string
 }
 
 /**
@@ -101,7 +108,12 @@ export function generateBreadcrumbs(data: BreadcrumbPageData | null | undefined)
 		// For category pages, add blog link and use category name
 		if (data.category) {
 			breadcrumbConfig.items = [
-				{ href: uri, label: name }
+				{ href: uri, label: name },
+				// Parent categories of a nested category
+				...(data.categoryPath ?? []).slice(0, -1).map(parent => ({
+					href: `${ uri }/category/${ parent.path }`,
+					label: parent.name
+				}))
 			]
 			breadcrumbConfig.current = data.categoryName ?? data.category
 		}
@@ -117,6 +129,44 @@ export function generateBreadcrumbs(data: BreadcrumbPageData | null | undefined)
 		}
 		break
 
+	case 'archive':
+		// For month archives, link back to the year; the year archive sits under the blog
+		if (data.year) {
+			breadcrumbConfig.items = [
+				{ href: uri, label: name }
+			]
+			if (data.month) {
+				breadcrumbConfig.items.push({
+					href: getArchiveUrl(data.year),
+					label: data.year
+				})
+				breadcrumbConfig.current = data.monthName ?? formatArchiveMonth(data.year, data.month, data.lang, false)
+			} else {
+				breadcrumbConfig.current = data.year
+			}
+		}
+		break
+
+	case 'series':
+		// For series pages, add blog link and use the series name
+		if (data.series) {
+			breadcrumbConfig.items = [
+				{ href: uri, label: name }
+			]
+			breadcrumbConfig.current = data.series
+		}
+		break
+
+	case 'author':
+		// For author pages, add blog link and use the author's name
+		if (data.author) {
+			breadcrumbConfig.items = [
+				{ href: uri, label: name }
+			]
+			breadcrumbConfig.current = data.author.name
+		}
+		break
+
 	default:
 		// Unknown page type
 		breadcrumbConfig.current = 'Blog'
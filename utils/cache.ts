@@ -0,0 +1,160 @@
+/**
+ * Caching primitives for blog content
+ *
+ * Provides a small LRU cache with optional expiry and a content hash used to
+ * detect which posts changed between loads.
+ */
+
+import { blogConfig, type CacheConfig } from '../config/index.js'
+
+// Default configuration that can be used without dependency on blogConfig
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+	enabled: true,
+	ttl: 1000 * 60 * 5,
+	maxEntries: 20,
+	maxPosts: 2000
+}
+
+/**
+ * Gets the cache configuration from blogConfig, filling in defaults
+ * @returns Cache configuration
+ */
+export function getCacheConfig(): CacheConfig {
+	return { ...DEFAULT_CACHE_CONFIG, ...blogConfig.cache }
+}
+
+// Cache limits, read on every access so config changes apply immediately
+export interface LruCacheOptions {
+	/** Maximum number of entries before the least recently used is evicted */
+	maxEntries: number
+	/** Time to live in milliseconds (0 keeps entries until evicted or invalidated) */
+	ttl: number
+}
+
+// Stored value with its insertion time
+interface LruEntry<V> {
+	value: V
+	timestamp: number
+}
+
+/**
+ * Least-recently-used cache with optional time-based expiry
+ *
+ * Relies on Map insertion order: reads move an entry to the end, and
+ * eviction removes entries from the front.
+ */
+export class LruCache<V> {
+	private readonly entries = new Map<string, LruEntry<V>>()
+	private readonly getOptions: () => LruCacheOptions
+
+	/**
+	 * Create an LRU cache
+	 *
+	 * @param options - Cache limits, or a function returning them
+	 */
+	constructor(options: LruCacheOptions | (() => LruCacheOptions)) {
+		this.getOptions = typeof options === 'function' ? options : (): LruCacheOptions => options
+	}
+
+	/** Number of entries currently stored (including expired ones not yet pruned) */
+	get size(): number {
+		return this.entries.size
+	}
+
+	/**
+	 * Get a value, refreshing its recency
+	 * @param key - Cache key
+	 * @returns The cached value, or undefined when missing or expired
+	 */
+	get(key: string): V | undefined {
+		const entry = this.entries.get(key)
+		if (!entry) { return undefined }
+
+		if (this.isExpired(entry)) {
+			this.entries.delete(key)
+			return undefined
+		}
+
+		this.entries.delete(key)
+		this.entries.set(key, entry)
+		return entry.value
+	}
+
+	/**
+	 * Store a value, evicting the least recently used entries over the limit
+	 * @param key - Cache key
+	 * @param value - Value to store
+	 */
+	set(key: string, value: V): void {
+		const { maxEntries } = this.getOptions()
+		if (maxEntries <= 0) { return }
+
+		this.entries.delete(key)
+		this.entries.set(key, { value, timestamp: Date.now() })
+
+		while (this.entries.size > maxEntries) {
+			const oldestKey = this.entries.keys().next().value
+			if (oldestKey === undefined) { break }
+			this.entries.delete(oldestKey)
+		}
+	}
+
+	/**
+	 * Remove an entry
+	 * @param key - Cache key
+	 * @returns True if an entry was removed
+	 */
+	delete(key: string): boolean {
+		return this.entries.delete(key)
+	}
+
+	/**
+	 * Remove every entry whose key matches a predicate
+	 * @param predicate - Returns true for keys to remove
+	 * @returns Number of removed entries
+	 */
+	deleteWhere(predicate: (key: string) => boolean): number {
+		let removed = 0
+		for (const key of [ ...this.entries.keys() ]) {
+			if (predicate(key)) {
+				this.entries.delete(key)
+				removed++
+			}
+		}
+		return removed
+	}
+
+	/** Remove all entries */
+	clear(): void {
+		this.entries.clear()
+	}
+
+	private isExpired(entry: LruEntry<V>): boolean {
+		const { ttl } = this.getOptions()
+		return ttl > 0 && Date.now() - entry.timestamp >= ttl
+	}
+}
+
+/**
+ * Hashes text content to a short hex string (cyrb53)
+ *
+ * Not cryptographic; used to detect changed files cheaply in both
+ * Node.js and the browser.
+ *
+ * @param text - Content to hash
+ * @returns 14-character hex hash
+ */
+export function hashContent(text: string): string {
+	let h1 = 0xdeadbeef
+	let h2 = 0x41c6ce57
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charCodeAt(i)
+		h1 = Math.imul(h1 ^ char, 2654435761)
+		h2 = Math.imul(h2 ^ char, 1597334677)
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+
+	const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0)
+	return hash.toString(16).padStart(14, '0')
+}
@@ -0,0 +1,305 @@
+/**
+ * Build-time content manifest
+ *
+ * Precomputes each post's frontmatter, URL, read time, excerpt, taxonomy and
+ * content hash into a JSON file. In production, `createManifestContentSource`
+ * serves `getAllPosts` (and everything built on it: pages, feeds, sitemap)
+ * from the manifest without importing every post, and reads a post body only
+ * when a page needs it.
+ */
+
+import { blogConfig, getBlogPostFiles } from '../config/index.js'
+import { getPostExcerpt, getPostUrlPath } from './blogUtils.js'
+import { createFilesystemContentSource, createGlobContentSource, resolveContentSource, type ContentSource } from './contentSource.js'
+import { reportMetadataDiagnostics, validatePostMetadata, type MetadataDiagnostic } from './frontmatterValidation.js'
+import { getPostReadTime } from './readTimeUtils.js'
+import { hashContent } from './cache.js'
+import { getCwd, getNodeFs, getNodePath } from './nodeModules.js'
+import { BlogError, ErrorTypes } from './errorHandler.js'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('ContentManifest')
+
+/** Manifest format version, bumped on incompatible changes */
+export const CONTENT_MANIFEST_VERSION = 1
+
+// Excerpts are stored at feed length; shorter limits truncate them further
+const MANIFEST_EXCERPT_LENGTH = 300
+
+/** Precomputed data of one post */
+export interface ContentManifestPost {
+	/** Content source path of the post */
+	path: string
+	/** Hash of the post's source, used to skip reprocessing unchanged posts */
+	hash: string
+	/** Frontmatter as written */
+	metadata: Record<string, unknown>
+	/** `/{year}/{month}/{slug}` URL path, or null when the date is invalid */
+	urlPath: string | null
+	readTime: number
+	excerpt: string
+	categories: string[]
+	tags: string[]
+}
+
+/** Manifest of all posts */
+export interface ContentManifest {
+	version: typeof CONTENT_MANIFEST_VERSION
+	generatedAt: string
+	posts: ContentManifestPost[]
+}
+
+/** Options for building a manifest */
+export interface BuildContentManifestOptions {
+	/** Source to read posts from (defaults to the configured content source) */
+	source?: ContentSource
+}
+
+/** Options for the manifest content source */
+export interface ManifestContentSourceOptions {
+	/** Source for post bodies and auxiliary files (defaults to a glob source over getBlogPostFiles) */
+	bodies?: ContentSource
+}
+
+/** Options for the blogContentManifest Vite plugin */
+export interface BlogContentManifestPluginOptions {
+	/** Output file, relative to the Vite root (default: src/lib/blog-manifest.json) */
+	outFile?: string
+	/** Directory containing the posts (default: src/content/Blog) */
+	postsDir?: string
+	/** Directory containing auxiliary files like _categories.md (default: src/content) */
+	contentDir?: string
+}
+
+/** Vite plugin returned by blogContentManifest */
+export interface BlogContentManifestPlugin {
+	name: string
+	apply: 'build'
+	configResolved(config: { root: string }): void
+	buildStart(): Promise<void>
+}
+
+/**
+ * Reads a frontmatter field that should be a string
+ * @returns The value, or undefined when it is missing or not a string
+ */
+function readString(metadata: Record<string, unknown>, key: string): string | undefined {
+	const value = metadata[key]
+	return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Reads a frontmatter field that should be a list of strings, dropping other entries
+ */
+function readStringList(metadata: Record<string, unknown>, key: string): string[] | undefined {
+	const value = metadata[key]
+	return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined
+}
+
+/**
+ * Collects a post's categories and tags as written in the frontmatter
+ * @param metadata - Post frontmatter, possibly invalid
+ * @returns Category and tag names
+ */
+function getManifestTaxonomy(metadata: Record<string, unknown>): { categories: string[], tags: string[] } {
+	const category = readString(metadata, 'category')
+	return {
+		categories: readStringList(metadata, 'categories') ?? (category ? [ category ] : []),
+		tags: readStringList(metadata, 'tags') ?? []
+	}
+}
+
+/**
+ * Builds a manifest of all posts
+ *
+ * Frontmatter problems are reported according to `posts.validation`, so
+ * strict mode fails the build. Posts that can't be loaded are left out.
+ *
+ * @param options - Build options
+ * @returns Content manifest
+ * @throws {BlogError} In strict validation mode when frontmatter is invalid
+ */
+export async function buildContentManifest(options: BuildContentManifestOptions = {}): Promise<ContentManifest> {
+	const source = options.source ?? resolveContentSource()
+	const postPaths = await source.listPosts()
+	const diagnostics: MetadataDiagnostic[] = []
+
+	const posts = await Promise.all(postPaths.map(async (filePath): Promise<ContentManifestPost | null> => {
+		let loaded: unknown
+		let content: string
+		try {
+			loaded = await source.loadMetadata(filePath)
+			content = await source.readPostContent(filePath)
+		} catch (loadError) {
+			const errorMessage = loadError instanceof Error ? loadError.message : String(loadError)
+			diagnostics.push({ filePath, field: 'metadata', message: `could not be loaded (${ errorMessage })` })
+			return null
+		}
+
+		diagnostics.push(...validatePostMetadata(loaded, filePath))
+
+		const metadata = (typeof loaded === 'object' && loaded !== null ? { ...loaded } : {}) as Record<string, unknown>
+		const sourceHash = source.getContentHash ? await source.getContentHash(filePath) : null
+
+		// The frontmatter may have failed validation, so fields are narrowed as they are read
+		const date = readString(metadata, 'date')
+		const { readTime } = metadata
+		const fm = { title: readString(metadata, 'title') ?? '', date: date ?? '', excerpt: readString(metadata, 'excerpt') }
+
+		return {
+			path: filePath,
+			hash: sourceHash ?? hashContent(`${ JSON.stringify(loaded) ?? '' }\n${ content }`),
+			metadata,
+			urlPath: date !== undefined ? getPostUrlPath(filePath, { date, slug: readString(metadata, 'slug') }) : null,
+			readTime: getPostReadTime({ metadata: { fm: typeof readTime === 'number' && readTime > 0 ? { readTime } : {} }, content }),
+			excerpt: getPostExcerpt({ metadata: { fm }, date: '', urlPath: '', content }, MANIFEST_EXCERPT_LENGTH),
+			...getManifestTaxonomy(metadata)
+		}
+	}))
+
+	reportMetadataDiagnostics(diagnostics, blogConfig.posts?.validation ?? 'lenient')
+
+	return {
+		version: CONTENT_MANIFEST_VERSION,
+		generatedAt: new Date().toISOString(),
+		posts: posts.filter((post): post is ContentManifestPost => post !== null)
+	}
+}
+
+/**
+ * Checks that a value is a manifest this version can read
+ * @param value - Parsed JSON
+ * @returns The manifest
+ * @throws {BlogError} When the value isn't a supported manifest
+ */
+export function parseContentManifest(value: unknown): ContentManifest {
+	const manifest = value as Partial<ContentManifest> | null
+	if (typeof manifest !== 'object' || manifest === null || !Array.isArray(manifest.posts)) {
+		throw new BlogError('Invalid content manifest: expected an object with a posts array', ErrorTypes.VALIDATION)
+	}
+	if (manifest.version !== CONTENT_MANIFEST_VERSION) {
+		throw new BlogError(
+			`Unsupported content manifest version ${ String(manifest.version) } (expected ${ CONTENT_MANIFEST_VERSION }); rebuild the manifest`,
+			ErrorTypes.VALIDATION,
+			{ version: manifest.version }
+		)
+	}
+	return manifest as ContentManifest
+}
+
+/**
+ * Creates a content source that serves post metadata from a manifest
+ *
+ * Metadata includes the precomputed read time, and the excerpt when the
+ * frontmatter has none. Bodies and auxiliary files such as `_categories.md`
+ * are read from the `bodies` source, one post at a time.
+ *
+ * @param manifest - Manifest, e.g. the imported JSON file (checked with parseContentManifest)
+ * @param options - Source options
+ * @returns Content source
+ * @throws {BlogError} When the manifest isn't supported
+ */
+export function createManifestContentSource(
+	manifest: unknown,
+	options: ManifestContentSourceOptions = {}
+): ContentSource {
+	const { posts } = parseContentManifest(manifest)
+	const bodies = options.bodies ?? createGlobContentSource(getBlogPostFiles)
+	const postsByPath = new Map(posts.map(post => [ post.path, post ]))
+
+	const getPost = (postPath: string): ContentManifestPost => {
+		const post = postsByPath.get(postPath)
+		if (!post) {
+			throw new Error(`Post not found in manifest: ${ postPath }`)
+		}
+		return post
+	}
+
+	return {
+		listPosts(): Promise<string[]> {
+			return Promise.resolve(posts.map(post => post.path))
+		},
+
+		loadMetadata(postPath: string): Promise<unknown> {
+			return Promise.resolve().then(() => {
+				const { metadata, readTime, excerpt } = getPost(postPath)
+				return {
+					...metadata,
+					readTime: typeof metadata['readTime'] === 'number' && metadata['readTime'] > 0 ? metadata['readTime'] : readTime,
+					...(typeof metadata['excerpt'] !== 'string' && excerpt ? { excerpt } : {})
+				}
+			})
+		},
+
+		readPostContent(postPath: string): Promise<string> {
+			return bodies.readPostContent(postPath)
+		},
+
+		readContentFile(name: string): Promise<string | null> {
+			return bodies.readContentFile(name)
+		},
+
+		getContentHash(postPath: string): Promise<string | null> {
+			return Promise.resolve(postsByPath.get(postPath)?.hash ?? null)
+		}
+	}
+}
+
+/**
+ * Builds a manifest and writes it as JSON
+ *
+ * For build scripts; requires Node.js.
+ *
+ * @param outFile - Output file path, relative to the working directory
+ * @param options - Build options
+ * @returns The written manifest
+ * @throws {BlogError} Outside Node.js, or in strict mode when frontmatter is invalid
+ */
+export async function writeContentManifest(outFile: string, options: BuildContentManifestOptions = {}): Promise<ContentManifest> {
+	const fs = await getNodeFs()
+	const path = await getNodePath()
+	if (!fs || !path) {
+		throw new BlogError('writeContentManifest requires Node.js environment', ErrorTypes.SERVER)
+	}
+
+	const manifest = await buildContentManifest(options)
+	const target = path.resolve(getCwd(), outFile)
+	await fs.promises.mkdir(path.dirname(target), { recursive: true })
+	await fs.promises.writeFile(target, `${ JSON.stringify(manifest, null, '\t') }\n`, 'utf-8')
+
+	logger.info(`Wrote content manifest with ${ manifest.posts.length } posts to ${ outFile }`)
+	return manifest
+}
+
+/**
+ * Vite plugin that writes the content manifest at the start of each build
+ *
+ * Posts are read from disk, so the manifest exists before the app imports
+ * it. Register the result with
+ * `initBlogConfig(config, { contentSource: createManifestContentSource(manifest) })`.
+ *
+ * @param options - Plugin options
+ * @returns Vite plugin
+ */
+export function blogContentManifest(options: BlogContentManifestPluginOptions = {}): BlogContentManifestPlugin {
+	const { outFile = 'src/lib/blog-manifest.json', postsDir, contentDir } = options
+	let root = getCwd()
+
+	return {
+		name: 'goobits-blog-content-manifest',
+		apply: 'build',
+
+		configResolved(config: { root: string }): void {
+			({ root } = config)
+		},
+
+		async buildStart(): Promise<void> {
+			const source = createFilesystemContentSource({
+				root,
+				...(postsDir !== undefined ? { postsDir } : {}),
+				...(contentDir !== undefined ? { contentDir } : {})
+			})
+			await writeContentManifest(`${ root.replace(/\/+$/, '') }/${ outFile }`, { source })
+		}
+	}
+}
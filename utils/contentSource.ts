@@ -0,0 +1,276 @@
+/**
+ * Content sources for blog posts
+ *
+ * A content source lists posts, loads their frontmatter and bodies, and reads
+ * auxiliary content files such as `_categories.md`. `getAllPosts`,
+ * `getMarkdownContent` and `loadCategoryDescriptions` all go through the
+ * source registered with `initBlogConfig({}, { contentSource })`, falling
+ * back to the Vite glob of `getBlogPostFiles()`.
+ */
+
+import { blogConfig, getBlogPostFiles, getContentSource, type GlobImportRecord } from '../config/index.js'
+import { parseFrontmatter, stripFrontmatter } from './frontmatter.js'
+import { hashContent } from './cache.js'
+import { getCwd, getNodeFs, getNodePath, isNodeEnvironment, type NodeDirent } from './nodeModules.js'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('ContentSource')
+
+/**
+ * Where blog content comes from
+ *
+ * Post paths are opaque identifiers; file-based sources use
+ * `{posts.contentBasePath}/{year}/{month}/{slug}.md` so URLs and
+ * import paths match the default glob.
+ */
+export interface ContentSource {
+	/** Lists the paths of all posts */
+	listPosts(): Promise<string[]>
+	/** Loads the frontmatter of a post */
+	loadMetadata(postPath: string): Promise<unknown>
+	/** Reads the markdown body of a post, without frontmatter */
+	readPostContent(postPath: string): Promise<string>
+	/** Reads a content file such as `_categories.md`, or null when it doesn't exist */
+	readContentFile(name: string): Promise<string | null>
+	/**
+	 * Returns a hash of the post's source so unchanged posts can skip reprocessing,
+	 * or null when it can't be computed cheaply (the frontmatter is hashed instead)
+	 */
+	getContentHash?(postPath: string): Promise<string | null>
+}
+
+/** Options for the filesystem content source */
+export interface FilesystemContentSourceOptions {
+	/** Project root the directories are relative to (default: process.cwd()) */
+	root?: string
+	/** Directory containing the posts (default: src/content/Blog) */
+	postsDir?: string
+	/** Directory containing auxiliary files like _categories.md (default: src/content) */
+	contentDir?: string
+}
+
+/** Options for the glob content source */
+export type GlobContentSourceOptions = FilesystemContentSourceOptions
+
+/** A post of the in-memory content source: raw markdown or parsed parts */
+export type MemoryContentPost = string | { metadata: Record<string, unknown>, content?: string }
+
+/** Options for the in-memory content source */
+export interface MemoryContentSourceOptions {
+	/** Posts keyed by path */
+	posts: Record<string, MemoryContentPost>
+	/** Auxiliary content files keyed by name, e.g. `_categories.md` */
+	files?: Record<string, string>
+}
+
+/**
+ * Maps a post path to its path relative to the posts directory
+ * @param postPath - Post path such as `@blog/2024/01/post.md`
+ * @returns Relative path such as `2024/01/post.md`
+ */
+function toRelativePostPath(postPath: string): string {
+	const basePath = blogConfig.posts.contentBasePath
+	const relative = postPath.startsWith(basePath) ? postPath.slice(basePath.length) : postPath
+	return relative.replace(/^\/+/, '')
+}
+
+/**
+ * Reads a file relative to the project root
+ * @returns File contents, or null when the file can't be read
+ */
+async function readProjectFile(root: string | undefined, ...segments: string[]): Promise<string | null> {
+	const fs = await getNodeFs()
+	const path = await getNodePath()
+	if (!fs || !path) { return null }
+
+	try {
+		return await fs.promises.readFile(path.join(root ?? getCwd(), ...segments), 'utf-8')
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Creates a content source that reads markdown files from a directory
+ *
+ * For Node scripts and tools that run without Vite.
+ *
+ * @param options - Directory options
+ * @returns Content source
+ */
+export function createFilesystemContentSource(options: FilesystemContentSourceOptions = {}): ContentSource {
+	const { root, postsDir = 'src/content/Blog', contentDir = 'src/content' } = options
+
+	const readPost = async (postPath: string): Promise<string> => {
+		const source = await readProjectFile(root, postsDir, toRelativePostPath(postPath))
+		if (source === null) {
+			throw new Error(`Post not found: ${ postPath }`)
+		}
+		return source
+	}
+
+	return {
+		async listPosts(): Promise<string[]> {
+			const fs = await getNodeFs()
+			const path = await getNodePath()
+			if (!fs || !path) {
+				logger.warn('Filesystem content source requires Node.js environment')
+				return []
+			}
+
+			const baseDir = path.resolve(root ?? getCwd(), postsDir)
+			const found: string[] = []
+
+			const walk = async (relativeDir: string): Promise<void> => {
+				let entries: NodeDirent[]
+				try {
+					entries = await fs.promises.readdir(path.join(baseDir, relativeDir), { withFileTypes: true })
+				} catch {
+					return
+				}
+				for (const entry of entries) {
+					const relativePath = relativeDir ? `${ relativeDir }/${ entry.name }` : entry.name
+					if (entry.isDirectory()) {
+						await walk(relativePath)
+					} else if (entry.isFile() && entry.name.endsWith('.md') && !entry.name.startsWith('_')) {
+						found.push(`${ blogConfig.posts.contentBasePath }/${ relativePath }`)
+					}
+				}
+			}
+
+			await walk('')
+			return found.sort()
+		},
+
+		async loadMetadata(postPath: string): Promise<unknown> {
+			return parseFrontmatter(await readPost(postPath)).data
+		},
+
+		async readPostContent(postPath: string): Promise<string> {
+			return stripFrontmatter(await readPost(postPath))
+		},
+
+		readContentFile(name: string): Promise<string | null> {
+			return readProjectFile(root, contentDir, name)
+		},
+
+		async getContentHash(postPath: string): Promise<string | null> {
+			const source = await readProjectFile(root, postsDir, toRelativePostPath(postPath))
+			return source === null ? null : hashContent(source)
+		}
+	}
+}
+
+/**
+ * Creates a content source backed by a Vite `import.meta.glob` record
+ *
+ * Frontmatter comes from the compiled modules (e.g. mdsvex `metadata`
+ * exports). Bodies and auxiliary files are read from disk on the server and
+ * fetched in the browser.
+ *
+ * @param files - Glob record, or a function returning one
+ * @param options - Directory options for reading raw files
+ * @returns Content source
+ */
+export function createGlobContentSource(
+	files: GlobImportRecord | (() => GlobImportRecord),
+	options: GlobContentSourceOptions = {}
+): ContentSource {
+	const { root, postsDir = 'src/content/Blog', contentDir = 'src/content' } = options
+	const getFiles = (): GlobImportRecord => (typeof files === 'function' ? files() : files)
+
+	return {
+		listPosts(): Promise<string[]> {
+			return Promise.resolve(Object.keys(getFiles()))
+		},
+
+		async loadMetadata(postPath: string): Promise<unknown> {
+			const resolver = getFiles()[postPath]
+			if (!resolver) {
+				throw new Error(`Post not found: ${ postPath }`)
+			}
+			const postModule = await resolver() as { metadata?: unknown } | undefined
+			return postModule?.metadata
+		},
+
+		async readPostContent(postPath: string): Promise<string> {
+			const relativePath = toRelativePostPath(postPath)
+
+			// Server-side (Node.js) environment
+			if (isNodeEnvironment()) {
+				const source = await readProjectFile(root, postsDir, relativePath)
+				return source === null ? '' : stripFrontmatter(source)
+			}
+
+			// Browser environment
+			const response = await fetch(`/${ postsDir }/${ relativePath }`)
+			return stripFrontmatter(await response.text())
+		},
+
+		readContentFile(name: string): Promise<string | null> {
+			return readProjectFile(root, contentDir, name)
+		},
+
+		async getContentHash(postPath: string): Promise<string | null> {
+			const source = await readProjectFile(root, postsDir, toRelativePostPath(postPath))
+			return source === null ? null : hashContent(source)
+		}
+	}
+}
+
+/**
+ * Creates a content source from posts and files held in memory
+ *
+ * Useful in tests and for content loaded from databases or JSON exports.
+ *
+ * @param options - Posts and auxiliary files
+ * @returns Content source
+ */
+export function createMemoryContentSource(options: MemoryContentSourceOptions): ContentSource {
+	const { posts, files = {} } = options
+
+	const getPost = (postPath: string): { metadata: Record<string, unknown>, content: string } => {
+		const post = posts[postPath]
+		if (post === undefined) {
+			throw new Error(`Post not found: ${ postPath }`)
+		}
+		if (typeof post === 'string') {
+			const { data, content } = parseFrontmatter(post)
+			return { metadata: data, content }
+		}
+		return { metadata: post.metadata, content: post.content ?? '' }
+	}
+
+	return {
+		listPosts(): Promise<string[]> {
+			return Promise.resolve(Object.keys(posts))
+		},
+
+		loadMetadata(postPath: string): Promise<unknown> {
+			return Promise.resolve().then(() => getPost(postPath).metadata)
+		},
+
+		readPostContent(postPath: string): Promise<string> {
+			return Promise.resolve().then(() => getPost(postPath).content)
+		},
+
+		readContentFile(name: string): Promise<string | null> {
+			return Promise.resolve(files[name] ?? null)
+		},
+
+		getContentHash(postPath: string): Promise<string | null> {
+			const post = posts[postPath]
+			if (post === undefined) { return Promise.resolve(null) }
+			return Promise.resolve(hashContent(typeof post === 'string' ? post : JSON.stringify(post)))
+		}
+	}
+}
+
+/**
+ * Gets the content source in use: the one registered with initBlogConfig,
+ * or a glob source over getBlogPostFiles()
+ * @returns Content source
+ */
+export function resolveContentSource(): ContentSource {
+	return getContentSource() ?? createGlobContentSource(getBlogPostFiles)
+}
@@ -0,0 +1,198 @@
+/**
+ * Development watchers that keep blog caches in sync with content edits
+ *
+ * Opt-in: use `blogContentWatcher()` as a Vite plugin to invalidate caches
+ * and reload the browser, or call `watchBlogContent()` from server code
+ * (e.g. hooks.server.ts in dev) to invalidate caches in-process.
+ */
+
+import { invalidateBlogCache } from './blogUtils.js'
+import { getCwd, getNodeFs, getNodePath, type NodeFsWatcher } from './nodeModules.js'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('ContentWatcher')
+
+// Module the Vite plugin loads to reach the SSR instance of the caches
+const DEFAULT_UTILS_MODULE = '@goobits/blog/utils'
+
+/** Options for watchBlogContent */
+export interface WatchBlogContentOptions {
+	/** Project root the directories are relative to (default: process.cwd()) */
+	root?: string
+	/** Directory containing posts and `_categories*.md` files (default: src/content) */
+	contentDir?: string
+	/** Milliseconds to wait for more changes before invalidating (default: 50) */
+	debounce?: number
+	/** Called with the changed files after their cache entries were invalidated */
+	onChange?: (files: string[]) => void
+}
+
+/** Handle returned by watchBlogContent */
+export interface BlogContentWatcher {
+	close(): void
+}
+
+/** Options for the blogContentWatcher Vite plugin */
+export interface BlogContentWatcherPluginOptions {
+	/** Directory containing posts and `_categories*.md` files, relative to the Vite root (default: src/content) */
+	contentDir?: string
+	/** Milliseconds to wait for more changes before invalidating (default: 50) */
+	debounce?: number
+	/** Reload the browser after content changes (default: true) */
+	reload?: boolean
+	/** Module exporting invalidateBlogCache, loaded through the SSR module graph (default: @goobits/blog/utils) */
+	utilsModule?: string
+}
+
+/** Subset of the Vite dev server used by the plugin */
+export interface BlogContentDevServer {
+	config: { root: string }
+	watcher: {
+		add(paths: string | readonly string[]): unknown
+		on(event: 'add' | 'change' | 'unlink', listener: (file: string) => void): unknown
+	}
+	ws: { send(payload: { type: 'full-reload', path?: string }): void }
+	ssrLoadModule(url: string): Promise<Record<string, unknown>>
+}
+
+/** Vite plugin returned by blogContentWatcher */
+export interface BlogContentWatcherPlugin {
+	name: string
+	apply: 'serve'
+	configureServer(server: BlogContentDevServer): void
+}
+
+/**
+ * Checks whether a changed file affects blog content
+ * @param file - Changed file path
+ * @returns True for markdown posts, taxonomy files and `_authors.json`
+ */
+export function isBlogContentFile(file: string): boolean {
+	return /\.md$/i.test(file) || /(^|\/)_authors\.json$/.test(file)
+}
+
+/**
+ * Collects changed files and flushes them once no change arrived for `delay` ms
+ * @param delay - Debounce delay in milliseconds
+ * @param flush - Called with the unique changed files
+ * @returns Function that records a changed file
+ */
+function createChangeBatch(delay: number, flush: (files: string[]) => void): (file: string) => void {
+	const pending = new Set<string>()
+	let timer: ReturnType<typeof setTimeout> | null = null
+
+	return (file: string): void => {
+		pending.add(file.replace(/\\/g, '/'))
+		if (timer) { clearTimeout(timer) }
+		timer = setTimeout(() => {
+			timer = null
+			const files = [ ...pending ]
+			pending.clear()
+			flush(files)
+		}, delay)
+	}
+}
+
+/**
+ * Watches the content directory and invalidates the blog caches on change
+ *
+ * Runs in the same module instance as getAllPosts, so call it from server
+ * code. Requires Node.js; resolves to a no-op watcher elsewhere.
+ *
+ * @param options - Watch options
+ * @returns Watcher handle; call close() to stop watching
+ */
+export async function watchBlogContent(options: WatchBlogContentOptions = {}): Promise<BlogContentWatcher> {
+	const { root, contentDir = 'src/content', debounce = 50, onChange } = options
+
+	const fs = await getNodeFs()
+	const path = await getNodePath()
+	if (!fs || !path) {
+		logger.warn('watchBlogContent requires Node.js environment')
+		return { close: (): void => {} }
+	}
+
+	const watchedDir = path.resolve(root ?? getCwd(), contentDir)
+	const record = createChangeBatch(debounce, files => {
+		files.forEach(file => { invalidateBlogCache(file) })
+		logger.info(`Blog content changed: ${ files.join(', ') }`)
+		onChange?.(files)
+	})
+
+	let watcher: NodeFsWatcher
+	try {
+		watcher = fs.watch(watchedDir, { recursive: true }, (_eventType, filename) => {
+			if (filename && isBlogContentFile(filename)) {
+				record(path.join(watchedDir, filename))
+			}
+		})
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error)
+		logger.warn(`Could not watch blog content in ${ watchedDir }: ${ errorMessage }`)
+		return { close: (): void => {} }
+	}
+
+	watcher.on('error', error => {
+		logger.warn('Blog content watcher error:', error)
+	})
+
+	return { close: (): void => { watcher.close() } }
+}
+
+/**
+ * Vite plugin that invalidates blog caches and reloads the page when
+ * content changes during development
+ *
+ * The caches live in the SSR module graph, so the plugin reaches them
+ * through `server.ssrLoadModule`. `_categories*.md` files are watched too,
+ * even though no module imports them.
+ *
+ * @param options - Plugin options
+ * @returns Vite plugin
+ */
+export function blogContentWatcher(options: BlogContentWatcherPluginOptions = {}): BlogContentWatcherPlugin {
+	const {
+		contentDir = 'src/content',
+		debounce = 50,
+		reload = true,
+		utilsModule = DEFAULT_UTILS_MODULE
+	} = options
+
+	return {
+		name: 'goobits-blog-content-watcher',
+		apply: 'serve',
+
+		configureServer(server: BlogContentDevServer): void {
+			const watchedDir = `${ server.config.root.replace(/\\/g, '/').replace(/\/+$/, '') }/${ contentDir.replace(/^\.?\/+|\/+$/g, '') }`
+			server.watcher.add(watchedDir)
+
+			const record = createChangeBatch(debounce, files => {
+				server.ssrLoadModule(utilsModule)
+					.then(utils => {
+						const invalidate = utils['invalidateBlogCache']
+						if (typeof invalidate === 'function') {
+							files.forEach(file => { (invalidate as (path: string) => void)(file) })
+						}
+						logger.info(`Blog content changed: ${ files.join(', ') }`)
+						if (reload) {
+							server.ws.send({ type: 'full-reload', path: '*' })
+						}
+					})
+					.catch((error: unknown) => {
+						logger.warn('Could not invalidate blog caches:', error)
+					})
+			})
+
+			const onFileEvent = (file: string): void => {
+				const normalized = file.replace(/\\/g, '/')
+				if (normalized.startsWith(`${ watchedDir }/`) && isBlogContentFile(normalized)) {
+					record(normalized)
+				}
+			}
+
+			server.watcher.on('add', onFileEvent)
+			server.watcher.on('change', onFileEvent)
+			server.watcher.on('unlink', onFileEvent)
+		}
+	}
+}
@@ -0,0 +1,206 @@
+/**
+ * Full-content rendering helpers for feeds
+ *
+ * Feeds embed the post body as HTML. Posts are stored as markdown (usually
+ * compiled by mdsvex in the consuming app), so this module provides a small
+ * markdown renderer for feed readers and makes relative URLs absolute.
+ */
+
+import type { ProcessedPost } from './blogUtils.js'
+
+/** Function that renders the body of a post to HTML for a feed item */
+export type FeedContentRenderer = (post: ProcessedPost) => string
+
+/**
+ * Escapes HTML special characters in text content
+ * @param str - String to escape
+ * @returns HTML-safe string
+ */
+function escapeHtml(str: string): string {
+	return str
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Renders inline markdown (code, images, links, emphasis) in a line of text
+ * @param text - Raw markdown text
+ * @returns HTML string
+ */
+function renderInline(text: string): string {
+	const codeSpans: string[] = []
+
+	// Pull out code spans first so their contents are not formatted
+	let html = text.replace(/`([^`]+)`/g, (_match, code: string) => {
+		codeSpans.push(`<code>${ escapeHtml(code) }</code>`)
+		return `\u0000${ codeSpans.length - 1 }\u0000`
+	})
+
+	html = escapeHtml(html)
+		.replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;([^&]*)&quot;)?\)/g, (_match, alt: string, src: string, title?: string) =>
+			`<img src="${ src }" alt="${ alt }"${ title ? ` title="${ title }"` : '' } />`)
+		.replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+		.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+		.replace(/__([^_]+)__/g, '<strong>$1</strong>')
+		.replace(/\*([^*]+)\*/g, '<em>$1</em>')
+		.replace(/\b_([^_]+)_\b/g, '<em>$1</em>')
+
+	// eslint-disable-next-line no-control-regex -- NUL delimits code span placeholders
+	return html.replace(/\u0000(\d+)\u0000/g, (_match, index: string) => codeSpans[Number(index)] ?? '')
+}
+
+/**
+ * Converts markdown to HTML for feed readers
+ *
+ * Supports headings, paragraphs, lists, blockquotes, fenced code, images,
+ * links and emphasis. Block-level HTML is passed through, while Svelte
+ * `<script>` and `<style>` blocks are dropped.
+ *
+ * @param markdown - Markdown body without frontmatter
+ * @returns HTML string
+ */
+export function markdownToHtml(markdown: string): string {
+	if (!markdown) { return '' }
+
+	const source = markdown
+		.replace(/\r\n?/g, '\n')
+		.replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+
+	const lines = source.split('\n')
+	const blocks: string[] = []
+	let paragraph: string[] = []
+	let list: { type: 'ul' | 'ol', items: string[] } | null = null
+
+	const flushParagraph = (): void => {
+		if (paragraph.length > 0) {
+			blocks.push(`<p>${ renderInline(paragraph.join(' ')) }</p>`)
+			paragraph = []
+		}
+	}
+	const flushList = (): void => {
+		if (list) {
+			blocks.push(`<${ list.type }>${ list.items.map(item => `<li>${ renderInline(item) }</li>`).join('') }</${ list.type }>`)
+			list = null
+		}
+	}
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i] ?? ''
+		const trimmed = line.trim()
+
+		// Fenced code blocks
+		const fence = trimmed.match(/^(```|~~~)\s*([\w-]*)/)
+		if (fence) {
+			flushParagraph()
+			flushList()
+			const codeLines: string[] = []
+			i++
+			while (i < lines.length && !(lines[i] ?? '').trim().startsWith(fence[1] ?? '```')) {
+				codeLines.push(lines[i] ?? '')
+				i++
+			}
+			const langClass = fence[2] ? ` class="language-${ fence[2] }"` : ''
+			blocks.push(`<pre><code${ langClass }>${ escapeHtml(codeLines.join('\n')) }</code></pre>`)
+			continue
+		}
+
+		if (!trimmed) {
+			flushParagraph()
+			flushList()
+			continue
+		}
+
+		const heading = trimmed.match(/^(#{1,6})\s+(.+?)\s*#*$/)
+		if (heading?.[1] && heading[2]) {
+			flushParagraph()
+			flushList()
+			const level = heading[1].length
+			blocks.push(`<h${ level }>${ renderInline(heading[2]) }</h${ level }>`)
+			continue
+		}
+
+		const listItem = trimmed.match(/^([-*+]|\d+\.)\s+(.+)$/)
+		if (listItem?.[1] && listItem[2]) {
+			flushParagraph()
+			const type = /^\d/.test(listItem[1]) ? 'ol' : 'ul'
+			if (list && list.type !== type) { flushList() }
+			list = list ?? { type, items: [] }
+			list.items.push(listItem[2])
+			continue
+		}
+
+		if (trimmed.startsWith('>')) {
+			flushParagraph()
+			flushList()
+			blocks.push(`<blockquote><p>${ renderInline(trimmed.replace(/^>\s?/, '')) }</p></blockquote>`)
+			continue
+		}
+
+		if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+			flushParagraph()
+			flushList()
+			blocks.push('<hr />')
+			continue
+		}
+
+		// Block-level HTML passes through untouched
+		if (trimmed.startsWith('<')) {
+			flushParagraph()
+			flushList()
+			blocks.push(trimmed)
+			continue
+		}
+
+		flushList()
+		paragraph.push(trimmed)
+	}
+
+	flushParagraph()
+	flushList()
+
+	return blocks.join('\n')
+}
+
+/**
+ * Resolves a possibly relative URL against a base URL
+ * @param url - URL from the content
+ * @param baseUrl - Absolute URL to resolve against
+ * @returns Absolute URL, or the input when it can't or shouldn't be resolved
+ */
+export function toAbsoluteUrl(url: string, baseUrl: string): string {
+	if (!url || /^(?:[a-z][a-z0-9+.-]*:|#)/i.test(url)) {
+		return url
+	}
+
+	try {
+		return new URL(url, baseUrl).href
+	} catch {
+		return url
+	}
+}
+
+/**
+ * Rewrites relative `src` and `href` attributes in HTML to absolute URLs
+ * so images and links keep working inside feed readers
+ *
+ * @param html - HTML content
+ * @param baseUrl - Absolute URL relative paths are resolved against (usually the post URL)
+ * @returns HTML with absolute URLs
+ */
+export function absolutizeUrls(html: string, baseUrl: string): string {
+	return html.replace(
+		/(\s(?:src|href|poster)\s*=\s*)(["'])(.*?)\2/gi,
+		(_match, attr: string, quote: string, url: string) => `${ attr }${ quote }${ toAbsoluteUrl(url, baseUrl) }${ quote }`
+	)
+}
+
+/**
+ * Wraps text in a CDATA section, splitting any `]]>` sequences it contains
+ * @param text - Text to wrap
+ * @returns CDATA section
+ */
+export function wrapCdata(text: string): string {
+	return `<![CDATA[${ text.replace(/]]>/g, ']]]]><![CDATA[>') }]]>`
+}
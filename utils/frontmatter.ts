@@ -0,0 +1,445 @@
+/**
+ * Frontmatter parsing for markdown content
+ *
+ * Content sources that read raw markdown (filesystem, in-memory) need to
+ * split the YAML frontmatter from the body without a bundler. The parser
+ * covers the YAML subset used in post frontmatter: nested mappings, block
+ * and flow lists, quoted and plain scalars, block scalars (`|`, `>`) and
+ * comments. Values are never coerced to dates, so `date` stays a string.
+ */
+
+import { BlogError } from './errorHandler.js'
+
+// Parsed markdown file
+export interface FrontmatterResult {
+	data: Record<string, unknown>
+	content: string
+}
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---[ \t]*\n([\s\S]*?)\n?---[ \t]*(?:\n|$)/
+
+// Keys that would modify object prototypes when assigned
+const UNSAFE_KEYS = new Set([ '__proto__', 'constructor', 'prototype' ])
+
+/**
+ * Checks whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Finds the quote closing a quoted scalar, skipping the `''` escape in
+ * single-quoted and backslash escapes in double-quoted scalars
+ * @param text - Text containing the scalar
+ * @param start - Index of the opening quote
+ * @returns Index of the closing quote, or -1 when the scalar is unterminated
+ */
+function findClosingQuote(text: string, start: number): number {
+	const quote = text[start]
+	for (let i = start + 1; i < text.length; i++) {
+		const char = text[i]
+		if (quote === '"' && char === '\\') {
+			i++
+		} else if (char === quote) {
+			if (quote === '\'' && text[i + 1] === '\'') {
+				i++
+			} else {
+				return i
+			}
+		}
+	}
+	return -1
+}
+
+/**
+ * Finds the index of the `:` separating a mapping key from its value
+ * @param text - Line content without indentation
+ * @returns Index of the separator, or -1 when the line is not a key/value pair
+ */
+function findKeySeparator(text: string): number {
+	let start = 0
+	const quote = text[0]
+	if (quote === '"' || quote === '\'') {
+		const end = findClosingQuote(text, 0)
+		if (end === -1) { return -1 }
+		start = end + 1
+	} else if (quote === '[' || quote === '{') {
+		return -1
+	}
+
+	for (let i = start; i < text.length; i++) {
+		if (text[i] === ':' && (i === text.length - 1 || text[i + 1] === ' ' || text[i + 1] === '\t')) {
+			return i
+		}
+	}
+	return -1
+}
+
+/**
+ * Removes a trailing `# comment`, ignoring `#` inside quoted scalars
+ * @param text - Line content without indentation
+ * @returns Content without the comment
+ */
+function stripComment(text: string): string {
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+		const previous = i === 0 ? ' ' : (text[i - 1] ?? ' ')
+		if ((char === '"' || char === '\'') && /[\s:\-[{,]/.test(previous)) {
+			const end = findClosingQuote(text, i)
+			if (end === -1) { break }
+			i = end
+		} else if (char === '#' && /\s/.test(previous)) {
+			return text.slice(0, i).trimEnd()
+		}
+	}
+	return text.trimEnd()
+}
+
+/**
+ * Counts unclosed brackets of a flow collection, ignoring quoted text
+ */
+function flowDepth(text: string): number {
+	let depth = 0
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+		if (char === '"' || char === '\'') {
+			const end = findClosingQuote(text, i)
+			if (end === -1) { break }
+			i = end
+		} else if (char === '[' || char === '{') {
+			depth++
+		} else if (char === ']' || char === '}') {
+			depth--
+		}
+	}
+	return depth
+}
+
+/**
+ * Splits the inside of a flow collection on top-level commas
+ */
+function splitFlowItems(inner: string): string[] {
+	const items: string[] = []
+	let depth = 0
+	let current = ''
+
+	for (let i = 0; i < inner.length; i++) {
+		const char = inner[i] ?? ''
+		if (char === '"' || char === '\'') {
+			const end = findClosingQuote(inner, i)
+			const quoted = end === -1 ? inner.slice(i) : inner.slice(i, end + 1)
+			current += quoted
+			i += quoted.length - 1
+			continue
+		} else if (char === '[' || char === '{') {
+			depth++
+		} else if (char === ']' || char === '}') {
+			depth--
+		} else if (char === ',' && depth === 0) {
+			items.push(current.trim())
+			current = ''
+			continue
+		}
+		current += char
+	}
+
+	if (current.trim()) { items.push(current.trim()) }
+	return items
+}
+
+/**
+ * Parses a YAML document using the subset supported for frontmatter
+ *
+ * @param source - YAML text
+ * @returns Parsed value (null for an empty document)
+ * @throws BlogError With type MARKDOWN_PARSE when the YAML is malformed
+ */
+export function parseYaml(source: string): unknown {
+	const lines = source.replace(/\r\n?/g, '\n').split('\n')
+	let index = 0
+
+	const fail = (message: string, lineIndex = index): BlogError =>
+		new BlogError(`Invalid YAML on line ${ lineIndex + 1 }: ${ message }`, 'MARKDOWN_PARSE', { line: lineIndex + 1 })
+
+	const isBlank = (raw: string): boolean => {
+		const trimmed = raw.trim()
+		return trimmed === '' || trimmed.startsWith('#')
+	}
+
+	const indentOf = (raw: string, lineIndex: number): number => {
+		const indent = raw.match(/^ */)?.[0].length ?? 0
+		if (raw[indent] === '\t') { throw fail('tabs are not allowed for indentation', lineIndex) }
+		return indent
+	}
+
+	const skipBlank = (): void => {
+		while (index < lines.length && isBlank(lines[index] ?? '')) { index++ }
+	}
+
+	const isListItem = (text: string): boolean => text === '-' || text.startsWith('- ')
+
+	const parseScalar = (value: string, lineIndex: number): unknown => {
+		if (value === '' || value === '~' || /^null$/i.test(value)) { return null }
+		if (/^true$/i.test(value)) { return true }
+		if (/^false$/i.test(value)) { return false }
+
+		if (value.startsWith('"')) {
+			if (!value.endsWith('"') || value.length < 2) { throw fail('unterminated double-quoted string', lineIndex) }
+			try {
+				return JSON.parse(value.replace(/\t/g, '\\t').replace(/\n/g, '\\n')) as string
+			} catch {
+				throw fail('invalid escape sequence in double-quoted string', lineIndex)
+			}
+		}
+		if (value.startsWith('\'')) {
+			if (!value.endsWith('\'') || value.length < 2) { throw fail('unterminated single-quoted string', lineIndex) }
+			return value.slice(1, -1).replace(/''/g, '\'')
+		}
+
+		if (value.startsWith('[')) {
+			if (!value.endsWith(']')) { throw fail('unterminated flow sequence', lineIndex) }
+			return splitFlowItems(value.slice(1, -1)).map(item => parseScalar(item, lineIndex))
+		}
+		if (value.startsWith('{')) {
+			if (!value.endsWith('}')) { throw fail('unterminated flow mapping', lineIndex) }
+			const result: Record<string, unknown> = {}
+			splitFlowItems(value.slice(1, -1)).forEach(item => {
+				const separator = item.indexOf(':')
+				if (separator === -1) { throw fail(`expected "key: value" in flow mapping, got "${ item }"`, lineIndex) }
+				const key = String(parseScalar(item.slice(0, separator).trim(), lineIndex))
+				if (!UNSAFE_KEYS.has(key)) {
+					result[key] = parseScalar(item.slice(separator + 1).trim(), lineIndex)
+				}
+			})
+			return result
+		}
+
+		if (/^[-+]?\d+$/.test(value)) { return parseInt(value, 10) }
+		if (/^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?$/.test(value)) { return parseFloat(value) }
+
+		return value
+	}
+
+	const parseBlockScalar = (indicator: string, parentIndent: number): string => {
+		const folded = indicator.startsWith('>')
+		const chomping = indicator[1]
+		const collected: string[] = []
+		let blockIndent = -1
+
+		while (index < lines.length) {
+			const raw = lines[index] ?? ''
+			if (raw.trim() === '') {
+				collected.push('')
+				index++
+				continue
+			}
+			const indent = indentOf(raw, index)
+			if (indent <= parentIndent) { break }
+			if (blockIndent === -1) { blockIndent = indent }
+			if (indent < blockIndent) { break }
+			collected.push(raw.slice(blockIndent))
+			index++
+		}
+
+		// Trailing blank lines belong to chomping, not content
+		let trailing = 0
+		while (collected.length > 0 && collected[collected.length - 1] === '') {
+			collected.pop()
+			trailing++
+		}
+
+		let text = ''
+		if (folded) {
+			// Lines fold into spaces; blank and more-indented lines keep their breaks
+			collected.forEach((line, i) => {
+				const previous = collected[i - 1]
+				if (line === '') {
+					text += '\n'
+				} else if (i === 0 || previous === '') {
+					text += line
+				} else {
+					text += line.startsWith(' ') || previous?.startsWith(' ') ? `\n${ line }` : ` ${ line }`
+				}
+			})
+		} else {
+			text = collected.join('\n')
+		}
+
+		if (chomping === '-' || text === '') { return text }
+		return `${ text }\n${ chomping === '+' ? '\n'.repeat(trailing) : '' }`
+	}
+
+	// Collects continuation lines of a multi-line quoted, flow or plain scalar
+	const readScalarText = (first: string, parentIndent: number): string => {
+		let text = first
+		const isOpenQuote = (): boolean => {
+			const quote = text[0]
+			if (quote !== '"' && quote !== '\'') { return false }
+			return findClosingQuote(text, 0) === -1
+		}
+		const isOpenFlow = (): boolean => (text.startsWith('[') || text.startsWith('{')) && flowDepth(text) > 0
+
+		while (index < lines.length) {
+			const raw = lines[index] ?? ''
+			if (isOpenQuote() || isOpenFlow()) {
+				index++
+				if (raw.trim() === '') {
+					text += '\n'
+				} else {
+					text += `${ text.endsWith('\n') ? '' : ' ' }${ raw.trim() }`
+				}
+				continue
+			}
+			if (isBlank(raw) || text.startsWith('"') || text.startsWith('\'')) { break }
+			const indent = indentOf(raw, index)
+			const trimmed = stripComment(raw.slice(indent))
+			if (indent <= parentIndent || findKeySeparator(trimmed) !== -1 || isListItem(trimmed)) { break }
+			text += ` ${ trimmed }`
+			index++
+		}
+
+		return text
+	}
+
+	// Mapping values may start a list at the key's own indentation
+	const parseValue = (rest: string, parentIndent: number, lineIndex: number, allowSameIndentList: boolean): unknown => {
+		if (rest === '') {
+			skipBlank()
+			if (index >= lines.length) { return null }
+			const raw = lines[index] ?? ''
+			const indent = indentOf(raw, index)
+			const text = stripComment(raw.slice(indent))
+			if (indent > parentIndent) { return parseNode() }
+			if (allowSameIndentList && indent === parentIndent && isListItem(text)) { return parseList(indent) }
+			return null
+		}
+
+		if (/^[|>][+-]?$/.test(rest)) { return parseBlockScalar(rest, parentIndent) }
+
+		return parseScalar(readScalarText(rest, parentIndent), lineIndex)
+	}
+
+	const parseList = (indent: number): unknown[] => {
+		const result: unknown[] = []
+
+		for (;;) {
+			skipBlank()
+			if (index >= lines.length) { break }
+			const raw = lines[index] ?? ''
+			const lineIndent = indentOf(raw, index)
+			if (lineIndent < indent) { break }
+			if (lineIndent > indent) { throw fail('unexpected indentation') }
+
+			const text = stripComment(raw.slice(lineIndent))
+			if (!isListItem(text)) { break }
+
+			const itemText = text.slice(1).trimStart()
+			const itemIndent = lineIndent + (text.length - itemText.length)
+
+			if (itemText !== '' && findKeySeparator(itemText) !== -1) {
+				// "- key: value" starts a mapping indented at the item's content
+				lines[index] = `${ ' '.repeat(itemIndent) }${ itemText }`
+				result.push(parseMap(itemIndent))
+				continue
+			}
+
+			const lineIndex = index
+			index++
+			result.push(parseValue(itemText, indent, lineIndex, false))
+		}
+
+		return result
+	}
+
+	const parseMap = (indent: number): Record<string, unknown> => {
+		const result: Record<string, unknown> = {}
+
+		for (;;) {
+			skipBlank()
+			if (index >= lines.length) { break }
+			const raw = lines[index] ?? ''
+			const lineIndent = indentOf(raw, index)
+			if (lineIndent < indent) { break }
+			if (lineIndent > indent) { throw fail('unexpected indentation') }
+
+			const text = stripComment(raw.slice(lineIndent))
+			if (isListItem(text)) { throw fail('unexpected list item in a mapping') }
+
+			const separator = findKeySeparator(text)
+			if (separator === -1) { throw fail(`expected "key: value", got "${ text }"`) }
+
+			const rawKey = text.slice(0, separator).trim()
+			const key = rawKey.startsWith('"') || rawKey.startsWith('\'') ? String(parseScalar(rawKey, index)) : rawKey
+			if (key === '') { throw fail('missing key') }
+			if (Object.prototype.hasOwnProperty.call(result, key)) { throw fail(`duplicate key "${ key }"`) }
+
+			const lineIndex = index
+			index++
+			const value = parseValue(text.slice(separator + 1).trim(), lineIndent, lineIndex, true)
+			if (!UNSAFE_KEYS.has(key)) {
+				result[key] = value
+			}
+		}
+
+		return result
+	}
+
+	function parseNode(): unknown {
+		skipBlank()
+		if (index >= lines.length) { return null }
+		const raw = lines[index] ?? ''
+		const indent = indentOf(raw, index)
+		const text = stripComment(raw.slice(indent))
+
+		if (isListItem(text)) { return parseList(indent) }
+		if (findKeySeparator(text) !== -1) { return parseMap(indent) }
+
+		const lineIndex = index
+		index++
+		return parseScalar(readScalarText(text, indent - 1), lineIndex)
+	}
+
+	const result = parseNode()
+	skipBlank()
+	if (index < lines.length) {
+		throw fail('unexpected content after the end of the document')
+	}
+	return result
+}
+
+/**
+ * Splits a markdown file into its YAML frontmatter and body
+ *
+ * @param source - Markdown file contents
+ * @returns Frontmatter data (empty when there is none) and the body
+ * @throws BlogError With type MARKDOWN_PARSE when the frontmatter is malformed
+ */
+export function parseFrontmatter(source: string): FrontmatterResult {
+	const normalized = source.replace(/\r\n?/g, '\n')
+	const match = normalized.match(FRONTMATTER_PATTERN)
+
+	if (!match) {
+		return { data: {}, content: normalized }
+	}
+
+	const data = parseYaml(match[1] ?? '')
+	if (data !== null && !isRecord(data)) {
+		throw new BlogError('Frontmatter must be a mapping of keys to values', 'MARKDOWN_PARSE')
+	}
+
+	return {
+		data: data ?? {},
+		content: normalized.slice(match[0].length)
+	}
+}
+
+/**
+ * Removes the frontmatter block from a markdown file
+ * @param source - Markdown file contents
+ * @returns The markdown body
+ */
+export function stripFrontmatter(source: string): string {
+	const normalized = source.replace(/\r\n?/g, '\n')
+	return normalized.replace(FRONTMATTER_PATTERN, '')
+}
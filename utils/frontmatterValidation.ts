@@ -0,0 +1,266 @@
+/**
+ * Frontmatter schema validation for blog posts
+ *
+ * Checks post metadata against the shape of `PostMetadata` and reports each
+ * problem with the file path, field and reason, so broken frontmatter is
+ * caught at build time instead of rendering silently wrong pages.
+ */
+
+import type { FrontmatterValidationMode } from '../config/index.js'
+import { BlogError } from './errorHandler.js'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('FrontmatterValidation')
+
+// Single frontmatter problem
+export interface MetadataDiagnostic {
+	filePath: string
+	field: string
+	message: string
+}
+
+type FieldValidator = (value: unknown) => string | null
+
+/**
+ * Describes the runtime type of a value for diagnostics
+ * @param value - Value to describe
+ * @returns Type name, e.g. "string", "array" or "null"
+ */
+function describeType(value: unknown): string {
+	if (value === null) { return 'null' }
+	if (Array.isArray(value)) { return 'array' }
+	if (value instanceof Date) { return 'date' }
+	return typeof value
+}
+
+/**
+ * Checks whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+}
+
+const nonEmptyString: FieldValidator = value => {
+	if (typeof value !== 'string') { return `must be a string (got ${ describeType(value) })` }
+	return value.trim() ? null : 'must not be empty'
+}
+
+const optionalString: FieldValidator = value =>
+	typeof value === 'string' ? null : `must be a string (got ${ describeType(value) })`
+
+const booleanField: FieldValidator = value =>
+	typeof value === 'boolean' ? null : `must be true or false (got ${ describeType(value) })`
+
+const dateField: FieldValidator = value => {
+	if (typeof value !== 'string' && !(value instanceof Date)) {
+		return `must be a date string (got ${ describeType(value) })`
+	}
+	return isNaN(new Date(value).getTime()) ? `is not a valid date ("${ String(value) }")` : null
+}
+
+const stringListField: FieldValidator = value => {
+	if (!Array.isArray(value)) {
+		return `must be a list of strings (got ${ describeType(value) })`
+	}
+	const index = value.findIndex(item => typeof item !== 'string' || !item.trim())
+	return index === -1 ? null : `item ${ index } must be a non-empty string`
+}
+
+const slugField: FieldValidator = value => {
+	const error = nonEmptyString(value)
+	if (error) { return error }
+	return /[/\s?#]/.test(value as string) ? 'must not contain slashes, spaces, "?" or "#"' : null
+}
+
+const readTimeField: FieldValidator = value =>
+	typeof value === 'number' && Number.isFinite(value) && value >= 0
+		? null
+		: `must be a non-negative number (got ${ describeType(value) })`
+
+/**
+ * Validates a nested object field (author, image) and appends its diagnostics
+ */
+function validateObjectField(
+	value: unknown,
+	field: string,
+	shape: Record<string, { validate: FieldValidator, required?: boolean }>,
+	report: (field: string, message: string) => void
+): void {
+	if (!isRecord(value)) {
+		report(field, `must be an object (got ${ describeType(value) })`)
+		return
+	}
+
+	Object.entries(shape).forEach(([ key, { validate, required = false } ]) => {
+		const nested = value[key]
+		if (nested === undefined || nested === null) {
+			if (required) { report(`${ field }.${ key }`, 'is required') }
+			return
+		}
+		const error = validate(nested)
+		if (error) { report(`${ field }.${ key }`, error) }
+	})
+}
+
+const positiveNumber: FieldValidator = value =>
+	typeof value === 'number' && Number.isFinite(value) && value > 0
+		? null
+		: `must be a positive number (got ${ describeType(value) })`
+
+const imageShape = {
+	src: { validate: nonEmptyString, required: true },
+	alt: { validate: optionalString, required: true },
+	width: { validate: positiveNumber },
+	height: { validate: positiveNumber }
+}
+
+const authorShape = {
+	name: { validate: nonEmptyString, required: true },
+	id: { validate: nonEmptyString },
+	avatar: { validate: optionalString },
+	url: { validate: optionalString },
+	role: { validate: optionalString },
+	bio: { validate: optionalString }
+}
+
+/**
+ * Validates an author given either as a registry id or as an inline object
+ */
+function validateAuthorField(value: unknown, field: string, report: (field: string, message: string) => void): void {
+	if (typeof value === 'string') {
+		const error = nonEmptyString(value)
+		if (error) { report(field, error) }
+		return
+	}
+	validateObjectField(value, field, authorShape, report)
+}
+
+const scalarFields: Record<string, FieldValidator> = {
+	title: nonEmptyString,
+	date: dateField,
+	slug: slugField,
+	category: nonEmptyString,
+	excerpt: optionalString,
+	featured: booleanField,
+	draft: booleanField,
+	unlisted: booleanField,
+	publishAt: dateField,
+	updated: dateField,
+	readTime: readTimeField,
+	series: nonEmptyString,
+	seriesOrder: positiveNumber,
+	categories: stringListField,
+	tags: stringListField
+}
+
+/**
+ * Validates the fields of a metadata object (shared by posts and their translations)
+ */
+function validateFields(
+	metadata: Record<string, unknown>,
+	prefix: string,
+	report: (field: string, message: string) => void
+): void {
+	Object.entries(scalarFields).forEach(([ field, validate ]) => {
+		const value = metadata[field]
+		if (value === undefined || value === null) { return }
+		const error = validate(value)
+		if (error) { report(`${ prefix }${ field }`, error) }
+	})
+
+	if (metadata['author'] !== undefined && metadata['author'] !== null) {
+		validateAuthorField(metadata['author'], `${ prefix }author`, report)
+	}
+	const { authors } = metadata
+	if (authors !== undefined && authors !== null) {
+		if (Array.isArray(authors)) {
+			authors.forEach((author: unknown, index) => {
+				validateAuthorField(author, `${ prefix }authors[${ index }]`, report)
+			})
+		} else {
+			report(`${ prefix }authors`, `must be a list of author ids or objects (got ${ describeType(authors) })`)
+		}
+	}
+	[ 'image', 'thumbnail' ].forEach(field => {
+		if (metadata[field] !== undefined && metadata[field] !== null) {
+			validateObjectField(metadata[field], `${ prefix }${ field }`, imageShape, report)
+		}
+	})
+}
+
+/**
+ * Validates post frontmatter against the PostMetadata schema
+ *
+ * @param metadata - Raw frontmatter exported by the post module
+ * @param filePath - Path of the post file, used in diagnostics
+ * @returns List of problems (empty when the frontmatter is valid)
+ */
+export function validatePostMetadata(metadata: unknown, filePath: string): MetadataDiagnostic[] {
+	const diagnostics: MetadataDiagnostic[] = []
+	const report = (field: string, message: string): void => {
+		diagnostics.push({ filePath, field, message })
+	}
+
+	if (!isRecord(metadata)) {
+		report('metadata', `must be an object (got ${ describeType(metadata) })`)
+		return diagnostics
+	}
+
+	if (metadata['title'] === undefined || metadata['title'] === null) { report('title', 'is required') }
+	if (metadata['date'] === undefined || metadata['date'] === null) { report('date', 'is required') }
+
+	validateFields(metadata, '', report)
+
+	const { i18n } = metadata
+	if (i18n !== undefined && i18n !== null) {
+		if (isRecord(i18n)) {
+			Object.entries(i18n).forEach(([ langCode, translation ]) => {
+				if (isRecord(translation)) {
+					validateFields(translation, `i18n.${ langCode }.`, report)
+				} else {
+					report(`i18n.${ langCode }`, `must be an object (got ${ describeType(translation) })`)
+				}
+			})
+		} else {
+			report('i18n', `must be an object (got ${ describeType(i18n) })`)
+		}
+	}
+
+	return diagnostics
+}
+
+/**
+ * Formats a diagnostic as a single readable line
+ * @param diagnostic - Diagnostic to format
+ * @returns Line such as `2024/01/post.md: tags must be a list of strings (got string)`
+ */
+export function formatMetadataDiagnostic(diagnostic: MetadataDiagnostic): string {
+	return `${ diagnostic.filePath }: ${ diagnostic.field } ${ diagnostic.message }`
+}
+
+/**
+ * Surfaces frontmatter diagnostics according to the validation mode:
+ * strict throws (failing the build), lenient logs a warning per problem
+ *
+ * @param diagnostics - Problems collected from one or more posts
+ * @param mode - Validation mode
+ * @throws BlogError With type INVALID_METADATA in strict mode when there are problems
+ */
+export function reportMetadataDiagnostics(diagnostics: MetadataDiagnostic[], mode: FrontmatterValidationMode): void {
+	if (mode === 'off' || diagnostics.length === 0) { return }
+
+	const lines = diagnostics.map(formatMetadataDiagnostic)
+
+	if (mode === 'strict') {
+		const fileCount = new Set(diagnostics.map(diagnostic => diagnostic.filePath)).size
+		throw new BlogError(
+			`Invalid frontmatter in ${ fileCount } post${ fileCount === 1 ? '' : 's' }:\n${ lines.map(line => `  - ${ line }`).join('\n') }`,
+			'INVALID_METADATA',
+			{ diagnostics }
+		)
+	}
+
+	lines.forEach(line => {
+		logger.warn(`Invalid frontmatter: ${ line }`)
+	})
+}
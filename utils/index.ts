@@ -1,5 +1,17 @@
 // Utility exports for @goo/blog package
 export * from './blogUtils.js'
+export * from './feedContent.js'
+export * from './frontmatter.js'
+export * from './contentSource.js'
+export * from './cache.js'
+export * from './contentWatcher.js'
+export * from './contentManifest.js'
+export * from './search.js'
+export * from './frontmatterValidation.js'
+export * from './sitemapUtils.js'
+export * from './seoUtils.js'
+export * from './ogImage.js'
+export * from './structuredData.js'
 export * from './breadcrumbUtils.js'
 export * from './classUtils.js'
 export * from './readTimeUtils.js'
@@ -22,12 +22,14 @@ export type MessageGetter = (key: string, fallback?: string, ...args: unknown[])
 /**
  * Creates a message getter function that handles both string and function messages
  *
- * @param messages - Object containing message strings or functions
+ * @param messages - Object containing message strings or functions, such as overrides of the default messages
  * @returns A function that retrieves messages with fallback support
  * @throws TypeError If messages is not an object
  */
-export function createMessageGetter(messages: MessagesObject = {}): MessageGetter {
+export function createMessageGetter(messages: MessagesObject | Partial<DefaultMessages> = {}): MessageGetter {
 	if (messages !== null && typeof messages === 'object') {
+		// Default message functions have typed parameters; lookups call them with the getter's args
+		const userMessages = messages as MessagesObject
 		return (key: string, fallback?: string, ...args: unknown[]): string | MessageValue => {
 			// Validate key to prevent prototype pollution
 			if (typeof key !== 'string' || key === '__proto__' || key === 'constructor') {
@@ -36,7 +38,7 @@ export function createMessageGetter(messages: MessagesObject = {}): MessageGette
 			}
 
 			// First check user messages
-			const userMsg = messages[key]
+			const userMsg = userMessages[key]
 			if (userMsg !== undefined) {
 				if (typeof userMsg === 'function') {
 					try {
@@ -0,0 +1,93 @@
+/**
+ * Lazy access to Node.js built-in modules
+ *
+ * The package also runs in the browser, so Node modules are never imported
+ * statically. These helpers resolve them at runtime and return null outside
+ * Node.js.
+ */
+
+// Declare Node.js globals for environments where @types/node may not be installed
+declare const process: { cwd: () => string, getBuiltinModule?: (id: string) => unknown } | undefined
+
+// Node.js module types for dynamic import
+export type NodeDirent = {
+	name: string
+	isDirectory(): boolean
+	isFile(): boolean
+}
+
+export type NodeFsPromises = {
+	readFile(path: string, encoding: string): Promise<string>
+	readdir(path: string, options: { withFileTypes: true }): Promise<NodeDirent[]>
+	writeFile(path: string, data: string, encoding: string): Promise<void>
+	mkdir(path: string, options: { recursive: true }): Promise<unknown>
+}
+
+export type NodeFsWatcher = {
+	close(): void
+	on(event: 'error', listener: (error: unknown) => void): unknown
+}
+
+export type NodeFs = {
+	promises: NodeFsPromises
+	watch(
+		path: string,
+		options: { recursive?: boolean },
+		listener: (eventType: string, filename: string | null) => void
+	): NodeFsWatcher
+}
+
+export type NodePath = {
+	dirname(path: string): string
+	join(...paths: string[]): string
+	resolve(...paths: string[]): string
+}
+
+/**
+ * Checks whether the code runs in Node.js
+ */
+export function isNodeEnvironment(): boolean {
+	return typeof process !== 'undefined'
+}
+
+/**
+ * Gets the current working directory in Node.js
+ * @returns Working directory, or an empty string outside Node.js
+ */
+export function getCwd(): string {
+	return typeof process === 'undefined' ? '' : process.cwd()
+}
+
+// Loads a Node.js built-in module
+// Prefers process.getBuiltinModule, which also works inside VM contexts such as
+// test runners, and otherwise uses the Function constructor to avoid bundler
+// issues with dynamic imports
+async function importNodeModule<T>(id: string): Promise<T | null> {
+	if (typeof process === 'undefined') { return null }
+
+	const builtin = process.getBuiltinModule?.(id) as T | undefined
+	if (builtin !== undefined) { return builtin }
+
+	try {
+		// eslint-disable-next-line @typescript-eslint/no-implied-eval, @typescript-eslint/no-unsafe-call, no-new-func
+		return await (Function('id', 'return import(id)')(id) as Promise<T>)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Gets the Node.js fs module
+ * @returns fs module, or null outside Node.js
+ */
+export function getNodeFs(): Promise<NodeFs | null> {
+	return importNodeModule<NodeFs>('fs')
+}
+
+/**
+ * Gets the Node.js path module
+ * @returns path module, or null outside Node.js
+ */
+export function getNodePath(): Promise<NodePath | null> {
+	return importNodeModule<NodePath>('path')
+}
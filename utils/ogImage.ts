@@ -0,0 +1,120 @@
+/**
+ * Generated OpenGraph images for posts without an image of their own
+ *
+ * Renders a 1200x630 SVG card from the post title, emoji, category and
+ * authors in the theme colors. createOgImageHandler serves it, optionally
+ * rasterized to PNG.
+ */
+
+import { blogConfig, type BlogConfig } from '../config/index.js'
+import {
+	escapeXml,
+	getEmojiFromTitle,
+	getPostAuthors,
+	getPostCategories,
+	type ProcessedPost
+} from './blogUtils.js'
+
+/** Width of generated OpenGraph images in pixels */
+export const OG_IMAGE_WIDTH = 1200
+
+/** Height of generated OpenGraph images in pixels */
+export const OG_IMAGE_HEIGHT = 630
+
+// Title layout: characters per line at the title font size, and lines before truncating
+const TITLE_FONT_SIZE = 64
+const TITLE_LINE_HEIGHT = 76
+const TITLE_LINE_LENGTH = 24
+const TITLE_MAX_LINES = 3
+
+/**
+ * Wraps a title into lines of at most TITLE_LINE_LENGTH characters,
+ * truncating with an ellipsis after TITLE_MAX_LINES lines
+ */
+function wrapTitle(title: string): string[] {
+	const lines: string[] = []
+	let line = ''
+
+	for (const word of title.split(/\s+/).filter(Boolean)) {
+		// Break words longer than a whole line
+		const chunks = word.match(new RegExp(`.{1,${ TITLE_LINE_LENGTH }}`, 'gu')) ?? []
+		for (const chunk of chunks) {
+			const candidate = line ? `${ line } ${ chunk }` : chunk
+			if (candidate.length <= TITLE_LINE_LENGTH) {
+				line = candidate
+			} else {
+				lines.push(line)
+				line = chunk
+			}
+		}
+	}
+	if (line) { lines.push(line) }
+
+	if (lines.length <= TITLE_MAX_LINES) { return lines }
+	const kept = lines.slice(0, TITLE_MAX_LINES)
+	const last = kept[TITLE_MAX_LINES - 1] ?? ''
+	kept[TITLE_MAX_LINES - 1] = `${ last.slice(0, TITLE_LINE_LENGTH - 1).trimEnd() }…`
+	return kept
+}
+
+/**
+ * Renders the OpenGraph image of a post as SVG
+ *
+ * @param post - The post to render
+ * @param config - Blog configuration (name, theme colors and font)
+ * @returns 1200x630 SVG document
+ */
+export function renderOgImageSvg(post: ProcessedPost, config: BlogConfig = blogConfig): string {
+	const { colors, fontFamily } = config.theme
+	const { title } = post.metadata.fm
+	const emoji = getEmojiFromTitle(title, config.pageContent.emptyStateEmoji)
+	// The emoji is drawn on its own, so leave pictographs out of the title text
+	const lines = wrapTitle(title.replace(/[\p{Extended_Pictographic}\uFE0F]/gu, '').trim())
+	const [ category ] = getPostCategories(post)
+	const authors = getPostAuthors(post).map(author => author.name).join(', ')
+	const font = escapeXml(fontFamily)
+	const titleTop = 330 - (lines.length - 1) * TITLE_LINE_HEIGHT / 2
+
+	const svg = [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${ OG_IMAGE_WIDTH }" height="${ OG_IMAGE_HEIGHT }" viewBox="0 0 ${ OG_IMAGE_WIDTH } ${ OG_IMAGE_HEIGHT }">`,
+		`  <rect width="${ OG_IMAGE_WIDTH }" height="${ OG_IMAGE_HEIGHT }" fill="${ escapeXml(colors.background) }"/>`,
+		`  <rect width="16" height="${ OG_IMAGE_HEIGHT }" fill="${ escapeXml(colors.primary) }"/>`
+	]
+	if (category) {
+		svg.push(`  <text x="80" y="110" font-family="${ font }" font-size="28" font-weight="600" letter-spacing="2" fill="${ escapeXml(colors.accent) }">${ escapeXml(category.toUpperCase()) }</text>`)
+	}
+	svg.push(
+		`  <text x="1120" y="190" font-size="140" text-anchor="end">${ escapeXml(emoji) }</text>`,
+		`  <text x="80" y="${ titleTop }" font-family="${ font }" font-size="${ TITLE_FONT_SIZE }" font-weight="700" fill="${ escapeXml(colors.text) }">`,
+		...lines.map((line, index) => `    <tspan x="80" dy="${ index === 0 ? 0 : TITLE_LINE_HEIGHT }">${ escapeXml(line) }</tspan>`),
+		'  </text>'
+	)
+	if (authors) {
+		svg.push(`  <text x="80" y="550" font-family="${ font }" font-size="28" fill="${ escapeXml(colors.muted) }">${ escapeXml(authors) }</text>`)
+	}
+	svg.push(
+		`  <text x="1120" y="550" font-family="${ font }" font-size="28" font-weight="700" text-anchor="end" fill="${ escapeXml(colors.primary) }">${ escapeXml(config.name) }</text>`,
+		'</svg>'
+	)
+
+	return `${ svg.join('\n') }\n`
+}
+
+/**
+ * Gets the URL of a post's generated OpenGraph image
+ *
+ * Localized posts carry a `lang` query param so the handler renders the
+ * translated title.
+ *
+ * @param post - The post
+ * @param config - Blog configuration (`seo.ogImages`)
+ * @returns Root-relative image URL, or null when generated images are off
+ */
+export function getOgImageUrl(post: ProcessedPost, config: BlogConfig = blogConfig): string | null {
+	const { path, format } = config.seo.ogImages
+	if (!path) { return null }
+
+	const base = path.endsWith('/') ? path.slice(0, -1) : path
+	const lang = post.lang && post.lang !== (config.i18n?.defaultLanguage ?? 'en') ? `?lang=${ encodeURIComponent(post.lang) }` : ''
+	return `${ base }${ post.urlPath }.${ format }${ lang }`
+}
@@ -0,0 +1,520 @@
+/**
+ * Full-text search for blog posts
+ *
+ * Builds a serializable inverted index over post titles, excerpts, tags,
+ * categories and bodies, and ranks posts against a query. Terms are
+ * normalized per language (diacritics removed, stopwords dropped, light
+ * suffix stemming), so the same code runs on the server and in the browser.
+ */
+
+import { getAllPosts, getPostCategories, getPostExcerpt, getPostTags, slugify, type ProcessedPost } from './blogUtils.js'
+import { LruCache, getCacheConfig } from './cache.js'
+import { BlogError, ErrorTypes } from './errorHandler.js'
+
+/** Search index format version, bumped on incompatible changes */
+export const SEARCH_INDEX_VERSION = 1
+
+// Relative weight of a term occurrence per field
+const FIELD_WEIGHTS = {
+	title: 5,
+	tags: 3,
+	categories: 3,
+	excerpt: 2,
+	body: 1
+} as const
+
+// BM25 term frequency saturation
+const TERM_SATURATION = 1.2
+
+// Score multiplier for terms matched only by prefix
+const PREFIX_MATCH_FACTOR = 0.7
+
+// Score multiplier for terms matched only by edit distance
+const FUZZY_MATCH_FACTOR = 0.5
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+// Stopwords and stemming suffixes (longest first) per language
+interface SearchLanguage {
+	stopwords: ReadonlySet<string>
+	suffixes: readonly string[]
+	minStemLength: number
+}
+
+const SEARCH_LANGUAGES: Record<string, SearchLanguage> = {
+	en: {
+		stopwords: new Set([
+			'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+			'can', 'could', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if',
+			'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'out',
+			'she', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'up',
+			'us', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will', 'with', 'would', 'you', 'your'
+		]),
+		suffixes: [
+			'ational', 'ization', 'fulness', 'iveness', 'ousness', 'ements', 'ement', 'ments', 'ment', 'ness',
+			'ings', 'ing', 'edly', 'ied', 'ies', 'ed', 'ly', 'es', 's'
+		],
+		minStemLength: 3
+	},
+	es: {
+		stopwords: new Set([
+			'a', 'al', 'algo', 'como', 'con', 'de', 'del', 'el', 'ella', 'ellos', 'en', 'entre', 'era', 'es', 'esta',
+			'este', 'esto', 'fue', 'ha', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'mas', 'me', 'mi', 'muy', 'no',
+			'nos', 'o', 'para', 'pero', 'por', 'que', 'se', 'si', 'sin', 'sobre', 'son', 'su', 'sus', 'tambien', 'te',
+			'tu', 'un', 'una', 'uno', 'unos', 'y', 'ya', 'yo'
+		]),
+		suffixes: [
+			'amientos', 'imientos', 'amiento', 'imiento', 'aciones', 'uciones', 'idades', 'acion', 'ucion', 'mente',
+			'idad', 'ismos', 'istas', 'ables', 'ibles', 'ismo', 'ista', 'able', 'ible', 'anza', 'es', 'os', 'as', 's',
+			'a', 'o', 'e'
+		],
+		minStemLength: 3
+	},
+	fr: {
+		stopwords: new Set([
+			'a', 'au', 'aux', 'avec', 'ce', 'ces', 'dans', 'de', 'des', 'du', 'elle', 'en', 'est', 'et', 'eu', 'il',
+			'ils', 'je', 'la', 'le', 'les', 'leur', 'lui', 'ma', 'mais', 'me', 'mes', 'mon', 'ne', 'nous', 'on', 'ou',
+			'par', 'pas', 'pour', 'qu', 'que', 'qui', 'sa', 'se', 'ses', 'son', 'sont', 'sur', 'ta', 'te', 'tes', 'ton',
+			'tu', 'un', 'une', 'vos', 'votre', 'vous', 'y'
+		]),
+		suffixes: [
+			'issements', 'issement', 'atrices', 'ateurs', 'ations', 'ements', 'atrice', 'ateur', 'ation', 'ement',
+			'ismes', 'istes', 'ables', 'euses', 'isme', 'iste', 'able', 'euse', 'ites', 'ives', 'eux', 'ite', 'ive',
+			'ifs', 'if', 'es', 's', 'e', 'x'
+		],
+		minStemLength: 3
+	},
+	de: {
+		stopwords: new Set([
+			'aber', 'als', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'das', 'dass', 'dem', 'den', 'der',
+			'des', 'die', 'du', 'ein', 'eine', 'einem', 'einen', 'einer', 'er', 'es', 'fur', 'hat', 'ich', 'ihr', 'im',
+			'in', 'ist', 'ja', 'kein', 'mit', 'nach', 'nicht', 'noch', 'nur', 'oder', 'sich', 'sie', 'sind', 'so',
+			'um', 'und', 'uns', 'von', 'vor', 'war', 'was', 'wie', 'wir', 'zu', 'zum', 'zur'
+		]),
+		suffixes: [
+			'heiten', 'keiten', 'ungen', 'heit', 'keit', 'lich', 'isch', 'ung', 'ern', 'em', 'en', 'er', 'es', 'e', 's', 'n'
+		],
+		minStemLength: 3
+	}
+}
+
+/** A post in the search index */
+export interface SearchDocument {
+	/** Post summary without body or translations, enough to render a card */
+	post: ProcessedPost
+	/** Plain-text body used for snippets (omitted when the index is built without text) */
+	text?: string
+}
+
+/** Postings of a term: `[documentIndex, weightedFrequency]` pairs */
+export type SearchPostings = [ number, number ][]
+
+/** Serializable inverted index over posts of one language */
+export interface SearchIndex {
+	version: typeof SEARCH_INDEX_VERSION
+	lang: string
+	documents: SearchDocument[]
+	terms: Record<string, SearchPostings>
+}
+
+/** Options for buildSearchIndex */
+export interface BuildSearchIndexOptions {
+	/** Language used for stopwords and stemming (default: en) */
+	lang?: string
+	/** Store each post's plain-text body for snippets (default: true) */
+	includeText?: boolean
+	/** Maximum stored body length in characters (default: 5000) */
+	maxTextLength?: number
+}
+
+/** Options for searchBlog */
+export interface SearchOptions {
+	/** Only return posts in this category (matched by slug) */
+	category?: string
+	/** Only return posts with this tag (matched by slug) */
+	tag?: string
+	/** Treat the last query word as a prefix, for search-as-you-type (default: true) */
+	prefix?: boolean
+	/** Also match words one typo away (two for words of eight or more letters) (default: false) */
+	fuzzy?: boolean
+	/** Maximum snippet length in characters (default: 160) */
+	snippetLength?: number
+}
+
+/** A ranked search result */
+export interface SearchResult {
+	post: ProcessedPost
+	score: number
+	/** HTML-escaped text around the first match, with matches wrapped in `<mark>` */
+	snippet: string
+}
+
+/**
+ * Normalizes a word for indexing: lowercase, no diacritics, stemmed
+ * @param word - Word to normalize
+ * @param lang - Language code
+ * @returns Search term
+ */
+export function normalizeSearchTerm(word: string, lang = 'en'): string {
+	const language = SEARCH_LANGUAGES[lang.split('-')[0] ?? lang]
+	let term = word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/ß/g, 'ss')
+	if (!language) { return term }
+
+	const suffix = language.suffixes.find(candidate =>
+		term.endsWith(candidate) && term.length - candidate.length >= language.minStemLength
+	)
+	if (suffix) {
+		term = term.slice(0, term.length - suffix.length)
+		if (lang.startsWith('en')) {
+			if (suffix === 'ies' || suffix === 'ied') { term += 'y' }
+			// running -> run, stopped -> stop
+			if ((suffix.startsWith('ing') || suffix.startsWith('ed')) && /([^aeiouls])\1$/.test(term)) {
+				term = term.slice(0, -1)
+			}
+		}
+	}
+	// cache and caches share a stem
+	if (lang.startsWith('en') && term.endsWith('e') && term.length > 4) {
+		term = term.slice(0, -1)
+	}
+	return term
+}
+
+/**
+ * Splits text into search terms, dropping stopwords
+ * @param text - Text to analyze
+ * @param lang - Language code
+ * @returns Search terms in order of appearance
+ */
+export function analyzeSearchText(text: string, lang = 'en'): string[] {
+	const stopwords = SEARCH_LANGUAGES[lang.split('-')[0] ?? lang]?.stopwords
+	const terms: string[] = []
+	for (const [ word ] of text.matchAll(WORD_PATTERN)) {
+		const lower = word.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+		if (lower.length < 2 || stopwords?.has(lower)) { continue }
+		terms.push(normalizeSearchTerm(lower, lang))
+	}
+	return terms
+}
+
+/**
+ * Converts a markdown body to plain text for indexing and snippets
+ * @param markdown - Markdown body
+ * @returns Plain text on a single line
+ */
+function toPlainText(markdown: string): string {
+	return markdown
+		.replace(/<[^>]*>/g, ' ')
+		.replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[#*_~`>|]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+}
+
+/**
+ * Strips a post down to the fields needed to list it
+ * @param post - Processed post
+ * @returns Post without body content and translations
+ */
+function toSearchPost(post: ProcessedPost): ProcessedPost {
+	const { content: _content, ...rest } = post
+	const { i18n: _i18n, ...fm } = post.metadata.fm
+	return { ...rest, metadata: { fm } }
+}
+
+/**
+ * Builds a search index over posts
+ *
+ * Pass posts loaded with `includeContent: true` so bodies are indexed.
+ *
+ * @param posts - Posts to index, in one language
+ * @param options - Index options
+ * @returns Serializable search index
+ */
+export function buildSearchIndex(posts: ProcessedPost[], options: BuildSearchIndexOptions = {}): SearchIndex {
+	const { lang = 'en', includeText = true, maxTextLength = 5000 } = options
+	const terms = new Map<string, SearchPostings>()
+
+	const documents = posts.map((post, documentIndex): SearchDocument => {
+		const { fm } = post.metadata
+		const text = toPlainText(post.content ?? '')
+		const fields: [ keyof typeof FIELD_WEIGHTS, string ][] = [
+			[ 'title', fm.title ?? '' ],
+			[ 'tags', getPostTags(post).join(' ') ],
+			[ 'categories', getPostCategories(post).join(' ') ],
+			[ 'excerpt', fm.excerpt ?? '' ],
+			[ 'body', text ]
+		]
+
+		const weights = new Map<string, number>()
+		fields.forEach(([ field, value ]) => {
+			analyzeSearchText(value, lang).forEach(term => {
+				weights.set(term, (weights.get(term) ?? 0) + FIELD_WEIGHTS[field])
+			})
+		})
+		weights.forEach((weight, term) => {
+			const postings = terms.get(term)
+			if (postings) {
+				postings.push([ documentIndex, weight ])
+			} else {
+				terms.set(term, [ [ documentIndex, weight ] ])
+			}
+		})
+
+		return {
+			post: toSearchPost(post),
+			...(includeText && text ? { text: text.slice(0, maxTextLength) } : {})
+		}
+	})
+
+	return {
+		version: SEARCH_INDEX_VERSION,
+		lang,
+		documents,
+		terms: Object.fromEntries(terms)
+	}
+}
+
+/**
+ * Escapes text for use in HTML
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Creates an HTML snippet around the first match in a text
+ *
+ * @param text - Plain text to take the snippet from
+ * @param matches - Returns true for normalized terms that should be highlighted
+ * @param lang - Language code
+ * @param length - Maximum snippet length in characters
+ * @returns HTML-escaped snippet with matches wrapped in `<mark>`
+ */
+export function createSearchSnippet(
+	text: string,
+	matches: (term: string) => boolean,
+	lang = 'en',
+	length = 160
+): string {
+	const words = [ ...text.matchAll(WORD_PATTERN) ].map(match => ({
+		start: match.index,
+		end: match.index + match[0].length,
+		hit: matches(normalizeSearchTerm(match[0], lang))
+	}))
+
+	const firstHit = words.find(word => word.hit)
+	let start = firstHit ? Math.max(0, firstHit.start - Math.floor(length / 3)) : 0
+	// Start at a word boundary
+	if (start > 0) {
+		start = words.find(word => word.start >= start)?.start ?? start
+	}
+	let end = Math.min(text.length, start + length)
+	if (end < text.length) {
+		const lastWord = [ ...words ].reverse().find(word => word.end <= end && word.start >= start)
+		end = lastWord?.end ?? end
+	}
+
+	let snippet = start > 0 ? '…' : ''
+	let cursor = start
+	words
+		.filter(word => word.hit && word.start >= start && word.end <= end)
+		.forEach(word => {
+			snippet += `${ escapeHtml(text.slice(cursor, word.start)) }<mark>${ escapeHtml(text.slice(word.start, word.end)) }</mark>`
+			cursor = word.end
+		})
+	snippet += escapeHtml(text.slice(cursor, end))
+	return end < text.length ? `${ snippet }…` : snippet
+}
+
+/**
+ * Checks whether two terms are within a typo budget of each other
+ * @param a - Query term
+ * @param b - Indexed term
+ * @returns True when the Levenshtein distance fits the query term's length
+ */
+function isFuzzyMatch(a: string, b: string): boolean {
+	const maxDistance = a.length >= 8 ? 2 : a.length >= 4 ? 1 : 0
+	if (maxDistance === 0 || Math.abs(a.length - b.length) > maxDistance) { return false }
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+	for (let i = 1; i <= a.length; i++) {
+		const current = [ i ]
+		let rowMin = i
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1
+			const distance = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost)
+			current.push(distance)
+			rowMin = Math.min(rowMin, distance)
+		}
+		if (rowMin > maxDistance) { return false }
+		previous = current
+	}
+	return (previous[b.length] ?? Infinity) <= maxDistance
+}
+
+/**
+ * Searches an index and ranks matching posts
+ *
+ * Every query word must match (the last one as a prefix unless disabled,
+ * and with typos when fuzzy matching is on).
+ * Scores weigh title over tags and categories over excerpt over body;
+ * ties go to the newer post.
+ *
+ * @param index - Index from buildSearchIndex
+ * @param query - Search query
+ * @param options - Filters and matching options
+ * @returns Ranked results
+ */
+export function searchBlog(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+	const { category, tag, prefix = true, fuzzy = false, snippetLength = 160 } = options
+	const queryTerms = [ ...new Set(analyzeSearchText(query, index.lang)) ]
+	if (queryTerms.length === 0) { return [] }
+
+	const indexedTerms = Object.keys(index.terms)
+	const documentCount = index.documents.length
+	const lastTerm = queryTerms[queryTerms.length - 1]
+	const matchedTerms = new Set<string>()
+
+	// Score per document for each query term; documents must match every term
+	let scores: Map<number, number> | null = null
+	for (const queryTerm of queryTerms) {
+		const asPrefix = prefix && queryTerm === lastTerm
+		const candidates = asPrefix || fuzzy
+			? indexedTerms.filter(term => term === queryTerm ||
+				(asPrefix && term.startsWith(queryTerm)) ||
+				(fuzzy && isFuzzyMatch(queryTerm, term)))
+			: Object.hasOwn(index.terms, queryTerm) ? [ queryTerm ] : []
+
+		const termScores = new Map<number, number>()
+		candidates.forEach(term => {
+			const postings = index.terms[term] ?? []
+			const idf = Math.log(1 + (documentCount - postings.length + 0.5) / (postings.length + 0.5))
+			const factor = term === queryTerm
+				? 1
+				: asPrefix && term.startsWith(queryTerm) ? PREFIX_MATCH_FACTOR : FUZZY_MATCH_FACTOR
+			postings.forEach(([ documentIndex, weight ]) => {
+				const score = idf * factor * (weight * (TERM_SATURATION + 1)) / (weight + TERM_SATURATION)
+				termScores.set(documentIndex, Math.max(termScores.get(documentIndex) ?? 0, score))
+			})
+			matchedTerms.add(term)
+		})
+
+		const previous: Map<number, number> | null = scores
+		scores = new Map()
+		for (const [ documentIndex, score ] of termScores) {
+			if (previous === null || previous.has(documentIndex)) {
+				scores.set(documentIndex, score + (previous?.get(documentIndex) ?? 0))
+			}
+		}
+		if (scores.size === 0) { return [] }
+	}
+
+	const categorySlug = category ? slugify(category) : null
+	const tagSlug = tag ? slugify(tag) : null
+	const isHighlighted = (term: string): boolean => matchedTerms.has(term)
+
+	return [ ...(scores ?? new Map<number, number>()) ]
+		.map(([ documentIndex, score ]) => ({ document: index.documents[documentIndex], score }))
+		.filter((entry): entry is { document: SearchDocument, score: number } => {
+			if (!entry.document) { return false }
+			const { post } = entry.document
+			return (!categorySlug || getPostCategories(post).some(name => slugify(name) === categorySlug)) &&
+				(!tagSlug || getPostTags(post).some(name => slugify(name) === tagSlug))
+		})
+		.sort((a, b) => b.score - a.score ||
+			new Date(b.document.post.date).getTime() - new Date(a.document.post.date).getTime())
+		.map(({ document, score }): SearchResult => ({
+			post: document.post,
+			score: Math.round(score * 1000) / 1000,
+			snippet: createSearchSnippet(
+				document.text ?? (getPostExcerpt(document.post) || document.post.metadata.fm.title),
+				isHighlighted,
+				index.lang,
+				snippetLength
+			)
+		}))
+}
+
+// Last built index per language, reused while the post list is unchanged
+const searchIndexCache = new LruCache<{ posts: ProcessedPost[], index: SearchIndex }>(() => {
+	const { enabled, maxEntries } = getCacheConfig()
+	return { maxEntries: enabled ? maxEntries : 0, ttl: 0 }
+})
+
+/**
+ * Gets the search index of a language, building it from getAllPosts
+ *
+ * The index is rebuilt whenever the post list changes (posts are cached by
+ * getAllPosts, so unchanged lists contain the same post objects).
+ *
+ * @param lang - Language code
+ * @returns Search index
+ */
+export async function getSearchIndex(lang = 'en'): Promise<SearchIndex> {
+	const posts = await getAllPosts({ lang, includeContent: true })
+	const cached = searchIndexCache.get(lang)
+	if (cached?.posts.length === posts.length && cached.posts.every((post, i) => post === posts[i])) {
+		return cached.index
+	}
+
+	const index = buildSearchIndex(posts, { lang })
+	searchIndexCache.set(lang, { posts, index })
+	return index
+}
+
+/**
+ * Checks that a value is a search index this version can read
+ * @param value - Parsed JSON
+ * @returns The search index
+ * @throws {BlogError} When the value isn't a supported search index
+ */
+export function parseSearchIndex(value: unknown): SearchIndex {
+	const index = value as Partial<SearchIndex> | null
+	if (typeof index !== 'object' || index === null || !Array.isArray(index.documents) ||
+		typeof index.terms !== 'object' || typeof index.lang !== 'string') {
+		throw new BlogError('Invalid search index', ErrorTypes.VALIDATION)
+	}
+	if (index.version !== SEARCH_INDEX_VERSION) {
+		throw new BlogError(
+			`Unsupported search index version ${ String(index.version) } (expected ${ SEARCH_INDEX_VERSION })`,
+			ErrorTypes.VALIDATION,
+			{ version: index.version }
+		)
+	}
+	return index as SearchIndex
+}
+
+// Prebuilt indexes fetched in the browser, shared by all search components
+const remoteIndexes = new Map<string, Promise<SearchIndex>>()
+
+/**
+ * Fetches a prebuilt search index once per URL
+ *
+ * Failed loads are forgotten so the next call retries.
+ *
+ * @param url - URL of the JSON index, e.g. served by createSearchIndexHandler
+ * @param fetchFn - Fetch implementation (default: global fetch)
+ * @returns Search index
+ * @throws {BlogError} When the index can't be loaded or isn't supported
+ */
+export function loadSearchIndex(url: string, fetchFn: typeof fetch = fetch): Promise<SearchIndex> {
+	const existing = remoteIndexes.get(url)
+	if (existing) { return existing }
+
+	const loading = fetchFn(url)
+		.then(async response => {
+			if (!response.ok) {
+				throw new BlogError(`Failed to load search index (${ response.status })`, ErrorTypes.NETWORK, { url })
+			}
+			return parseSearchIndex(await response.json())
+		})
+	loading.catch(() => { remoteIndexes.delete(url) })
+	remoteIndexes.set(url, loading)
+	return loading
+}
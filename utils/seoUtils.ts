@@ -0,0 +1,383 @@
+/**
+ * Meta and link tags for blog pages: title, description, canonical URL,
+ * OpenGraph, Twitter Cards, hreflang alternates, feed discovery and prev/next
+ */
+
+import { blogConfig, type BlogConfig } from '../config/index.js'
+import type { DefaultMessages } from '../config/defaultMessages.js'
+import {
+	slugify,
+	getPostAuthors,
+	getPostCategories,
+	getPostTags,
+	formatArchiveMonth,
+	type PostAuthor,
+	type PostImage,
+	type PostSummary,
+	type ProcessedPost,
+	type SeriesNavigation
+} from './blogUtils.js'
+import { toAbsoluteUrl } from './feedContent.js'
+import { createMessageGetter } from './messages.js'
+import { getOgImageUrl, OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH } from './ogImage.js'
+import type { SitemapLocalizer } from './sitemapUtils.js'
+
+// A <meta> tag: OpenGraph and article tags use `property`, the rest `name`
+export type SeoMetaTag = { property: string, content: string } | { name: string, content: string }
+
+// A <link> tag
+export interface SeoLinkTag {
+	rel: string
+	href: string
+	hreflang?: string
+	type?: string
+	title?: string
+}
+
+/** Everything BlogSEO renders into <svelte:head> */
+export interface SeoMeta {
+	title: string
+	description: string
+	/** Canonical URL, absolute when a site URL is known */
+	canonical: string
+	meta: SeoMetaTag[]
+	links: SeoLinkTag[]
+}
+
+/**
+ * Page data buildSeoMeta reads, as returned by the route loaders
+ */
+export interface SeoPageData {
+	pageType: string
+	lang?: string
+	post?: ProcessedPost
+	category?: string
+	categoryDescription?: string | null
+	categoryImage?: string | null
+	categoryImageAlt?: string | null
+	categoryPath?: { name: string, path: string }[]
+	tag?: string
+	tagDescription?: string | null
+	tagImage?: string | null
+	tagImageAlt?: string | null
+	year?: string
+	month?: string | null
+	series?: string | SeriesNavigation | null
+	seriesSlug?: string
+	author?: PostAuthor
+	authorId?: string
+	previousPost?: PostSummary | null
+	nextPost?: PostSummary | null
+	/** Current page, for list routes that paginate with `?page=` */
+	page?: number
+	/** Number of pages, for list routes that paginate with `?page=` */
+	pageCount?: number
+}
+
+/**
+ * Options for buildSeoMeta
+ */
+export interface SeoMetaOptions {
+	/** Absolute site origin (default: seo.siteUrl); without one, URLs stay root-relative */
+	siteUrl?: string
+	/** Custom messages for titles and descriptions */
+	messages?: Partial<DefaultMessages>
+	/** Builds the localized path of a page (default: language prefix when includeLanguageInURL is set) */
+	localizePath?: SitemapLocalizer
+}
+
+// Content types of the feeds advertised by feed discovery links
+const FEED_TYPES = {
+	rss: 'application/rss+xml',
+	atom: 'application/atom+xml',
+	json: 'application/feed+json'
+} as const
+
+/**
+ * Formats a date string as an ISO 8601 timestamp
+ * @param date - Date string
+ * @returns ISO timestamp, or undefined when the date is invalid
+ */
+function toIsoDate(date: string | undefined): string | undefined {
+	if (!date) { return undefined }
+	const parsed = new Date(date)
+	return isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
+
+/**
+ * Converts a language code to an OpenGraph locale (pt-BR → pt_BR)
+ */
+function toOgLocale(lang: string): string {
+	return lang.replace('-', '_')
+}
+
+/**
+ * Gets a Twitter handle from a `social.twitter` entry given as a handle or a profile URL
+ */
+function toTwitterHandle(value: string): string | undefined {
+	const handle = value.startsWith('@') ? value.slice(1) : value.split('/').filter(part => part).at(-1)
+	return handle ? `@${ handle }` : undefined
+}
+
+/**
+ * Gets the unlocalized path of the page described by the data
+ * @param data - Page data
+ * @param uri - Base path of the blog
+ * @returns Path of the page, without a language prefix or page query
+ */
+function getPagePath(data: SeoPageData, uri: string): string {
+	switch (data.pageType) {
+	case 'post':
+		return data.post?.urlPath ? `${ uri }${ data.post.urlPath }` : uri
+	case 'category': {
+		const path = data.categoryPath?.at(-1)?.path ?? (data.category ? slugify(data.category) : '')
+		return path ? `${ uri }/category/${ path }` : uri
+	}
+	case 'tag':
+		return data.tag ? `${ uri }/tag/${ slugify(data.tag) }` : uri
+	case 'archive':
+		if (!data.year) { return uri }
+		return data.month ? `${ uri }/${ data.year }/${ data.month }` : `${ uri }/${ data.year }`
+	case 'series':
+		return data.seriesSlug ? `${ uri }/series/${ data.seriesSlug }` : uri
+	case 'author':
+		return data.authorId ? `${ uri }/author/${ data.authorId }` : uri
+	default:
+		return uri
+	}
+}
+
+/**
+ * Gets the image that represents the page
+ * @param data - Page data
+ * @param config - Blog configuration
+ * @returns Image with a root-relative or absolute src, or null
+ */
+function getPageImage(data: SeoPageData, config: BlogConfig): PostImage | null {
+	const fm = data.post?.metadata.fm
+	const postImage = fm?.image?.src ? fm.image : fm?.thumbnail
+	if (data.pageType === 'post' && postImage?.src) { return postImage }
+	// Posts without an image of their own share a generated card
+	const generatedImage = data.pageType === 'post' && data.post ? getOgImageUrl(data.post, config) : null
+	if (fm && generatedImage !== null) {
+		return { src: generatedImage, alt: fm.title, width: OG_IMAGE_WIDTH, height: OG_IMAGE_HEIGHT }
+	}
+	if (data.pageType === 'category' && data.categoryImage) {
+		return { src: data.categoryImage, alt: data.categoryImageAlt ?? data.category ?? '' }
+	}
+	if (data.pageType === 'tag' && data.tagImage) {
+		return { src: data.tagImage, alt: data.tagImageAlt ?? data.tag ?? '' }
+	}
+	if (data.pageType === 'author' && data.author?.avatar) {
+		const { authorsPath } = config.images.defaults
+		const src = /^(?:[a-z][a-z0-9+.-]*:|\/)/i.test(data.author.avatar)
+			? data.author.avatar
+			: `${ authorsPath.endsWith('/') ? authorsPath : `${ authorsPath }/` }${ data.author.avatar }`
+		return { src, alt: data.author.name }
+	}
+	return config.seo.defaultImage ? { src: config.seo.defaultImage, alt: config.name } : null
+}
+
+/**
+ * Builds the title and description of the page
+ */
+function getPageText(
+	data: SeoPageData,
+	config: BlogConfig,
+	getMessage: (key: string, fallback: string, ...args: unknown[]) => string
+): { title: string, description: string } {
+	const { name, description } = config
+	const lang = data.lang ?? config.i18n?.defaultLanguage ?? 'en'
+
+	switch (data.pageType) {
+	case 'post': {
+		const fm = data.post?.metadata.fm
+		const title = fm?.title ?? name
+		return { title: `${ title } - ${ name }`, description: fm?.excerpt || `${ title } - ${ name }` }
+	}
+	case 'category':
+		if (data.category) {
+			return {
+				title: getMessage('categoryPageTitle', `${ data.category } - ${ name }`, data.category, name),
+				description: data.categoryDescription || getMessage('categoryPageDescription', `Posts in ${ data.category }`, data.category, name)
+			}
+		}
+		break
+	case 'tag':
+		if (data.tag) {
+			return {
+				title: getMessage('tagPageTitle', `${ data.tag } - ${ name }`, data.tag, name),
+				description: data.tagDescription || getMessage('tagPageDescription', `Posts tagged ${ data.tag }`, data.tag, name)
+			}
+		}
+		break
+	case 'archive':
+		if (data.year) {
+			const period = data.month ? formatArchiveMonth(data.year, data.month, lang) : data.year
+			return {
+				title: getMessage('archivePageTitle', `${ period } - ${ name }`, period, name),
+				description: getMessage('archivePageDescription', `Posts from ${ period }`, period, name)
+			}
+		}
+		break
+	case 'series': {
+		const series = typeof data.series === 'string' ? data.series : data.series?.name
+		if (series) {
+			return {
+				title: getMessage('seriesPageTitle', `${ series } - ${ name }`, series, name),
+				description: getMessage('seriesPageDescription', `Read every part of the ${ series } series`, series, name)
+			}
+		}
+		break
+	}
+	case 'author':
+		if (data.author) {
+			return {
+				title: getMessage('authorPageTitle', `${ data.author.name } - ${ name }`, data.author.name, name),
+				description: data.author.bio || getMessage('authorPageDescription', `All posts by ${ data.author.name }`, data.author.name, name)
+			}
+		}
+		break
+	default:
+		break
+	}
+
+	return {
+		title: getMessage('homePageTitle', `${ name } - ${ description }`, name, description),
+		description: getMessage('homePageDescription', description, description, name)
+	}
+}
+
+/**
+ * Gets the previous and next pages of the page sequence: the parts of a
+ * series, the neighbouring posts, or the pages of a paginated list
+ * @param data - Page data
+ * @param path - Unlocalized path of the page
+ * @param uri - Base path of the blog
+ * @param localize - Localizes a path into the page language
+ * @returns Localized paths of the previous and next pages
+ */
+function getSequencePaths(
+	data: SeoPageData,
+	path: string,
+	uri: string,
+	localize: (path: string) => string
+): { prev: string | null, next: string | null } {
+	if (data.pageType === 'post') {
+		const series = typeof data.series === 'object' ? data.series : null
+		const previous = series ? series.previous : data.previousPost
+		const next = series ? series.next : data.nextPost
+		return {
+			prev: previous ? localize(`${ uri }${ previous.urlPath }`) : null,
+			next: next ? localize(`${ uri }${ next.urlPath }`) : null
+		}
+	}
+
+	const { page, pageCount } = data
+	if (page === undefined || pageCount === undefined) { return { prev: null, next: null } }
+	const pagePath = (n: number): string => n === 1 ? localize(path) : `${ localize(path) }?page=${ n }`
+	return {
+		prev: page > 1 ? pagePath(page - 1) : null,
+		next: page < pageCount ? pagePath(page + 1) : null
+	}
+}
+
+/**
+ * Builds the meta and link tags of a blog page
+ *
+ * Covers the title and description, canonical URL, OpenGraph and Twitter
+ * Card tags, `article:*` tags for posts, hreflang alternates for post
+ * translations, feed discovery links and `prev`/`next` links.
+ *
+ * @param data - Page data from the blog route loaders
+ * @param config - Blog configuration
+ * @param options - Site URL, messages and localizer overrides
+ * @returns Title, description, canonical URL and the tags to render
+ */
+export function buildSeoMeta(data: SeoPageData, config: BlogConfig = blogConfig, options: SeoMetaOptions = {}): SeoMeta {
+	const { i18n } = config
+	// Like the sitemap, prefix non-default languages when languages are part of the URL
+	const localizePath = options.localizePath ?? ((pagePath: string, code: string): string =>
+		i18n?.includeLanguageInURL && code !== i18n.defaultLanguage ? `/${ code }${ pagePath }` : pagePath)
+	const siteUrl = (options.siteUrl ?? config.seo.siteUrl).replace(/\/$/, '')
+	const absolute = (url: string): string => siteUrl ? toAbsoluteUrl(url, `${ siteUrl }/`) : url
+	const getter = createMessageGetter(options.messages)
+	const getMessage = (key: string, fallback: string, ...args: unknown[]): string => {
+		const message = getter(key, fallback, ...args)
+		return typeof message === 'string' ? message : fallback
+	}
+
+	const defaultLanguage = i18n?.defaultLanguage ?? 'en'
+	const lang = data.lang ?? defaultLanguage
+	const path = getPagePath(data, config.uri)
+	const pageQuery = data.page !== undefined && data.page > 1 ? `?page=${ data.page }` : ''
+	const canonical = absolute(`${ localizePath(path, lang) }${ pageQuery }`)
+	const { title, description } = getPageText(data, config, getMessage)
+	const image = getPageImage(data, config)
+	const post = data.pageType === 'post' ? data.post : undefined
+
+	const meta: SeoMetaTag[] = [
+		{ name: 'description', content: description },
+		{ property: 'og:site_name', content: config.name },
+		{ property: 'og:type', content: post ? 'article' : 'website' },
+		{ property: 'og:title', content: post?.metadata.fm.title ?? title },
+		{ property: 'og:description', content: description },
+		{ property: 'og:url', content: canonical },
+		{ property: 'og:locale', content: toOgLocale(lang) }
+	]
+	const links: SeoLinkTag[] = [ { rel: 'canonical', href: canonical } ]
+
+	// Every language version of a post lists all versions, including itself and x-default
+	const translations = Object.keys(post?.metadata.fm.i18n ?? {}).filter(code => code !== defaultLanguage)
+	if (post && translations.length > 0) {
+		const languages = [ defaultLanguage, ...translations ]
+		languages.forEach(code => {
+			links.push({ rel: 'alternate', hreflang: code, href: absolute(localizePath(path, code)) })
+			if (code !== lang) { meta.push({ property: 'og:locale:alternate', content: toOgLocale(code) }) }
+		})
+		links.push({ rel: 'alternate', hreflang: 'x-default', href: absolute(localizePath(path, defaultLanguage)) })
+	}
+
+	if (image) {
+		meta.push({ property: 'og:image', content: absolute(image.src) })
+		if (image.alt) { meta.push({ property: 'og:image:alt', content: image.alt }) }
+		if (image.width && image.height) {
+			meta.push({ property: 'og:image:width', content: String(image.width) })
+			meta.push({ property: 'og:image:height', content: String(image.height) })
+		}
+	}
+
+	if (post) {
+		const { date, updated } = post.metadata.fm
+		const publishedTime = toIsoDate(date || post.date)
+		const modifiedTime = toIsoDate(updated)
+		const [ section ] = getPostCategories(post)
+		if (publishedTime) { meta.push({ property: 'article:published_time', content: publishedTime }) }
+		if (modifiedTime) { meta.push({ property: 'article:modified_time', content: modifiedTime }) }
+		if (section) { meta.push({ property: 'article:section', content: section }) }
+		getPostTags(post).forEach(tag => meta.push({ property: 'article:tag', content: tag }))
+	}
+
+	meta.push({ name: 'twitter:card', content: image ? 'summary_large_image' : 'summary' })
+	meta.push({ name: 'twitter:title', content: post?.metadata.fm.title ?? title })
+	meta.push({ name: 'twitter:description', content: description })
+	if (image) {
+		meta.push({ name: 'twitter:image', content: absolute(image.src) })
+		if (image.alt) { meta.push({ name: 'twitter:image:alt', content: image.alt }) }
+	}
+	if (config.seo.twitterSite) { meta.push({ name: 'twitter:site', content: config.seo.twitterSite }) }
+	const creatorProfile = post ? getPostAuthors(post)[0]?.social?.['twitter'] : undefined
+	const creator = creatorProfile ? toTwitterHandle(creatorProfile) : undefined
+	if (creator) { meta.push({ name: 'twitter:creator', content: creator }) }
+
+	Object.entries(FEED_TYPES).forEach(([ format, type ]) => {
+		const feedPath = config.seo.feeds[format as keyof typeof FEED_TYPES]
+		if (feedPath) { links.push({ rel: 'alternate', type, title: config.name, href: absolute(feedPath) }) }
+	})
+
+	const { prev, next } = getSequencePaths(data, path, config.uri, pagePath => localizePath(pagePath, lang))
+	if (prev) { links.push({ rel: 'prev', href: absolute(prev) }) }
+	if (next) { links.push({ rel: 'next', href: absolute(next) }) }
+
+	return { title, description, canonical, meta, links }
+}
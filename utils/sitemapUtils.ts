@@ -0,0 +1,277 @@
+/**
+ * XML sitemap generation for blog posts, categories and tags
+ */
+
+import { blogConfig } from '../config/index.js'
+import {
+	escapeXml,
+	getPostUrl,
+	getCategoryUrl,
+	getTagUrl,
+	getPostCategories,
+	getPostTags,
+	type CategoryData,
+	type ProcessedPost
+} from './blogUtils.js'
+import { createLogger } from './logger.js'
+
+const logger = createLogger('SitemapUtils')
+
+/** Maximum number of URLs allowed in a single sitemap by the sitemap protocol */
+export const MAX_SITEMAP_URLS = 50000
+
+// Alternate language version of a URL
+export interface SitemapAlternate {
+	hreflang: string
+	href: string
+}
+
+// Single <url> entry of a sitemap
+export interface SitemapUrl {
+	loc: string
+	lastmod?: string
+	alternates?: SitemapAlternate[]
+}
+
+// Function that builds the path of a page in a given language
+export type SitemapLocalizer = (path: string, lang: string) => string
+
+// Sitemap generation options
+export interface SitemapOptions {
+	/** Absolute site origin, e.g. https://example.com */
+	siteUrl: string
+	/** Include category and tag pages (default: true) */
+	includeTaxonomies?: boolean
+	/** Category descriptions declaring parents, so nested categories are listed at their full path */
+	categories?: Record<string, CategoryData>
+	/** Add hreflang alternates for translations (default: blogConfig.i18n.enabled) */
+	includeAlternates?: boolean
+	/** Builds the localized path of a page (default: language prefix when includeLanguageInURL is set) */
+	localizePath?: SitemapLocalizer
+	/** Maximum URLs per sitemap file before splitting into a sitemap index */
+	maxUrlsPerSitemap?: number
+	/** Path the sitemap is served from, used for the child sitemap links of an index */
+	sitemapPath?: string
+	/** 1-based page of a split sitemap; omit to get the index when splitting is needed */
+	page?: number
+}
+
+/**
+ * Default localizer: prefixes non-default languages when languages are part of the URL
+ * @param path - Unlocalized path
+ * @param lang - Language code
+ * @returns Localized path
+ */
+function defaultLocalizePath(path: string, lang: string): string {
+	const { i18n } = blogConfig
+	if (!i18n?.includeLanguageInURL || lang === i18n.defaultLanguage) {
+		return path
+	}
+	return `/${ lang }${ path }`
+}
+
+/**
+ * Formats a date as a W3C date (YYYY-MM-DD) for lastmod
+ * @param date - Date string
+ * @returns Formatted date, or undefined when the date is invalid
+ */
+function toLastmod(date: string | undefined): string | undefined {
+	if (!date) { return undefined }
+	const parsed = new Date(date)
+	return isNaN(parsed.getTime()) ? undefined : parsed.toISOString().split('T')[0]
+}
+
+/**
+ * Picks the most recent of two lastmod values
+ */
+function latestLastmod(a: string | undefined, b: string | undefined): string | undefined {
+	if (!a) { return b }
+	if (!b) { return a }
+	return a > b ? a : b
+}
+
+/**
+ * Builds the list of sitemap URLs for the blog index, posts and taxonomy pages
+ *
+ * @param posts - Processed posts in the default language
+ * @param options - Sitemap options
+ * @returns Sitemap URL entries
+ * @throws Error If siteUrl is not provided
+ */
+export function getSitemapUrls(posts: ProcessedPost[], options: SitemapOptions): SitemapUrl[] {
+	if (!options?.siteUrl) {
+		throw new Error('siteUrl is required to generate sitemap')
+	}
+
+	const config = blogConfig
+	const {
+		includeTaxonomies = true,
+		categories = {},
+		includeAlternates = config.i18n?.enabled ?? false,
+		localizePath = defaultLocalizePath
+	} = options
+	const baseUrl = options.siteUrl.endsWith('/') ? options.siteUrl.slice(0, -1) : options.siteUrl
+	const defaultLanguage = config.i18n?.defaultLanguage || 'en'
+
+	const urls: SitemapUrl[] = []
+	const seen = new Set<string>()
+	let blogLastmod: string | undefined
+
+	const addUrl = (entry: SitemapUrl): void => {
+		if (seen.has(entry.loc)) { return }
+		seen.add(entry.loc)
+		urls.push(entry)
+	}
+
+	posts.forEach(post => {
+		if (!post?.urlPath) { return }
+
+		const path = getPostUrl(post)
+		const lastmod = toLastmod(post.metadata.fm.updated || post.date)
+		blogLastmod = latestLastmod(blogLastmod, lastmod)
+
+		const translations = Object.keys(post.metadata.fm.i18n ?? {})
+		if (!includeAlternates || translations.length === 0) {
+			addUrl({ loc: `${ baseUrl }${ path }`, ...(lastmod ? { lastmod } : {}) })
+			return
+		}
+
+		// Every language version lists all versions, including itself and x-default
+		const languages = [ defaultLanguage, ...translations.filter(lang => lang !== defaultLanguage) ]
+		const defaultHref = `${ baseUrl }${ localizePath(path, defaultLanguage) }`
+		const alternates: SitemapAlternate[] = [
+			...languages.map(lang => ({ hreflang: lang, href: `${ baseUrl }${ localizePath(path, lang) }` })),
+			{ hreflang: 'x-default', href: defaultHref }
+		]
+
+		languages.forEach(lang => {
+			addUrl({
+				loc: `${ baseUrl }${ localizePath(path, lang) }`,
+				...(lastmod ? { lastmod } : {}),
+				alternates
+			})
+		})
+	})
+
+	// The blog index changes whenever a post does
+	urls.unshift({ loc: `${ baseUrl }${ config.uri }`, ...(blogLastmod ? { lastmod: blogLastmod } : {}) })
+	seen.add(`${ baseUrl }${ config.uri }`)
+
+	if (includeTaxonomies) {
+		const taxonomyLastmods = new Map<string, string | undefined>()
+
+		posts.forEach(post => {
+			const lastmod = toLastmod(post.metadata.fm.updated || post.date)
+			const paths = [
+				...getPostCategories(post).map(category => getCategoryUrl(category, false, categories)),
+				...getPostTags(post).map(tag => getTagUrl(tag))
+			]
+			paths.forEach(path => {
+				taxonomyLastmods.set(path, latestLastmod(taxonomyLastmods.get(path), lastmod))
+			})
+		})
+
+		taxonomyLastmods.forEach((lastmod, path) => {
+			addUrl({ loc: `${ baseUrl }${ path }`, ...(lastmod ? { lastmod } : {}) })
+		})
+	}
+
+	return urls
+}
+
+/**
+ * Renders sitemap URL entries as a <urlset> document
+ * @param urls - Sitemap URL entries
+ * @returns Sitemap XML
+ */
+export function renderSitemapXml(urls: SitemapUrl[]): string {
+	const hasAlternates = urls.some(url => url.alternates && url.alternates.length > 0)
+
+	let xml = `<?xml version="1.0" encoding="UTF-8" ?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${ hasAlternates ? ' xmlns:xhtml="http://www.w3.org/1999/xhtml"' : '' }>
+`
+
+	urls.forEach(url => {
+		xml += '  <url>\n'
+		xml += `    <loc>${ escapeXml(url.loc) }</loc>\n`
+		if (url.lastmod) {
+			xml += `    <lastmod>${ url.lastmod }</lastmod>\n`
+		}
+		url.alternates?.forEach(alternate => {
+			xml += `    <xhtml:link rel="alternate" hreflang="${ escapeXml(alternate.hreflang) }" href="${ escapeXml(alternate.href) }" />\n`
+		})
+		xml += '  </url>\n'
+	})
+
+	xml += '</urlset>'
+	return xml
+}
+
+/**
+ * Renders a <sitemapindex> document pointing at child sitemaps
+ * @param sitemaps - Child sitemap locations with optional lastmod
+ * @returns Sitemap index XML
+ */
+export function renderSitemapIndexXml(sitemaps: SitemapUrl[]): string {
+	let xml = `<?xml version="1.0" encoding="UTF-8" ?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+`
+
+	sitemaps.forEach(sitemap => {
+		xml += '  <sitemap>\n'
+		xml += `    <loc>${ escapeXml(sitemap.loc) }</loc>\n`
+		if (sitemap.lastmod) {
+			xml += `    <lastmod>${ sitemap.lastmod }</lastmod>\n`
+		}
+		xml += '  </sitemap>\n'
+	})
+
+	xml += '</sitemapindex>'
+	return xml
+}
+
+/**
+ * Generates a sitemap for the blog
+ *
+ * When the blog has more URLs than maxUrlsPerSitemap, the result without a
+ * page option is a sitemap index linking to `{sitemapPath}?page=N`, and each
+ * page option returns that slice of URLs.
+ *
+ * @param posts - Processed posts in the default language
+ * @param options - Sitemap options
+ * @returns Sitemap or sitemap index XML
+ * @throws Error If siteUrl is not provided or the page is out of range
+ */
+export function generateSitemap(posts: ProcessedPost[], options: SitemapOptions): string {
+	const config = blogConfig
+	const {
+		maxUrlsPerSitemap = MAX_SITEMAP_URLS,
+		sitemapPath = `${ config.uri }/sitemap.xml`,
+		page
+	} = options
+
+	const urls = getSitemapUrls(posts, options)
+	const pageSize = Math.min(Math.max(1, maxUrlsPerSitemap), MAX_SITEMAP_URLS)
+	const pageCount = Math.ceil(urls.length / pageSize)
+
+	logger.info(`Generating sitemap with ${ urls.length } URLs`)
+
+	if (page === undefined) {
+		if (pageCount <= 1) {
+			return renderSitemapXml(urls)
+		}
+
+		const baseUrl = options.siteUrl.endsWith('/') ? options.siteUrl.slice(0, -1) : options.siteUrl
+		const lastmod = urls.reduce<string | undefined>((latest, url) => latestLastmod(latest, url.lastmod), undefined)
+		return renderSitemapIndexXml(Array.from({ length: pageCount }, (_, index) => ({
+			loc: `${ baseUrl }${ sitemapPath }?page=${ index + 1 }`,
+			...(lastmod ? { lastmod } : {})
+		})))
+	}
+
+	if (!Number.isInteger(page) || page < 1 || page > Math.max(pageCount, 1)) {
+		throw new Error(`Sitemap page ${ page } is out of range`)
+	}
+
+	return renderSitemapXml(urls.slice((page - 1) * pageSize, page * pageSize))
+}
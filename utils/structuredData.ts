@@ -0,0 +1,220 @@
+/**
+ * schema.org JSON-LD for blog pages: BlogPosting for posts, CollectionPage
+ * for category and tag pages, Blog for the index and BreadcrumbList everywhere
+ */
+
+import { blogConfig, type BlogConfig } from '../config/index.js'
+import {
+	getPostAuthors,
+	getPostCategories,
+	getPostTags,
+	type ProcessedPost
+} from './blogUtils.js'
+import { generateBreadcrumbs, type BreadcrumbConfig, type BreadcrumbPageData } from './breadcrumbUtils.js'
+import { toAbsoluteUrl } from './feedContent.js'
+import { createMessageGetter } from './messages.js'
+import { getOgImageUrl } from './ogImage.js'
+import { buildSeoMeta, type SeoMetaOptions, type SeoPageData } from './seoUtils.js'
+
+/** A JSON-LD node */
+export type JsonLd = Record<string, unknown>
+
+/** Options for the structured data builders; the same as for `buildSeoMeta` */
+export type StructuredDataOptions = SeoMetaOptions
+
+// Page data the structured data builders read
+export type StructuredDataPageData = SeoPageData & {
+	posts?: ProcessedPost[]
+}
+
+const SCHEMA_CONTEXT = 'https://schema.org'
+
+/**
+ * Creates a resolver that makes root-relative URLs absolute against the site URL
+ */
+function createUrlResolver(config: BlogConfig, options: StructuredDataOptions): (url: string) => string {
+	const siteUrl = (options.siteUrl ?? config.seo.siteUrl).replace(/\/$/, '')
+	return (url: string): string => siteUrl ? toAbsoluteUrl(url, `${ siteUrl }/`) : url
+}
+
+/**
+ * Formats a date string as an ISO 8601 timestamp
+ * @param date - Date string
+ * @returns ISO timestamp, or undefined when the date is invalid
+ */
+function toIsoDate(date: string | undefined): string | undefined {
+	if (!date) { return undefined }
+	const parsed = new Date(date)
+	return isNaN(parsed.getTime()) ? undefined : parsed.toISOString()
+}
+
+/**
+ * Counts the words of a post body, ignoring HTML tags
+ */
+function countWords(content: string): number {
+	return content.replace(/<[^>]*>/g, ' ').trim().split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Builds the BlogPosting node of a post
+ *
+ * @param post - The post, with its content loaded for `wordCount`
+ * @param config - Blog configuration
+ * @param options - Site URL and localizer overrides
+ * @returns BlogPosting JSON-LD
+ */
+export function buildPostJsonLd(post: ProcessedPost, config: BlogConfig = blogConfig, options: StructuredDataOptions = {}): JsonLd {
+	const absolute = createUrlResolver(config, options)
+	const { fm } = post.metadata
+	const seo = buildSeoMeta({ pageType: 'post', post, lang: post.lang ?? config.i18n?.defaultLanguage ?? 'en' }, config, options)
+	const image = fm.image?.src ? fm.image : fm.thumbnail
+	const imageUrl = image?.src || getOgImageUrl(post, config)
+	const datePublished = toIsoDate(fm.date || post.date)
+	const dateModified = toIsoDate(fm.updated) ?? datePublished
+	const [ section ] = getPostCategories(post)
+	const tags = getPostTags(post)
+	const authors = getPostAuthors(post).map(author => ({
+		'@type': 'Person',
+		name: author.name,
+		...(author.url || author.id ? { url: absolute(author.url ?? `${ config.uri }/author/${ author.id ?? '' }`) } : {}),
+		...(author.avatar && /^(?:[a-z][a-z0-9+.-]*:|\/)/i.test(author.avatar) ? { image: absolute(author.avatar) } : {})
+	}))
+
+	return {
+		'@context': SCHEMA_CONTEXT,
+		'@type': 'BlogPosting',
+		headline: fm.title,
+		...(fm.excerpt ? { description: fm.excerpt } : {}),
+		url: seo.canonical,
+		mainEntityOfPage: { '@type': 'WebPage', '@id': seo.canonical },
+		...(imageUrl ? { image: absolute(imageUrl) } : {}),
+		author: authors.length > 0 ? authors : [ { '@type': 'Organization', name: config.name } ],
+		publisher: { '@type': 'Organization', name: config.name, url: absolute(config.uri) },
+		...(datePublished ? { datePublished } : {}),
+		...(dateModified ? { dateModified } : {}),
+		...(section ? { articleSection: section } : {}),
+		...(tags.length > 0 ? { keywords: tags.join(', ') } : {}),
+		...(post.content ? { wordCount: countWords(post.content) } : {}),
+		inLanguage: post.lang ?? config.i18n?.defaultLanguage ?? 'en'
+	}
+}
+
+/**
+ * Builds a BreadcrumbList node from `generateBreadcrumbs` output
+ *
+ * @param breadcrumbs - Breadcrumb configuration of the page
+ * @param currentUrl - URL of the current page, used for the last item
+ * @param config - Blog configuration
+ * @param options - Site URL and messages
+ * @returns BreadcrumbList JSON-LD, or null when the page has no trail
+ */
+export function buildBreadcrumbJsonLd(
+	breadcrumbs: BreadcrumbConfig,
+	currentUrl: string,
+	config: BlogConfig = blogConfig,
+	options: StructuredDataOptions = {}
+): JsonLd | null {
+	const absolute = createUrlResolver(config, options)
+	const getMessage = createMessageGetter(options.messages)
+	const home = getMessage('home', 'Home')
+
+	const trail = [
+		...(breadcrumbs.showHome ? [ { name: typeof home === 'string' ? home : 'Home', url: absolute('/') } ] : []),
+		...breadcrumbs.items.map(item => ({ name: item.label, url: absolute(item.href) })),
+		...(breadcrumbs.current ? [ { name: breadcrumbs.current, url: currentUrl } ] : [])
+	]
+	if (trail.length < 2) { return null }
+
+	return {
+		'@context': SCHEMA_CONTEXT,
+		'@type': 'BreadcrumbList',
+		itemListElement: trail.map((item, index) => ({
+			'@type': 'ListItem',
+			position: index + 1,
+			name: item.name,
+			item: item.url
+		}))
+	}
+}
+
+/**
+ * Builds the JSON-LD nodes of a blog page
+ *
+ * Posts get a BlogPosting, category and tag pages a CollectionPage listing
+ * their posts, and the index a Blog. Every page with a breadcrumb trail also
+ * gets a BreadcrumbList.
+ *
+ * @param data - Page data from the blog route loaders
+ * @param config - Blog configuration
+ * @param options - Site URL, messages and localizer overrides
+ * @returns JSON-LD nodes of the page
+ */
+export function buildStructuredData(
+	data: StructuredDataPageData,
+	config: BlogConfig = blogConfig,
+	options: StructuredDataOptions = {}
+): JsonLd[] {
+	const absolute = createUrlResolver(config, options)
+	const seo = buildSeoMeta(data, config, options)
+	const postUrl = (post: ProcessedPost): string => absolute(`${ config.uri }${ post.urlPath }`)
+	const nodes: JsonLd[] = []
+
+	if (data.pageType === 'post' && data.post) {
+		nodes.push(buildPostJsonLd(data.post, config, options))
+	} else if (data.pageType === 'index') {
+		nodes.push({
+			'@context': SCHEMA_CONTEXT,
+			'@type': 'Blog',
+			name: config.name,
+			description: config.description,
+			url: seo.canonical,
+			blogPost: (data.posts ?? []).map(post => ({
+				'@type': 'BlogPosting',
+				headline: post.metadata.fm.title,
+				url: postUrl(post),
+				...(toIsoDate(post.date) ? { datePublished: toIsoDate(post.date) } : {})
+			}))
+		})
+	} else if (data.pageType === 'category' || data.pageType === 'tag') {
+		nodes.push({
+			'@context': SCHEMA_CONTEXT,
+			'@type': 'CollectionPage',
+			name: data.pageType === 'category' ? data.category : data.tag,
+			description: seo.description,
+			url: seo.canonical,
+			isPartOf: { '@type': 'Blog', name: config.name, url: absolute(config.uri) },
+			mainEntity: {
+				'@type': 'ItemList',
+				itemListElement: (data.posts ?? []).map((post, index) => ({
+					'@type': 'ListItem',
+					position: index + 1,
+					url: postUrl(post)
+				}))
+			}
+		})
+	}
+
+	const breadcrumbs = buildBreadcrumbJsonLd(generateBreadcrumbs(data as BreadcrumbPageData), seo.canonical, config, options)
+	if (breadcrumbs) { nodes.push(breadcrumbs) }
+
+	return nodes
+}
+
+/**
+ * Serializes JSON-LD for a `<script type="application/ld+json">` element
+ *
+ * `<`, `>` and `&` are escaped as Unicode escapes so text such as
+ * `</script>` in a post title can't end the script element, and the line
+ * separators JavaScript rejects in strings are escaped too.
+ *
+ * @param data - JSON-LD node or nodes
+ * @returns JSON safe to embed in HTML
+ */
+export function serializeJsonLd(data: JsonLd | JsonLd[]): string {
+	return JSON.stringify(data)
+		.replace(/</g, '\\u003c')
+		.replace(/>/g, '\\u003e')
+		.replace(/&/g, '\\u0026')
+		.replace(/\u2028/g, '\\u2028')
+		.replace(/\u2029/g, '\\u2029')
+}